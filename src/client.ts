@@ -3,8 +3,28 @@
  * A TypeScript client for the Telegraph API
  */
 
-import { TelegraphError } from './errors.js';
+import {
+  TelegraphError,
+  TelegraphContentError,
+  TelegraphNetworkError,
+  TelegraphValidationError,
+  createApiError,
+  createHttpError,
+} from './errors.js';
 import { parseContent } from './utils.js';
+import { MUTATING_METHODS, resolveRetryOptions, retryDelay, sleep } from './retry.js';
+import { RateLimiter } from './rate-limiter.js';
+import { AccountSession } from './session.js';
+import { toCamelAccount, toCamelPage, toCamelPageList } from './models.js';
+import { MAX_UPLOAD_SIZE, readUploadSource, resolveUploadType } from './upload.js';
+import { uploadLocalImages } from './images.js';
+import { validateNodes } from './validate.js';
+import { frontMatterString, parseFrontMatter, updateFrontMatter } from './front-matter.js';
+import { SERIES_NAVIGATION_RESERVE, addSeriesNavigation, splitContent } from './series.js';
+import { insertTableOfContents } from './toc.js';
+import { resolvePagePath } from './page-reference.js';
+import { DEFAULT_VIEWS_CACHE_SIZE, LruViewsCache, viewsPeriods } from './views.js';
+import type { AccountSessionOptions } from './session.js';
 import type {
   Account,
   Page,
@@ -20,9 +40,29 @@ import type {
   GetPageParams,
   GetPageListParams,
   GetViewsParams,
+  GetViewsSeriesParams,
+  ViewsCache,
+  ViewsSeries,
+  TelegraphOptions,
+  RequestOptions,
+  RetryOptions,
+  RateLimitStats,
+  ResponseCase,
+  ResponseModels,
+  UploadSource,
+  UploadFileOptions,
+  UploadResult,
+  UploadCache,
+  Node,
+  PublishMarkdownParams,
+  PublishMarkdownResult,
+  CreateSeriesParams,
+  IteratePagesParams,
 } from './types.js';
+import { MAX_CONTENT_SIZE } from './types.js';
 
-const BASE_URL = 'https://api.telegra.ph';
+const DEFAULT_BASE_URL = 'https://api.telegra.ph';
+const DEFAULT_UPLOAD_BASE_URL = 'https://telegra.ph';
 
 /**
  * Telegraph API Client class
@@ -42,26 +82,220 @@ const BASE_URL = 'https://api.telegra.ph';
  *
  * // Create a page
  * const page = await telegraph.createPage({
- *   accessToken: account.accessToken!,
+ *   accessToken: account.access_token!,
  *   title: 'Hello World',
  *   content: '<p>This is my page</p>'
  * });
  *
  * console.log(page.url);
+ *
+ * // camelCase response models
+ * const camel = new Telegraph({ responseCase: 'camel' });
+ * const camelAccount = await camel.createAccount({ shortName: 'MyBot' });
+ * console.log(camelAccount.accessToken);
+ *
+ * // Custom transport
+ * const proxied = new Telegraph({
+ *   baseUrl: 'http://localhost:8080',
+ *   timeout: 10_000,
+ *   headers: { 'X-Request-Source': 'worker' }
+ * });
  * ```
  */
-export class Telegraph {
+export class Telegraph<C extends ResponseCase = 'snake'> {
+  /** Typed as C so clients with different response cases are not assignable to each other */
+  private readonly responseCase: C;
+  private readonly baseUrl: string;
+  private readonly uploadBaseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeout?: number;
+  private readonly headers: Record<string, string>;
+  private readonly retry?: RetryOptions;
+  private readonly readLimiter?: RateLimiter;
+  private readonly writeLimiter?: RateLimiter;
+  private readonly uploadCache: UploadCache = new Map<string, string>();
+  private readonly viewsCache: ViewsCache;
+
+  /**
+   * Creates a new Telegraph client
+   *
+   * @param options - Client options (response case, base URL, fetch implementation, timeout, headers, retry policy, rate limit)
+   * @throws {TelegraphValidationError} If a rate limit budget is not positive
+   */
+  constructor(options: TelegraphOptions<C> = {}) {
+    this.responseCase = (options.responseCase || 'snake') as C;
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.uploadBaseUrl = (options.uploadBaseUrl || DEFAULT_UPLOAD_BASE_URL).replace(/\/+$/, '');
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+    this.timeout = options.timeout;
+    this.headers = options.headers || {};
+    this.retry = options.retry;
+    this.viewsCache = new LruViewsCache(options.viewsCacheSize ?? DEFAULT_VIEWS_CACHE_SIZE);
+
+    if (options.rateLimit) {
+      const { read, write, ...shared } = options.rateLimit;
+      const sharedLimiter = !read || !write ? new RateLimiter(shared) : undefined;
+      this.readLimiter = read ? new RateLimiter(read) : sharedLimiter;
+      this.writeLimiter = write ? new RateLimiter(write) : sharedLimiter;
+    }
+  }
+
+  /**
+   * Get the current depth of the client's request queues
+   *
+   * When reads and writes share a budget, `read` and `write` report the same queue.
+   *
+   * @returns Queued and in-flight request counts
+   *
+   * @example
+   * ```typescript
+   * const { queued, active } = telegraph.getQueueStats();
+   * console.log(`${queued} waiting, ${active} in flight`);
+   * ```
+   */
+  getQueueStats(): RateLimitStats {
+    const empty = { queued: 0, active: 0 };
+    const read = this.readLimiter?.stats() || empty;
+    const write = this.writeLimiter?.stats() || empty;
+    const shared = this.readLimiter === this.writeLimiter;
+
+    return {
+      queued: shared ? read.queued : read.queued + write.queued,
+      active: shared ? read.active : read.active + write.active,
+      read,
+      write,
+    };
+  }
+
+  /**
+   * Perform a fetch call honouring the configured timeout and abort signal
+   *
+   * The timeout and the abort signal also cover reading the response, so a server that
+   * sends its headers and then stalls on the body does not hang the call.
+   *
+   * @param url - Request URL
+   * @param init - Fetch init options
+   * @param options - Per-call request options
+   * @param method - API method name, attached to errors
+   * @param read - Reads the result from the response
+   * @returns Result of read
+   * @throws {TelegraphNetworkError} If the request fails, times out or is aborted
+   */
+  private async send<R>(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions,
+    method: string,
+    read: (response: Response) => Promise<R>
+  ): Promise<R> {
+    const timeout = options.timeout ?? this.timeout;
+    const external = options.signal;
+
+    if (external?.aborted) {
+      throw new TelegraphNetworkError('Request aborted', { code: 'ABORTED', method });
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    external?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    const networkError = (error: unknown) => {
+      if (timedOut) {
+        return new TelegraphNetworkError(`Request timed out after ${timeout}ms`, {
+          code: 'TIMEOUT',
+          method,
+          cause: error,
+        });
+      }
+      if (external?.aborted) {
+        return new TelegraphNetworkError('Request aborted', { code: 'ABORTED', method, cause: error });
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return new TelegraphNetworkError(`Network error: ${message}`, {
+        code: 'NETWORK_ERROR',
+        method,
+        cause: error,
+      });
+    };
+
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, { ...init, signal: controller.signal });
+      } catch (error) {
+        throw networkError(error);
+      }
+
+      // Not every fetch implementation errors the body stream on abort, so race it
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+      });
+      try {
+        return await Promise.race([read(response), aborted]);
+      } catch (error) {
+        if (timedOut || external?.aborted) {
+          throw networkError(error);
+        }
+        throw error;
+      }
+    } finally {
+      if (timer !== undefined) clearTimeout(timer);
+      external?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Run request attempts through the rate limiter and retry policy
+   *
+   * @param method - API method name, used to pick the budget and retry rules
+   * @param options - Per-call request options
+   * @param attempt - Performs a single request attempt
+   * @returns Result of the first successful attempt
+   * @throws {TelegraphError} If the last attempt fails
+   */
+  private async execute<T>(method: string, options: RequestOptions, attempt: () => Promise<T>): Promise<T> {
+    const retry = resolveRetryOptions(options.retry ?? this.retry);
+    const mutating = MUTATING_METHODS.has(method);
+    const limiter = mutating ? this.writeLimiter : this.readLimiter;
+
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      try {
+        // Every attempt, including retries, counts against the rate limit budget
+        return limiter ? await limiter.schedule(attempt, options.signal) : await attempt();
+      } catch (error) {
+        const delay = retryDelay(error, attemptNumber, retry, mutating);
+        if (delay === undefined) {
+          throw error;
+        }
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
   /**
    * Make a request to the Telegraph API
    *
+   * Requests wait for the rate limiter, and failed requests are retried
+   * according to the client's retry policy.
+   *
    * @param method - API method name
    * @param params - Request parameters
+   * @param options - Per-call request options
    * @returns API response result
    * @throws {TelegraphError} If the request fails or API returns an error
    */
-  private async apiRequest<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
-    const url = `${BASE_URL}/${method}`;
-
+  private async apiRequest<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
     // Filter out undefined values
     const filteredParams: Record<string, string> = {};
     for (const [key, value] of Object.entries(params)) {
@@ -73,32 +307,189 @@ export class Telegraph {
         }
       }
     }
+    const body = new URLSearchParams(filteredParams).toString();
+
+    return this.execute(method, options, () => this.attemptRequest<T>(method, body, options));
+  }
 
-    const response = await fetch(url, {
+  /**
+   * Perform a single API request attempt
+   *
+   * @param method - API method name
+   * @param body - URL-encoded request body
+   * @param options - Per-call request options
+   * @returns API response result
+   * @throws {TelegraphError} Typed error for network, HTTP or API failures
+   */
+  private async attemptRequest<T>(method: string, body: string, options: RequestOptions): Promise<T> {
+    return this.send(`${this.baseUrl}/${method}`, {
       method: 'POST',
       headers: {
+        ...this.headers,
         'Content-Type': 'application/x-www-form-urlencoded',
       },
-      body: new URLSearchParams(filteredParams).toString(),
+      body,
+    }, options, method, async response => {
+      if (!response.ok) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+        throw createHttpError(response.status, response.statusText, {
+          method,
+          retryAfterSeconds: Number.isNaN(retryAfter) ? undefined : retryAfter,
+        });
+      }
+
+      let data: ApiResponse<T>;
+      try {
+        data = await response.json() as ApiResponse<T>;
+      } catch (error) {
+        throw new TelegraphError('Invalid JSON in API response', {
+          code: 'INVALID_RESPONSE',
+          method,
+          httpStatus: response.status,
+          cause: error,
+        });
+      }
+
+      if (!data.ok) {
+        throw createApiError(data.error || 'UNKNOWN_ERROR', {
+          method,
+          httpStatus: response.status,
+          response: data,
+        });
+      }
+
+      return data.result as T;
+    });
+  }
+
+  /**
+   * Perform a single upload attempt
+   *
+   * @param bytes - File contents
+   * @param contentType - MIME type of the file
+   * @param filename - File name sent with the upload
+   * @param options - Per-call request options
+   * @returns Path of the hosted file
+   * @throws {TelegraphError} Typed error for network, HTTP or upload failures
+   */
+  private async attemptUpload(
+    bytes: Uint8Array,
+    contentType: string,
+    filename: string,
+    options: RequestOptions
+  ): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([bytes as BlobPart], { type: contentType }), filename);
+
+    return this.send(`${this.uploadBaseUrl}/upload`, {
+      method: 'POST',
+      headers: this.headers,
+      body: form,
+    }, options, 'upload', async response => {
+      if (!response.ok) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+        throw createHttpError(response.status, response.statusText, {
+          method: 'upload',
+          retryAfterSeconds: Number.isNaN(retryAfter) ? undefined : retryAfter,
+        });
+      }
+
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch (error) {
+        throw new TelegraphError('Invalid JSON in upload response', {
+          code: 'INVALID_RESPONSE',
+          method: 'upload',
+          httpStatus: response.status,
+          cause: error,
+        });
+      }
+
+      const src = Array.isArray(data) ? (data[0] as { src?: unknown } | undefined)?.src : undefined;
+      if (typeof src !== 'string') {
+        throw new TelegraphError((data as { error?: string } | null)?.error || 'Upload failed', {
+          code: 'UPLOAD_FAILED',
+          method: 'upload',
+          httpStatus: response.status,
+          response: data,
+        });
+      }
+
+      return src;
     });
+  }
 
-    if (!response.ok) {
-      throw new TelegraphError(`HTTP error: ${response.status} ${response.statusText}`);
+  /**
+   * Turn page content into a Node array ready to be sent
+   *
+   * @param params - createPage/editPage parameters
+   * @param options - Per-call request options
+   * @returns Node array
+   * @throws {TelegraphContentError} If strict mode is on and the content is invalid
+   */
+  private async prepareContent(
+    params: Pick<CreatePageParams, 'content' | 'uploadImages' | 'strict' | 'toc'>,
+    options: RequestOptions = {}
+  ): Promise<Node[]> {
+    let content = typeof params.content === 'string'
+      ? parseContent(params.content)
+      : params.content;
+
+    if (params.uploadImages) {
+      const uploadOptions = params.uploadImages === true ? {} : params.uploadImages;
+      content = await uploadLocalImages(content, this, {
+        ...options,
+        ...uploadOptions,
+        cache: uploadOptions.cache || this.uploadCache,
+      });
     }
 
-    const data = await response.json() as ApiResponse<T>;
+    if (params.toc) {
+      content = insertTableOfContents(content, params.toc === true ? {} : params.toc);
+    }
 
-    if (!data.ok) {
-      throw new TelegraphError(data.error || 'Unknown Telegraph API error');
+    if (params.strict) {
+      const { diagnostics } = validateNodes(content);
+      const errors = diagnostics.filter(d => d.severity === 'error');
+      if (errors.length > 0) {
+        throw new TelegraphContentError(
+          `Invalid content: ${errors[0].message}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`,
+          diagnostics,
+          { code: errors[0].code }
+        );
+      }
     }
 
-    return data.result as T;
+    return content;
+  }
+
+  /**
+   * Convert an API Account to the configured response case
+   */
+  private mapAccount(account: Account): ResponseModels<C>['account'] {
+    return (this.responseCase === 'camel' ? toCamelAccount(account) : account) as ResponseModels<C>['account'];
+  }
+
+  /**
+   * Convert an API Page to the configured response case
+   */
+  private mapPage(page: Page): ResponseModels<C>['page'] {
+    return (this.responseCase === 'camel' ? toCamelPage(page) : page) as ResponseModels<C>['page'];
+  }
+
+  /**
+   * Convert an API PageList to the configured response case
+   */
+  private mapPageList(pageList: PageList): ResponseModels<C>['pageList'] {
+    return (this.responseCase === 'camel' ? toCamelPageList(pageList) : pageList) as ResponseModels<C>['pageList'];
   }
 
   /**
    * Create a new Telegraph account
    *
    * @param params - Account creation parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Account object with access_token
    *
    * @example
@@ -108,21 +499,22 @@ export class Telegraph {
    *   authorName: 'Anonymous',
    *   authorUrl: 'https://example.com'
    * });
-   * console.log(account.accessToken);
+   * console.log(account.access_token);
    * ```
    */
-  async createAccount(params: CreateAccountParams): Promise<Account> {
-    return this.apiRequest<Account>('createAccount', {
+  async createAccount(params: CreateAccountParams, options?: RequestOptions): Promise<ResponseModels<C>['account']> {
+    return this.mapAccount(await this.apiRequest<Account>('createAccount', {
       short_name: params.shortName,
       author_name: params.authorName,
       author_url: params.authorUrl,
-    });
+    }, options));
   }
 
   /**
    * Update information about a Telegraph account
    *
    * @param params - Account update parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Updated Account object
    *
    * @example
@@ -134,19 +526,20 @@ export class Telegraph {
    * });
    * ```
    */
-  async editAccountInfo(params: EditAccountInfoParams): Promise<Account> {
-    return this.apiRequest<Account>('editAccountInfo', {
+  async editAccountInfo(params: EditAccountInfoParams, options?: RequestOptions): Promise<ResponseModels<C>['account']> {
+    return this.mapAccount(await this.apiRequest<Account>('editAccountInfo', {
       access_token: params.accessToken,
       short_name: params.shortName,
       author_name: params.authorName,
       author_url: params.authorUrl,
-    });
+    }, options));
   }
 
   /**
    * Get information about a Telegraph account
    *
    * @param params - Account info request parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Account object with requested fields
    *
    * @example
@@ -158,17 +551,18 @@ export class Telegraph {
    * console.log(`Pages: ${account.page_count}`);
    * ```
    */
-  async getAccountInfo(params: GetAccountInfoParams): Promise<Account> {
-    return this.apiRequest<Account>('getAccountInfo', {
+  async getAccountInfo(params: GetAccountInfoParams, options?: RequestOptions): Promise<ResponseModels<C>['account']> {
+    return this.mapAccount(await this.apiRequest<Account>('getAccountInfo', {
       access_token: params.accessToken,
       fields: params.fields,
-    });
+    }, options));
   }
 
   /**
    * Revoke access_token and generate a new one
    *
    * @param params - Token revocation parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Account object with new access_token and auth_url
    *
    * @example
@@ -176,20 +570,21 @@ export class Telegraph {
    * const account = await telegraph.revokeAccessToken({
    *   accessToken: 'your-old-token'
    * });
-   * console.log(`New token: ${account.accessToken}`);
+   * console.log(`New token: ${account.access_token}`);
    * console.log(`Auth URL: ${account.auth_url}`);
    * ```
    */
-  async revokeAccessToken(params: RevokeAccessTokenParams): Promise<Account> {
-    return this.apiRequest<Account>('revokeAccessToken', {
+  async revokeAccessToken(params: RevokeAccessTokenParams, options?: RequestOptions): Promise<ResponseModels<C>['account']> {
+    return this.mapAccount(await this.apiRequest<Account>('revokeAccessToken', {
       access_token: params.accessToken,
-    });
+    }, options));
   }
 
   /**
    * Create a new Telegraph page
    *
    * @param params - Page creation parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Page object
    *
    * @example
@@ -212,29 +607,37 @@ export class Telegraph {
    *   ]
    * });
    *
+   * // Markdown with local images, uploaded before publishing
+   * const page3 = await telegraph.createPage({
+   *   accessToken: 'your-access-token',
+   *   title: 'Architecture',
+   *   content: parseContent('![diagram](./img/arch.png)', 'markdown'),
+   *   uploadImages: { baseDir: './docs' }
+   * });
+   *
    * console.log(page.url);
    * ```
    */
-  async createPage(params: CreatePageParams): Promise<Page> {
-    const content = typeof params.content === 'string'
-      ? parseContent(params.content)
-      : params.content;
+  async createPage(params: CreatePageParams, options?: RequestOptions): Promise<ResponseModels<C>['page']> {
+    const content = await this.prepareContent(params, options);
 
-    return this.apiRequest<Page>('createPage', {
+    return this.mapPage(await this.apiRequest<Page>('createPage', {
       access_token: params.accessToken,
       title: params.title,
       content,
       author_name: params.authorName,
       author_url: params.authorUrl,
       return_content: params.returnContent,
-    });
+    }, options));
   }
 
   /**
    * Edit an existing Telegraph page
    *
    * @param params - Page edit parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Updated Page object
+   * @throws {TelegraphValidationError} If path is not a valid page path, URL or Page object
    *
    * @example
    * ```typescript
@@ -247,27 +650,180 @@ export class Telegraph {
    * });
    * ```
    */
-  async editPage(params: EditPageParams): Promise<Page> {
-    const content = typeof params.content === 'string'
-      ? parseContent(params.content)
-      : params.content;
+  async editPage(params: EditPageParams, options?: RequestOptions): Promise<ResponseModels<C>['page']> {
+    const path = resolvePagePath(params.path, 'editPage');
+    const content = await this.prepareContent(params, options);
 
-    return this.apiRequest<Page>('editPage', {
+    return this.mapPage(await this.apiRequest<Page>('editPage', {
       access_token: params.accessToken,
-      path: params.path,
+      path,
       title: params.title,
       content,
       author_name: params.authorName,
       author_url: params.authorUrl,
       return_content: params.returnContent,
+    }, options));
+  }
+
+  /**
+   * Publish content too big for one page as a series of linked pages
+   *
+   * The content is split at block boundaries, preferably before headings, so that each
+   * part fits Telegraph's 64 KB limit. Each part is published as its own page titled
+   * "<title> (Part N of M)" with a "Part N of M" label and links to the previous and
+   * next parts. Content that fits one page is published as a single page without
+   * navigation.
+   *
+   * Pass the paths of an earlier run as `paths` to update the series in place. Parts beyond
+   * the existing paths are created; existing pages no longer needed (Telegraph pages can't
+   * be deleted) are replaced by a link to the first part.
+   *
+   * @param params - Series parameters
+   * @param options - Per-call request options (timeout, abort signal)
+   * @returns Pages of the series, in order
+   * @throws {TelegraphValidationError} If one of paths is not a valid page path, URL or Page object
+   * @throws {TelegraphContentError} If strict mode is on and a part is invalid
+   *
+   * @example
+   * ```typescript
+   * const pages = await telegraph.createSeries({
+   *   accessToken: 'your-access-token',
+   *   title: 'Annual Report',
+   *   content: parseContent(report, 'markdown')
+   * });
+   * const paths = pages.map(page => page.path);
+   *
+   * // Later: update the same pages
+   * await telegraph.createSeries({ accessToken, title: 'Annual Report', content: updated, paths });
+   * ```
+   */
+  async createSeries(params: CreateSeriesParams, options?: RequestOptions): Promise<ResponseModels<C>['page'][]> {
+    const existing = (params.paths || []).map(reference => resolvePagePath(reference, 'editPage'));
+    // Strict validation happens per part, after splitting
+    const content = await this.prepareContent({ ...params, strict: false }, options);
+    const parts = splitContent(content, { maxSize: MAX_CONTENT_SIZE - SERIES_NAVIGATION_RESERVE });
+    const total = parts.length;
+
+    const pageParams = (index: number, partContent: Node[]): CreatePageParams => ({
+      accessToken: params.accessToken,
+      title: total > 1 ? `${params.title} (Part ${index + 1} of ${total})` : params.title,
+      content: partContent,
+      authorName: params.authorName,
+      authorUrl: params.authorUrl,
+      returnContent: params.returnContent,
+      strict: params.strict,
     });
+    const pageUrl = (path: string) => `${this.uploadBaseUrl}/${path}`;
+    const partContent = (index: number, paths: (string | undefined)[]) => total > 1
+      ? addSeriesNavigation(parts[index], index, total, {
+        previous: index > 0 ? pageUrl(paths[index - 1] as string) : undefined,
+        next: paths[index + 1] === undefined ? undefined : pageUrl(paths[index + 1] as string),
+      })
+      : parts[index];
+
+    // New parts are created in order, linking back to the part before them
+    const paths: (string | undefined)[] = parts.map((_, index) => existing[index]);
+    const pages: ResponseModels<C>['page'][] = [];
+    for (let index = 0; index < total; index++) {
+      if (paths[index] === undefined) {
+        pages[index] = await this.createPage(pageParams(index, partContent(index, paths)), options);
+        paths[index] = (pages[index] as Page).path;
+      }
+    }
+
+    // Existing parts, and new parts that were created before the next part existed, get full navigation
+    for (let index = 0; index < total; index++) {
+      if (pages[index] === undefined || (index + 1 < total && existing[index + 1] === undefined)) {
+        pages[index] = await this.editPage({
+          ...pageParams(index, partContent(index, paths)),
+          path: paths[index] as string,
+        }, options);
+      }
+    }
+
+    for (const path of existing.slice(total)) {
+      await this.editPage({
+        accessToken: params.accessToken,
+        path,
+        title: params.title,
+        content: [{ tag: 'p', children: [
+          'This part is no longer in use. Continue reading at ',
+          { tag: 'a', attrs: { href: pageUrl(paths[0] as string) }, children: [params.title] },
+          '.',
+        ] }],
+        authorName: params.authorName,
+        authorUrl: params.authorUrl,
+      }, options);
+    }
+
+    return pages;
+  }
+
+  /**
+   * Publish a Markdown file with YAML front matter
+   *
+   * The front matter supplies the title (`title`), author name (`author`) and profile
+   * link (`author_url`). When it has a `path`, that page is edited; otherwise a new page
+   * is created. The returned front matter and Markdown carry the page's `path` and `url`,
+   * so writing them back makes the next publish update the same page.
+   *
+   * @param params - Markdown file contents and publishing options
+   * @param options - Per-call request options (timeout, abort signal)
+   * @returns Published page, updated front matter and updated Markdown
+   * @throws {TelegraphValidationError} If the front matter is malformed or no title is given
+   *
+   * @example
+   * ```typescript
+   * const source = await readFile('posts/hello.md', 'utf8');
+   * const { page, markdown } = await telegraph.publishMarkdown({
+   *   accessToken: 'your-access-token',
+   *   markdown: source,
+   *   uploadImages: { baseDir: 'posts' }
+   * });
+   * await writeFile('posts/hello.md', markdown);
+   * console.log(page.url);
+   * ```
+   */
+  async publishMarkdown(params: PublishMarkdownParams, options?: RequestOptions): Promise<PublishMarkdownResult<C>> {
+    const { data, body } = parseFrontMatter(params.markdown);
+
+    const title = frontMatterString(data.title) ?? params.title;
+    if (!title) {
+      throw new TelegraphValidationError('Front matter has no title', { code: 'TITLE_REQUIRED' });
+    }
+
+    const pageParams: CreatePageParams = {
+      accessToken: params.accessToken,
+      title,
+      content: parseContent(body, 'markdown'),
+      authorName: frontMatterString(data.author) ?? params.authorName,
+      authorUrl: frontMatterString(data.author_url) ?? params.authorUrl,
+      returnContent: params.returnContent,
+      uploadImages: params.uploadImages,
+      strict: params.strict,
+      toc: params.toc,
+    };
+
+    const path = frontMatterString(data.path);
+    const page = path
+      ? await this.editPage({ ...pageParams, path }, options)
+      : await this.createPage(pageParams, options);
+
+    const { path: pagePath, url } = page as Page;
+    return {
+      page,
+      frontMatter: { ...data, path: pagePath, url },
+      markdown: updateFrontMatter(params.markdown, { path: pagePath, url }),
+    };
   }
 
   /**
    * Get a Telegraph page
    *
    * @param params - Page retrieval parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns Page object
+   * @throws {TelegraphValidationError} If path is not a valid page path, URL or Page object
    *
    * @example
    * ```typescript
@@ -277,19 +833,23 @@ export class Telegraph {
    * });
    * console.log(page.title);
    * console.log(page.content);
+   *
+   * // A pasted URL works too
+   * const pasted = await telegraph.getPage({ path: 'https://telegra.ph/Sample-Page-12-15?foo#bar' });
    * ```
    */
-  async getPage(params: GetPageParams): Promise<Page> {
-    return this.apiRequest<Page>('getPage', {
-      path: params.path,
+  async getPage(params: GetPageParams, options?: RequestOptions): Promise<ResponseModels<C>['page']> {
+    return this.mapPage(await this.apiRequest<Page>('getPage', {
+      path: resolvePagePath(params.path, 'getPage'),
       return_content: params.returnContent,
-    });
+    }, options));
   }
 
   /**
    * Get a list of pages belonging to a Telegraph account
    *
    * @param params - Page list request parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns PageList object
    *
    * @example
@@ -305,19 +865,76 @@ export class Telegraph {
    * });
    * ```
    */
-  async getPageList(params: GetPageListParams): Promise<PageList> {
-    return this.apiRequest<PageList>('getPageList', {
+  async getPageList(params: GetPageListParams, options?: RequestOptions): Promise<ResponseModels<C>['pageList']> {
+    return this.mapPageList(await this.apiRequest<PageList>('getPageList', {
       access_token: params.accessToken,
       offset: params.offset,
       limit: params.limit,
-    });
+    }, options));
+  }
+
+  /**
+   * Iterate over every page of an account
+   *
+   * Pages are fetched with getPageList, pageSize at a time, until the whole account has
+   * been listed. Telegraph lists the newest pages first, so pages created during the walk
+   * shift the rest down; pages already returned are skipped, so each page is yielded once.
+   *
+   * @param params - Access token and page size
+   * @param options - Per-call request options, applied to each getPageList call
+   * @returns Async iterable of pages, newest first
+   * @throws {TelegraphValidationError} If pageSize is not between 1 and 200
+   *
+   * @example
+   * ```typescript
+   * for await (const page of telegraph.iteratePages({ accessToken: 'your-access-token' })) {
+   *   console.log(`${page.title}: ${page.url}`);
+   * }
+   *
+   * const pages = await collectAll(telegraph.iteratePages({ accessToken: 'your-access-token' }));
+   * ```
+   */
+  async *iteratePages(
+    params: IteratePagesParams,
+    options?: RequestOptions
+  ): AsyncGenerator<ResponseModels<C>['page'], void, undefined> {
+    const pageSize = params.pageSize ?? 200;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 200) {
+      throw new TelegraphValidationError(`pageSize must be an integer from 1 to 200, got ${pageSize}`, {
+        code: 'PAGE_SIZE_INVALID',
+        method: 'getPageList',
+      });
+    }
+
+    const seen = new Set<string>();
+    let offset = 0;
+    for (;;) {
+      const pageList = await this.apiRequest<PageList>('getPageList', {
+        access_token: params.accessToken,
+        offset,
+        limit: pageSize,
+      }, options);
+
+      for (const page of pageList.pages) {
+        if (seen.has(page.path)) continue;
+        seen.add(page.path);
+        yield this.mapPage(page);
+      }
+
+      offset += pageList.pages.length;
+      if (pageList.pages.length === 0 || offset >= pageList.total_count) {
+        return;
+      }
+    }
   }
 
   /**
    * Get the number of views for a Telegraph page
    *
    * @param params - Views request parameters
+   * @param options - Per-call request options (timeout, abort signal)
    * @returns PageViews object
+   * @throws {TelegraphValidationError} If path is not a valid page path, URL or Page object
    *
    * @example
    * ```typescript
@@ -337,13 +954,144 @@ export class Telegraph {
    * console.log(`Views on Dec 15, 2023: ${dailyViews.views}`);
    * ```
    */
-  async getViews(params: GetViewsParams): Promise<PageViews> {
+  async getViews(params: GetViewsParams, options?: RequestOptions): Promise<PageViews> {
     return this.apiRequest<PageViews>('getViews', {
-      path: params.path,
+      path: resolvePagePath(params.path, 'getViews'),
       year: params.year,
       month: params.month,
       day: params.day,
       hour: params.hour,
-    });
+    }, options);
+  }
+
+  /**
+   * Get the views of a page over a range of hours, days or months
+   *
+   * The range is split into UTC periods, from the one containing `from` to the one
+   * containing `to`, and getViews is called once per period, `concurrency` calls at a
+   * time. Counts of completed periods are cached, so charting the same range again only
+   * refetches the current period. Periods that haven't started yet count 0 views without
+   * a request.
+   *
+   * @param params - Page, range, granularity, concurrency and cache
+   * @param options - Per-call request options, applied to each getViews call
+   * @returns One point per period, oldest first, and the total
+   * @throws {TelegraphValidationError} If path is not a valid page reference, the range is invalid (VIEWS_RANGE_INVALID)
+   * or concurrency is not a positive integer (VIEWS_CONCURRENCY_INVALID)
+   *
+   * @example
+   * ```typescript
+   * const series = await telegraph.getViewsSeries({
+   *   path: 'Sample-Page-12-15',
+   *   from: '2024-01-01',
+   *   to: '2024-01-31',
+   *   granularity: 'day'
+   * });
+   * for (const point of series.points) {
+   *   console.log(point.timestamp, point.views);
+   * }
+   * ```
+   */
+  async getViewsSeries(params: GetViewsSeriesParams, options?: RequestOptions): Promise<ViewsSeries> {
+    const path = resolvePagePath(params.path, 'getViews');
+    const periods = viewsPeriods(params.from, params.to, params.granularity);
+    const cache = params.cache || this.viewsCache;
+    const concurrency = params.concurrency ?? 4;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new TelegraphValidationError(`concurrency must be a positive integer, got ${concurrency}`, {
+        code: 'VIEWS_CONCURRENCY_INVALID',
+      });
+    }
+
+    const views: number[] = new Array(periods.length).fill(0);
+    let next = 0;
+    const worker = async () => {
+      while (next < periods.length) {
+        const index = next++;
+        const period = periods[index];
+        const now = Date.now();
+        if (period.start.getTime() > now) continue;
+
+        const key = `${path}:${params.granularity}:${period.start.toISOString()}`;
+        const cached = await cache.get(key);
+        if (cached !== undefined) {
+          views[index] = cached;
+          continue;
+        }
+
+        views[index] = (await this.getViews({ path, ...period.params }, options)).views;
+        // The current period is still counting
+        if (period.end.getTime() <= now) {
+          await cache.set(key, views[index]);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, periods.length) }, worker));
+
+    return {
+      path,
+      granularity: params.granularity,
+      points: periods.map((period, index) => ({ timestamp: period.start.toISOString(), views: views[index] })),
+      total: views.reduce((sum, count) => sum + count, 0),
+    };
+  }
+
+  /**
+   * Create a session bound to an access token
+   *
+   * @param accessToken - Access token of the Telegraph account
+   * @param options - Session options (token change callback)
+   * @returns AccountSession for the account
+   *
+   * @example
+   * ```typescript
+   * const session = telegraph.account('your-access-token', {
+   *   onTokenChange: async (token) => saveToken(token)
+   * });
+   * const page = await session.createPage({ title: 'Hello', content: '<p>Hi</p>' });
+   * await session.revoke(); // session now uses the new token
+   * ```
+   */
+  account(accessToken: string, options?: AccountSessionOptions<C>): AccountSession<C> {
+    return new AccountSession(this, accessToken, options);
+  }
+
+  /**
+   * Upload an image or video to telegra.ph
+   *
+   * The file type and size are checked before anything is sent.
+   * Supported types: JPEG, PNG, GIF, MP4 (up to 5 MB by default).
+   *
+   * @param source - File bytes, Blob, byte stream, or file path (Node.js only)
+   * @param options - Upload options (content type, file name, size limit) and request options
+   * @returns Hosted file path and URL
+   * @throws {TelegraphValidationError} If the file type is not supported or the file is too big
+   * @throws {TelegraphNotFoundError} If a file path does not exist
+   *
+   * @example
+   * ```typescript
+   * const { src } = await telegraph.uploadFile('./diagram.png');
+   *
+   * await telegraph.createPage({
+   *   accessToken: 'your-access-token',
+   *   title: 'With image',
+   *   content: [{ tag: 'figure', children: [{ tag: 'img', attrs: { src } }] }]
+   * });
+   * ```
+   */
+  async uploadFile(source: UploadSource, options: UploadFileOptions = {}): Promise<UploadResult> {
+    const data = await readUploadSource(source, options.maxSize ?? MAX_UPLOAD_SIZE);
+    const { contentType, filename } = resolveUploadType(data, options.contentType, options.filename);
+
+    const src = await this.execute('upload', options, () =>
+      this.attemptUpload(data.bytes, contentType, filename, options)
+    );
+
+    return {
+      src,
+      url: new URL(src, `${this.uploadBaseUrl}/`).toString(),
+      contentType,
+      size: data.bytes.byteLength,
+    };
   }
 }
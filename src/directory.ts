@@ -0,0 +1,272 @@
+/**
+ * Directory Export
+ * Write an account to disk as a static site: one file per page with front matter, plus an index
+ */
+
+import { Telegraph } from './client.js';
+import { backupAccount, rewriteUrls } from './export.js';
+import { updateFrontMatter } from './front-matter.js';
+import { parsePageLink } from './page-reference.js';
+import { nodesToHtml, nodesToMarkdown, parseContent } from './utils.js';
+import type { BackedUpPage, BackupFailure } from './export.js';
+import type { Node } from './types.js';
+
+/** Default folder for downloaded media, relative to the export directory */
+const DEFAULT_ASSETS_DIR = 'assets';
+
+/** Default time limit for downloading one media file, in milliseconds */
+const DEFAULT_ASSET_TIMEOUT = 30_000;
+
+/** Host that relative media sources such as /file/abc.jpg are served from */
+const MEDIA_BASE_URL = 'https://telegra.ph';
+
+/**
+ * Parameters for exportToDirectory
+ */
+export interface ExportToDirectoryParams {
+  /** Access token of the account to export */
+  accessToken: string;
+  /** Directory to write to; created if missing */
+  directory: string;
+  /** File format (default: 'markdown') */
+  format?: 'markdown' | 'html';
+  /** Download images and videos into the assets folder and point the pages at the local copies */
+  downloadAssets?: boolean;
+  /** Folder for downloaded media, relative to directory (default: 'assets') */
+  assetsDir?: string;
+  /** Number of pages fetched at the same time (default: 4) */
+  concurrency?: number;
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
+  /** fetch implementation used to download assets (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Time limit for downloading one media file, in milliseconds (default: 30000) */
+  assetTimeout?: number;
+}
+
+/**
+ * Result of exportToDirectory
+ */
+export interface ExportToDirectoryResult {
+  /** Written files, relative to the export directory; the index comes first */
+  files: string[];
+  /** Number of pages written */
+  exported_count: number;
+  /** Number of media files downloaded */
+  asset_count: number;
+  /** Pages that could not be exported */
+  failed: BackupFailure[];
+  /** Media that could not be downloaded; pages keep linking to the original URL */
+  failed_assets: { src: string; message: string }[];
+}
+
+/**
+ * Export an account to a directory of Markdown or HTML files
+ *
+ * Each page is written to `<path>.md` (or `.html`) with front matter holding its title,
+ * author, author URL, description, URL, views and original path, and an `index` file
+ * lists every page. Links between the account's pages become relative file links, so
+ * the directory can be served as is or fed to a static site generator. With
+ * `downloadAssets`, images and videos are saved to the assets folder and linked locally.
+ *
+ * Runs on Node.js only.
+ *
+ * @param params - Export parameters
+ * @returns Written files and failures
+ *
+ * @example
+ * ```typescript
+ * const result = await exportToDirectory({
+ *   accessToken: 'your-access-token',
+ *   directory: './site/content',
+ *   downloadAssets: true
+ * });
+ * console.log(`Wrote ${result.files.length} files`);
+ * ```
+ */
+export async function exportToDirectory(params: ExportToDirectoryParams): Promise<ExportToDirectoryResult> {
+  const { mkdir, writeFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+
+  const format = params.format || 'markdown';
+  const extension = format === 'markdown' ? 'md' : 'html';
+  const assetsDir = (params.assetsDir ?? DEFAULT_ASSETS_DIR).replace(/^\.?\/+|\/+$/g, '');
+  const backup = await backupAccount({
+    accessToken: params.accessToken,
+    format,
+    includeNodes: true,
+    concurrency: params.concurrency,
+    client: params.client,
+  });
+
+  const result: ExportToDirectoryResult = {
+    files: [],
+    exported_count: 0,
+    asset_count: 0,
+    failed: backup.failed,
+    failed_assets: [],
+  };
+  await mkdir(params.directory, { recursive: true });
+
+  // File names are fixed up front so every page can link to every other
+  const files = new Map<string, string>();
+  const taken = new Set([`index.${extension}`]);
+  for (const page of backup.pages) {
+    files.set(page.path, uniqueName(safeFileName(page.path), `.${extension}`, taken));
+  }
+
+  const assets = new Map<string, Promise<string | undefined>>();
+  const assetNames = new Set<string>();
+  const downloadAsset = (src: string): Promise<string | undefined> => {
+    let url = src;
+    try {
+      url = new URL(src, `${MEDIA_BASE_URL}/`).toString();
+    } catch {
+      // saveAsset rejects the malformed URL, so it is recorded below
+    }
+    let local = assets.get(url);
+    if (!local) {
+      const download = { fetch: params.fetch || globalThis.fetch, timeout: params.assetTimeout ?? DEFAULT_ASSET_TIMEOUT };
+      local = saveAsset(url, download, async (name, bytes) => {
+        await mkdir(join(params.directory, assetsDir), { recursive: true });
+        const file = uniqueName(name.replace(/\.[^.]*$/, ''), name.match(/\.[^.]*$/)?.[0] ?? '', assetNames);
+        await writeFile(join(params.directory, assetsDir, file), bytes);
+        result.asset_count++;
+        return `${assetsDir}/${file}`;
+      }).catch((error: unknown) => {
+        result.failed_assets.push({ src, message: error instanceof Error ? error.message : String(error) });
+        return undefined;
+      });
+      assets.set(url, local);
+    }
+    return local;
+  };
+
+  for (const page of backup.pages) {
+    let nodes: Node[] = page.nodes ?? parseContent(page.content, format);
+
+    if (params.downloadAssets) {
+      const sources = new Map<string, string | undefined>();
+      rewriteUrls(nodes, (url, attribute, node) => {
+        if (attribute === 'src' && (node.tag === 'img' || node.tag === 'video')) sources.set(url, undefined);
+        return url;
+      });
+      for (const src of sources.keys()) {
+        sources.set(src, await downloadAsset(src));
+      }
+      nodes = rewriteUrls(nodes, (url, attribute) => (attribute === 'src' && sources.get(url)) || url);
+    }
+
+    // Links to other exported pages become relative file links
+    nodes = rewriteUrls(nodes, (url, attribute) => {
+      const link = attribute === 'href' ? parsePageLink(url) : undefined;
+      const file = link ? files.get(link.path) : undefined;
+      return link && file ? `./${encodeURI(file)}${link.suffix.replace(/^\?[^#]*/, '')}` : url;
+    });
+
+    const file = files.get(page.path) as string;
+    await writeFile(join(params.directory, file), withFrontMatter(pageFrontMatter(page), render(nodes, format)), 'utf8');
+    result.files.push(file);
+    result.exported_count++;
+  }
+
+  const index: Node[] = [{
+    tag: 'ul',
+    children: backup.pages.map(page => ({
+      tag: 'li',
+      children: [{ tag: 'a', attrs: { href: `./${encodeURI(files.get(page.path) as string)}` }, children: [page.title] }],
+    })),
+  }];
+  const indexFile = `index.${extension}`;
+  await writeFile(
+    join(params.directory, indexFile),
+    withFrontMatter({ title: 'Index', page_count: backup.pages.length }, render(index, format)),
+    'utf8'
+  );
+  result.files.unshift(indexFile);
+
+  return result;
+}
+
+/**
+ * Front matter describing a page
+ */
+function pageFrontMatter(page: BackedUpPage): Record<string, string | number | undefined> {
+  return {
+    title: page.title,
+    author: page.author_name || undefined,
+    author_url: page.author_url || undefined,
+    description: page.description || undefined,
+    url: page.url,
+    views: page.views,
+    path: page.path,
+  };
+}
+
+/**
+ * Prefix content with a front matter block
+ */
+function withFrontMatter(values: Record<string, string | number | undefined>, content: string): string {
+  return updateFrontMatter(content + '\n', values);
+}
+
+/**
+ * Serialize content in the export format
+ */
+function render(nodes: Node[], format: 'markdown' | 'html'): string {
+  return format === 'markdown' ? nodesToMarkdown(nodes) : nodesToHtml(nodes);
+}
+
+/**
+ * Turn a page path into a file name that is safe on common file systems
+ */
+function safeFileName(path: string): string {
+  const name = path.replace(/[\\/:*?"<>|\x00-\x1f]/g, '-').replace(/^\.+/, '');
+  return name || 'page';
+}
+
+/**
+ * Pick a file name not used yet, adding -2, -3, ... before the extension when needed
+ */
+function uniqueName(base: string, extension: string, taken: Set<string>): string {
+  let name = base + extension;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    name = `${base}-${n}${extension}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Download a media file and store it, returning its path relative to the export directory
+ */
+async function saveAsset(
+  url: string,
+  download: { fetch: typeof fetch; timeout: number },
+  store: (name: string, bytes: Uint8Array) => Promise<string>
+): Promise<string> {
+  // Malformed sources fail here, before anything is fetched
+  let name: string;
+  try {
+    name = safeFileName(decodeURIComponent(new URL(url).pathname.split('/').pop() || '')) || 'asset';
+  } catch {
+    throw new Error(`Invalid media URL ${url}`);
+  }
+
+  // The time limit also covers reading the body
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), download.timeout);
+  let bytes: Uint8Array;
+  try {
+    const response = await download.fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} downloading ${url}`);
+    }
+    bytes = new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    throw controller.signal.aborted ? new Error(`Timed out after ${download.timeout}ms downloading ${url}`) : error;
+  } finally {
+    clearTimeout(timer);
+  }
+  return store(name, bytes);
+}
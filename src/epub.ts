@@ -0,0 +1,443 @@
+/**
+ * EPUB Export
+ * Bundle Telegraph pages into an EPUB 3 e-book, one chapter per page
+ */
+
+import { Telegraph } from './client.js';
+import { TelegraphValidationError } from './errors.js';
+import { sha256Hex } from './images.js';
+import { parsePageLink, resolvePagePath } from './page-reference.js';
+import { xmlAttribute, xmlText } from './serialize.js';
+import { headingAnchor, plainText } from './toc.js';
+import { collectAll } from './utils.js';
+import { createZip } from './zip.js';
+import type { ZipEntry } from './zip.js';
+import type { Node, NodeElement, Page, PageReference } from './types.js';
+
+/** Base URL that relative links and media sources in page content point at */
+const PAGE_BASE_URL = 'https://telegra.ph';
+
+/** Image types EPUB reading systems must support, with the file extension used for each */
+const IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+/** Heading anchors that are valid XML ids as they are */
+const XML_ID = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Parameters for exportEpub
+ */
+export interface ExportEpubParams {
+  /** Pages to include, in reading order (default: every page of the accessToken's account) */
+  pages?: PageReference[];
+  /** Access token of the account to export when pages is not given */
+  accessToken?: string;
+  /** Book title (default: the page title for a single page, otherwise "Telegraph Pages") */
+  title?: string;
+  /** Book author (default: the author_name of the pages) */
+  author?: string;
+  /** Language tag of the book (default: 'en') */
+  language?: string;
+  /** Unique identifier of the book (default: derived from the page paths) */
+  identifier?: string;
+  /** Download images into the book; otherwise they become links (default: true) */
+  embedImages?: boolean;
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
+  /** fetch implementation used to download images (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Page converted to a chapter of the book
+ */
+interface Chapter {
+  page: Page;
+  /** File name inside the OEBPS folder */
+  file: string;
+  /** Content with ids on its headings */
+  content: Node[];
+  /** Top-level h3/h4 headings, in order */
+  headings: { tag: string; text: string; id: string }[];
+  /** telegra.ph heading anchor → id of the heading in the chapter */
+  anchors: Map<string, string>;
+}
+
+/**
+ * Export pages as an EPUB 3 e-book
+ *
+ * Each page becomes a chapter in its own XHTML file, headed by the page title and
+ * author. The navigation document lists the chapters with their h3 headings, and h4
+ * headings nested under them. The book's author comes from the pages' author_name
+ * unless one is given.
+ *
+ * Links between pages of the book point at their chapters; other relative links are
+ * made absolute. Images are downloaded into the book when they are JPEG, PNG, GIF, WebP
+ * or SVG, and replaced by a link otherwise or when the download fails. Videos and embeds
+ * become links. The archive is written without compression, so this works without any
+ * dependencies in every runtime.
+ *
+ * @param params - Pages or account to export, and book metadata
+ * @returns EPUB file bytes
+ * @throws {TelegraphValidationError} If neither pages nor accessToken are given or there are no pages (PAGES_REQUIRED)
+ * @throws {TelegraphValidationError} If a page reference is malformed (PAGE_REFERENCE_INVALID)
+ *
+ * @example
+ * ```typescript
+ * const book = await exportEpub({
+ *   pages: ['Getting-Started-12-15', 'https://telegra.ph/Advanced-Usage-12-16'],
+ *   title: 'Telegraph Tutorials'
+ * });
+ * await writeFile('tutorials.epub', book);
+ *
+ * // The whole account, oldest page first
+ * const archive = await exportEpub({ accessToken: 'your-access-token' });
+ * ```
+ */
+export async function exportEpub(params: ExportEpubParams): Promise<Uint8Array> {
+  const telegraph = params.client || new Telegraph();
+  const language = params.language || 'en';
+
+  let paths: string[];
+  if (params.pages) {
+    paths = params.pages.map(reference => resolvePagePath(reference, 'getPage'));
+  } else if (params.accessToken) {
+    // Accounts list the newest page first; books read from the oldest
+    const pages = await collectAll(telegraph.iteratePages({ accessToken: params.accessToken }));
+    paths = pages.map(page => page.path).reverse();
+  } else {
+    throw new TelegraphValidationError('Pass the pages to export or an accessToken', { code: 'PAGES_REQUIRED' });
+  }
+  paths = [...new Set(paths)];
+  if (paths.length === 0) {
+    throw new TelegraphValidationError('There are no pages to export', { code: 'PAGES_REQUIRED' });
+  }
+
+  const chapters = new Map<string, Chapter>();
+  for (const path of paths) {
+    const page = await telegraph.getPage({ path, returnContent: true });
+    chapters.set(path, toChapter(page, `chapter-${chapters.size + 1}.xhtml`));
+  }
+
+  const images = new Map<string, { file: string; type: string; data: Uint8Array } | undefined>();
+  if (params.embedImages ?? true) {
+    const fetchImpl = params.fetch || globalThis.fetch;
+    for (const chapter of chapters.values()) {
+      for (const src of imageSources(chapter.content)) {
+        if (images.has(src)) continue;
+        const image = await downloadImage(src, fetchImpl);
+        images.set(src, image && { ...image, file: `images/image-${images.size + 1}.${IMAGE_TYPES[image.type]}` });
+      }
+    }
+  }
+
+  const book = [...chapters.values()];
+  const pageTitle = book.length === 1 ? book[0].page.title : 'Telegraph Pages';
+  const title = params.title || pageTitle;
+  const authors = params.author
+    ? [params.author]
+    : [...new Set(book.map(chapter => chapter.page.author_name).filter((name): name is string => !!name))];
+  const identifier = params.identifier
+    || `urn:uuid:${toUuid(await sha256Hex(new TextEncoder().encode(paths.join('\n'))))}`;
+
+  const entries: ZipEntry[] = [
+    { name: 'mimetype', data: 'application/epub+zip' },
+    { name: 'META-INF/container.xml', data: containerXml() },
+    { name: 'OEBPS/content.opf', data: packageDocument({ identifier, title, authors, language }, book, images) },
+    { name: 'OEBPS/nav.xhtml', data: navigationDocument(title, language, book) },
+  ];
+  for (const chapter of book) {
+    entries.push({ name: `OEBPS/${chapter.file}`, data: chapterDocument(chapter, language, chapters, images) });
+  }
+  for (const image of images.values()) {
+    if (image) entries.push({ name: `OEBPS/${image.file}`, data: image.data });
+  }
+
+  return createZip(entries);
+}
+
+/**
+ * Give the top-level headings of a page ids and record them for the navigation
+ */
+function toChapter(page: Page, file: string): Chapter {
+  const chapter: Chapter = { page, file, content: [], headings: [], anchors: new Map() };
+  const ids = new Set<string>();
+
+  chapter.content = (page.content || []).map(node => {
+    if (typeof node === 'string' || (node.tag !== 'h3' && node.tag !== 'h4')) return node;
+
+    const text = plainText(node.children || []).trim();
+    if (!text) return node;
+
+    const anchor = headingAnchor(text);
+    const id = XML_ID.test(anchor) && !ids.has(anchor) ? anchor : `section-${chapter.headings.length + 1}`;
+    ids.add(id);
+    if (!chapter.anchors.has(anchor)) chapter.anchors.set(anchor, id);
+    chapter.headings.push({ tag: node.tag, text, id });
+    return { ...node, attrs: { ...node.attrs, id } };
+  });
+
+  return chapter;
+}
+
+/**
+ * Absolute URLs of the images in content
+ */
+function imageSources(nodes: Node[]): string[] {
+  return nodes.flatMap(node => {
+    if (typeof node === 'string') return [];
+    const src = node.tag === 'img' ? absoluteUrl(node.attrs?.src) : undefined;
+    return [...(src ? [src] : []), ...imageSources(node.children || [])];
+  });
+}
+
+/**
+ * Download an image, or return undefined if it fails or is not a supported type
+ */
+async function downloadImage(url: string, fetchImpl: typeof fetch): Promise<{ type: string; data: Uint8Array } | undefined> {
+  try {
+    const response = await fetchImpl(url);
+    if (!response.ok) return undefined;
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    const declared = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    const type = declared in IMAGE_TYPES ? declared : sniffImageType(data);
+    return type ? { type, data } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detect the image type from the first bytes of a file
+ */
+function sniffImageType(data: Uint8Array): string | undefined {
+  const starts = (...bytes: number[]) => bytes.every((byte, index) => data[index] === byte);
+  if (starts(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (starts(0x89, 0x50, 0x4e, 0x47)) return 'image/png';
+  if (starts(0x47, 0x49, 0x46, 0x38)) return 'image/gif';
+  if (starts(0x52, 0x49, 0x46, 0x46) && String.fromCharCode(...data.subarray(8, 12)) === 'WEBP') return 'image/webp';
+  return undefined;
+}
+
+/**
+ * Resolve a link or media source against telegra.ph
+ */
+function absoluteUrl(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url, `${PAGE_BASE_URL}/`).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format the first 128 bits of a hex hash as a UUID
+ */
+function toUuid(hex: string): string {
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * META-INF/container.xml pointing at the package document
+ */
+function containerXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+}
+
+/**
+ * Package document with the book's metadata, manifest and reading order
+ */
+function packageDocument(
+  metadata: { identifier: string; title: string; authors: string[]; language: string },
+  book: Chapter[],
+  images: Map<string, { file: string; type: string } | undefined>
+): string {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const creators = metadata.authors.map(author => `    <dc:creator>${xmlText(author)}</dc:creator>\n`).join('');
+  const chapterItems = book
+    .map(chapter => `    <item id="${chapter.file.replace('.xhtml', '')}" href="${chapter.file}" media-type="application/xhtml+xml"/>\n`)
+    .join('');
+  const imageItems = [...images.values()]
+    .flatMap(image => image ? [`    <item id="${image.file.replace(/^images\/|\.\w+$/g, '')}" href="${image.file}" media-type="${image.type}"/>\n`] : [])
+    .join('');
+  const spine = book.map(chapter => `    <itemref idref="${chapter.file.replace('.xhtml', '')}"/>\n`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${xmlAttribute(metadata.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${xmlText(metadata.identifier)}</dc:identifier>
+    <dc:title>${xmlText(metadata.title)}</dc:title>
+    <dc:language>${xmlText(metadata.language)}</dc:language>
+${creators}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+${chapterItems}${imageItems}  </manifest>
+  <spine>
+${spine}  </spine>
+</package>
+`;
+}
+
+/**
+ * Navigation document listing the chapters and their headings
+ */
+function navigationDocument(title: string, language: string, book: Chapter[]): string {
+  const items = book.map(chapter => {
+    const sections: string[] = [];
+    // Items of the h4 list under the current h3
+    let subsections: string[] | undefined;
+    for (const heading of chapter.headings) {
+      const link = `<li><a href="${chapter.file}#${heading.id}">${xmlText(heading.text)}</a>`;
+      if (heading.tag === 'h4' && sections.length > 0) {
+        subsections = subsections || [];
+        subsections.push(`${link}</li>`);
+      } else {
+        if (subsections) sections[sections.length - 1] += `<ol>${subsections.join('')}</ol>`;
+        subsections = undefined;
+        sections.push(link);
+      }
+    }
+    if (subsections) sections[sections.length - 1] += `<ol>${subsections.join('')}</ol>`;
+
+    const list = sections.length > 0 ? `<ol>${sections.map(section => `${section}</li>`).join('')}</ol>` : '';
+    return `      <li><a href="${chapter.file}">${xmlText(chapter.page.title)}</a>${list}</li>\n`;
+  });
+
+  return xhtmlDocument(title, language, `  <nav epub:type="toc" id="toc">
+    <h1>${xmlText(title)}</h1>
+    <ol>
+${items.join('')}    </ol>
+  </nav>`);
+}
+
+/**
+ * XHTML file of a chapter
+ */
+function chapterDocument(
+  chapter: Chapter,
+  language: string,
+  chapters: Map<string, Chapter>,
+  images: Map<string, { file: string } | undefined>
+): string {
+  const { page } = chapter;
+
+  // Links to pages of the book go to their chapter, and to the heading when it has an id
+  const resolveHref = (href: string | undefined): string | undefined => {
+    if (!href) return undefined;
+    const fragment = (suffix: string, target: Chapter) => {
+      const hash = suffix.indexOf('#');
+      if (hash === -1) return '';
+      let anchor = suffix.slice(hash + 1);
+      try {
+        anchor = decodeURIComponent(anchor);
+      } catch {
+        // Keep malformed escapes as written
+      }
+      const id = target.anchors.get(anchor);
+      return id ? `#${id}` : '';
+    };
+
+    if (href.startsWith('#')) {
+      return fragment(href, chapter) || undefined;
+    }
+    const link = parsePageLink(href);
+    const target = link && chapters.get(link.path);
+    if (link && target) {
+      return `${target.file}${fragment(link.suffix, target)}`;
+    }
+    return absoluteUrl(href);
+  };
+
+  const render = (nodes: Node[]): string => nodes.map(node => {
+    if (typeof node === 'string') return xmlText(node);
+    return renderElement(node);
+  }).join('');
+
+  const link = (url: string | undefined, text?: string) =>
+    url ? `<a href="${xmlAttribute(url)}">${xmlText(text || url)}</a>` : '';
+
+  const renderElement = (node: NodeElement): string => {
+    const children = render(node.children || []);
+    switch (node.tag) {
+      case 'br':
+      case 'hr':
+        return `<${node.tag}/>`;
+      case 'img': {
+        const src = absoluteUrl(node.attrs?.src);
+        const image = src ? images.get(src) : undefined;
+        return image ? `<img src="${image.file}" alt=""/>` : link(src);
+      }
+      case 'video':
+      case 'iframe': {
+        const src = absoluteUrl(node.attrs?.src);
+        // Embeds are served as telegra.ph/embed/<service>?url=<original URL>
+        const embedded = src && /^https:\/\/telegra\.ph\/embed\/\w+\?url=([^&#]+)/.exec(src);
+        let url = src;
+        if (embedded) {
+          try {
+            url = decodeURIComponent(embedded[1]);
+          } catch {
+            // Keep the embed URL
+          }
+        }
+        return link(url);
+      }
+      case 'a': {
+        const href = resolveHref(node.attrs?.href);
+        return href ? `<a href="${xmlAttribute(href)}">${children}</a>` : `<a>${children}</a>`;
+      }
+      case 'h3':
+      case 'h4': {
+        const id = node.attrs?.id;
+        return `<${node.tag}${id ? ` id="${xmlAttribute(id)}"` : ''}>${children}</${node.tag}>`;
+      }
+      case 'aside': case 'b': case 'blockquote': case 'code': case 'em': case 'figcaption': case 'figure':
+      case 'i': case 'li': case 'ol': case 'p': case 'pre': case 's': case 'strong': case 'u': case 'ul':
+        return `<${node.tag}>${children}</${node.tag}>`;
+      default:
+        return children;
+    }
+  };
+
+  const author = page.author_name
+    ? `    <p>${page.author_url ? link(absoluteUrl(page.author_url), page.author_name) || xmlText(page.author_name) : xmlText(page.author_name)}</p>\n`
+    : '';
+  return xhtmlDocument(page.title, language, `  <section epub:type="chapter">
+    <h1>${xmlText(page.title)}</h1>
+${author}    ${render(chapter.content)}
+  </section>`);
+}
+
+/**
+ * Wrap body markup in an XHTML document
+ */
+function xhtmlDocument(title: string, language: string, body: string): string {
+  const lang = xmlAttribute(language);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${xmlText(title)}</title>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
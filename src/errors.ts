@@ -1,18 +1,171 @@
+/**
+ * Telegraph Error Classes
+ * Structured errors for API, HTTP, network and client-side failures
+ */
+
+import type { ValidationDiagnostic } from './types.js';
+
+/**
+ * Additional details attached to a TelegraphError
+ */
+export interface TelegraphErrorOptions {
+  /** Machine-readable error code (e.g. ACCESS_TOKEN_INVALID, PAGE_NOT_FOUND, TIMEOUT) */
+  code?: string;
+  /** API method that produced the error */
+  method?: string;
+  /** HTTP status code of the response, if one was received */
+  httpStatus?: number;
+  /** Seconds to wait before retrying (FLOOD_WAIT_X or Retry-After) */
+  retryAfterSeconds?: number;
+  /** Raw API response body */
+  response?: unknown;
+  /** Underlying error */
+  cause?: unknown;
+}
+
 /**
  * Custom error class for Telegraph API errors
+ *
+ * Base class of all errors thrown by this library.
  */
 export class TelegraphError extends Error {
+  /** Machine-readable error code */
+  readonly code: string;
+  /** API method that produced the error */
+  readonly method?: string;
+  /** HTTP status code of the response */
+  readonly httpStatus?: number;
+  /** Seconds to wait before retrying */
+  readonly retryAfterSeconds?: number;
+  /** Raw API response body */
+  readonly response?: unknown;
+  /** Underlying error */
+  readonly cause?: unknown;
+
   /**
    * Creates a new TelegraphError
    * @param message - Error message
+   * @param options - Structured error details
    */
-  constructor(message: string) {
+  constructor(message: string, options: TelegraphErrorOptions = {}) {
     super(message);
-    this.name = 'TelegraphError';
+    this.name = new.target.name;
+    this.code = options.code || 'UNKNOWN_ERROR';
+    this.method = options.method;
+    this.httpStatus = options.httpStatus;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.response = options.response;
+    this.cause = options.cause;
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
-    if (typeof (Error as any).captureStackTrace === 'function') {
-      (Error as any).captureStackTrace(this, TelegraphError);
+    const V8Error = Error as { captureStackTrace?: (target: object, constructor?: unknown) => void };
+    if (typeof V8Error.captureStackTrace === 'function') {
+      V8Error.captureStackTrace(this, new.target);
     }
   }
 }
+
+/**
+ * Invalid, missing or revoked access token, or no permission to edit a page
+ */
+export class TelegraphAuthError extends TelegraphError {}
+
+/**
+ * Requested page (or other resource) does not exist
+ */
+export class TelegraphNotFoundError extends TelegraphError {}
+
+/**
+ * Request was throttled (FLOOD_WAIT_X or HTTP 429)
+ */
+export class TelegraphRateLimitError extends TelegraphError {}
+
+/**
+ * Request parameters or content were rejected (e.g. CONTENT_TOO_BIG, TITLE_REQUIRED)
+ */
+export class TelegraphValidationError extends TelegraphError {}
+
+/**
+ * Content failed client-side validation (strict mode)
+ */
+export class TelegraphContentError extends TelegraphValidationError {
+  /** Problems found in the content */
+  readonly diagnostics: ValidationDiagnostic[];
+
+  /**
+   * Creates a new TelegraphContentError
+   * @param message - Error message
+   * @param diagnostics - Problems found in the content
+   * @param options - Structured error details
+   */
+  constructor(message: string, diagnostics: ValidationDiagnostic[], options: TelegraphErrorOptions = {}) {
+    super(message, options);
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Request never produced a response (connection failure, timeout or abort)
+ */
+export class TelegraphNetworkError extends TelegraphError {}
+
+/**
+ * Create a typed error from a Telegraph API error string
+ *
+ * @param code - Error string returned by the API (e.g. PAGE_NOT_FOUND)
+ * @param details - Method, HTTP status and raw response
+ * @returns Error instance of the matching subclass
+ */
+export function createApiError(
+  code: string,
+  details: Omit<TelegraphErrorOptions, 'code' | 'retryAfterSeconds'> = {}
+): TelegraphError {
+  const floodWait = code.match(/^FLOOD_WAIT_(\d+)$/);
+  if (floodWait) {
+    return new TelegraphRateLimitError(code, {
+      ...details,
+      code,
+      retryAfterSeconds: parseInt(floodWait[1], 10),
+    });
+  }
+
+  const options = { ...details, code };
+  if (/^ACCESS_TOKEN_/.test(code) || /_ACCESS_DENIED$/.test(code)) {
+    return new TelegraphAuthError(code, options);
+  }
+  if (/_NOT_FOUND$/.test(code)) {
+    return new TelegraphNotFoundError(code, options);
+  }
+  if (/_(REQUIRED|INVALID|TOO_BIG|TOO_LONG|EMPTY)$/.test(code)) {
+    return new TelegraphValidationError(code, options);
+  }
+  return new TelegraphError(code, options);
+}
+
+/**
+ * Create a typed error from a non-2xx HTTP response
+ *
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param details - Method, Retry-After seconds and raw response
+ * @returns Error instance of the matching subclass
+ */
+export function createHttpError(
+  status: number,
+  statusText: string,
+  details: Omit<TelegraphErrorOptions, 'code' | 'httpStatus'> = {}
+): TelegraphError {
+  const message = `HTTP error: ${status} ${statusText}`;
+  const options = { ...details, code: `HTTP_${status}`, httpStatus: status };
+
+  if (status === 429) {
+    return new TelegraphRateLimitError(message, options);
+  }
+  if (status === 401 || status === 403) {
+    return new TelegraphAuthError(message, options);
+  }
+  if (status === 404) {
+    return new TelegraphNotFoundError(message, options);
+  }
+  return new TelegraphError(message, options);
+}
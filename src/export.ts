@@ -4,8 +4,9 @@
  */
 
 import { Telegraph } from './client.js';
+import { TelegraphError, TelegraphValidationError } from './errors.js';
 import { nodesToMarkdown, nodesToHtml } from './utils.js';
-import type { Page } from './types.js';
+import type { Node, NodeElement, Page, PageList, PageReference } from './types.js';
 
 /**
  * Exported page data
@@ -23,6 +24,36 @@ export interface ExportedPage {
   content: string;
 }
 
+/**
+ * Page stored in an account backup
+ */
+export interface BackedUpPage extends Omit<ExportedPage, 'format'> {
+  /** Page description */
+  description: string;
+  /** Name of the author */
+  author_name?: string;
+  /** Profile link of the author */
+  author_url?: string;
+  /** Image URL of the page */
+  image_url?: string;
+  /** Number of page views at backup time */
+  views: number;
+  /** Raw page content (only with includeNodes) */
+  nodes?: Node[];
+}
+
+/**
+ * Page that could not be backed up
+ */
+export interface BackupFailure {
+  /** Page path */
+  path: string;
+  /** Error code, such as PAGE_NOT_FOUND or TIMEOUT */
+  code: string;
+  /** Error message */
+  message: string;
+}
+
 /**
  * Account backup data
  */
@@ -34,7 +65,9 @@ export interface AccountBackup {
   /** Export format */
   format: 'markdown' | 'html';
   /** Exported pages */
-  pages: Omit<ExportedPage, 'format'>[];
+  pages: BackedUpPage[];
+  /** Pages that could not be exported */
+  failed: BackupFailure[];
 }
 
 /**
@@ -62,11 +95,14 @@ export interface AccountBackup {
  * ```
  */
 export async function exportPage(params: {
-  path: string;
+  /** Path, URL or Page object of the page */
+  path: PageReference;
   format?: 'markdown' | 'html';
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
 }): Promise<ExportedPage> {
   const format = params.format || 'markdown';
-  const telegraph = new Telegraph();
+  const telegraph = params.client || new Telegraph();
 
   // Fetch the page with content
   const page = await telegraph.getPage({
@@ -75,7 +111,10 @@ export async function exportPage(params: {
   });
 
   if (!page.content) {
-    throw new Error('Page content not returned');
+    throw new TelegraphError('Page content not returned', {
+      code: 'CONTENT_NOT_RETURNED',
+      method: 'getPage',
+    });
   }
 
   // Convert content to requested format
@@ -95,85 +134,340 @@ export async function exportPage(params: {
   };
 }
 
+/**
+ * Parameters for backupAccount and streamAccountBackup
+ */
+export interface BackupAccountParams {
+  /** Access token of the account to back up */
+  accessToken: string;
+  /** Content format (default: 'markdown') */
+  format?: 'markdown' | 'html';
+  /** Maximum number of pages to export, newest first (default: all pages) */
+  limit?: number;
+  /** Number of pages fetched at the same time (default: 4) */
+  concurrency?: number;
+  /** Also store each page's raw Node array, so it can be restored losslessly */
+  includeNodes?: boolean;
+  /** Paths that are already backed up and are skipped */
+  skipPaths?: Iterable<string>;
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
+}
+
+/**
+ * One record of an NDJSON backup stream
+ *
+ * A stream starts with a `backup` record, has one `page` or `failure` record per page
+ * and ends with an `end` record; a stream without one was interrupted.
+ */
+export type BackupRecord =
+  | { type: 'backup'; format: 'markdown' | 'html'; total_count: number }
+  | ({ type: 'page' } & BackedUpPage)
+  | ({ type: 'failure' } & BackupFailure)
+  | { type: 'end'; exported_count: number; failed_count: number };
+
+/** Default number of pages fetched at the same time */
+const DEFAULT_BACKUP_CONCURRENCY = 4;
+
 /**
  * Backup all pages from a Telegraph account
  *
+ * Lists the account (up to `limit` pages), then fetches pages `concurrency` at a time.
+ * Pages that can't be fetched are reported in `failed` instead of stopping the backup.
+ * Pass the backup of an interrupted run as `resume` to fetch only the pages it is
+ * missing. `onCheckpoint` receives each record as it is produced (see BackupRecord), so
+ * appending them to an NDJSON file saves progress in constant time per page; the file
+ * reads back with `parseBackupNdjson`.
+ *
  * @param params - Backup parameters
  * @returns Account backup data
+ * @throws {TelegraphValidationError} If `resume` was made with a different format
  *
  * @example
  * ```typescript
- * // Backup to Markdown
+ * // Backup to Markdown, keeping the node trees for restoring
  * const backup = await backupAccount({
  *   accessToken: 'your-access-token',
  *   format: 'markdown',
- *   limit: 100
+ *   includeNodes: true,
+ *   concurrency: 8,
+ *   resume: parseBackupNdjson(await readFile('checkpoint.ndjson', 'utf8').catch(() => '')),
+ *   onCheckpoint: (record) => appendFile('checkpoint.ndjson', JSON.stringify(record) + '\n')
  * });
  *
  * console.log(`Backed up ${backup.exported_count} of ${backup.total_count} pages`);
- *
- * // Save each page to a file
- * for (const page of backup.pages) {
- *   const filename = `${page.path}.md`;
- *   await fs.writeFile(filename, page.content);
+ * for (const failure of backup.failed) {
+ *   console.warn(`${failure.path}: ${failure.message}`);
  * }
  * ```
  */
-export async function backupAccount(params: {
-  accessToken: string;
-  format?: 'markdown' | 'html';
-  limit?: number;
+export async function backupAccount(params: BackupAccountParams & {
+  /** Backup from an earlier, interrupted run; its pages are kept and not fetched again */
+  resume?: AccountBackup;
+  /**
+   * Called with each record as it is produced, and the backup so far; the backup is
+   * the one being built, not a copy
+   */
+  onCheckpoint?: (record: BackupRecord, backup: AccountBackup) => void | Promise<void>;
 }): Promise<AccountBackup> {
   const format = params.format || 'markdown';
-  const limit = params.limit || 200;
-  const telegraph = new Telegraph();
-
-  // Get the page list
-  const pageList = await telegraph.getPageList({
-    accessToken: params.accessToken,
-    offset: 0,
-    limit: Math.min(limit, 200), // Telegraph API max is 200
-  });
+  if (params.resume && params.resume.format !== format) {
+    throw new TelegraphValidationError(
+      `Cannot resume a ${params.resume.format} backup as ${format}`,
+      { code: 'BACKUP_FORMAT_MISMATCH' }
+    );
+  }
+
+  const resumed = params.resume?.pages || [];
+  const backup: AccountBackup = {
+    total_count: params.resume?.total_count ?? 0,
+    exported_count: resumed.length,
+    format,
+    pages: [...resumed],
+    failed: [],
+  };
+  const skipPaths = new Set([...(params.skipPaths || []), ...resumed.map(page => page.path)]);
+
+  for await (const record of backupRecords({ ...params, skipPaths })) {
+    if (record.type === 'backup') {
+      backup.total_count = record.total_count;
+    } else if (record.type === 'page' || record.type === 'failure') {
+      const { type, ...data } = record;
+      if (type === 'page') {
+        backup.pages.push(data as BackedUpPage);
+        backup.exported_count = backup.pages.length;
+      } else {
+        backup.failed.push(data as BackupFailure);
+      }
+    }
+    await params.onCheckpoint?.(record, backup);
+  }
 
-  const exportedPages: Omit<ExportedPage, 'format'>[] = [];
+  return backup;
+}
 
-  // Export each page
-  for (const pageInfo of pageList.pages) {
+/**
+ * Backup a Telegraph account as a stream of NDJSON lines
+ *
+ * Yields one JSON record per line (see BackupRecord), so very large accounts can be
+ * written to a file as they are fetched without keeping the whole backup in memory.
+ * To resume an interrupted stream, read the paths already written back with
+ * `parseBackupNdjson` and pass them as `skipPaths`.
+ *
+ * @param params - Backup parameters
+ * @returns Async iterable of NDJSON lines, each ending with a newline
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ *
+ * const out = createWriteStream('backup.ndjson');
+ * for await (const line of streamAccountBackup({ accessToken: 'your-access-token', includeNodes: true })) {
+ *   out.write(line);
+ * }
+ * out.end();
+ * ```
+ */
+export async function* streamAccountBackup(params: BackupAccountParams): AsyncGenerator<string, void, undefined> {
+  for await (const record of backupRecords(params)) {
+    yield JSON.stringify(record) + '\n';
+  }
+}
+
+/**
+ * Read an NDJSON backup stream back into an AccountBackup
+ *
+ * Works on interrupted streams too, which makes the result usable as `resume` for
+ * backupAccount or its page paths as `skipPaths` for streamAccountBackup.
+ *
+ * @param ndjson - Contents written by streamAccountBackup
+ * @returns Account backup data
+ * @throws {TelegraphValidationError} If a line is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * const backup = parseBackupNdjson(await readFile('backup.ndjson', 'utf8'));
+ * const skipPaths = backup.pages.map(page => page.path);
+ * ```
+ */
+export function parseBackupNdjson(ndjson: string): AccountBackup {
+  const backup: AccountBackup = { total_count: 0, exported_count: 0, format: 'markdown', pages: [], failed: [] };
+
+  ndjson.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let record: BackupRecord;
     try {
-      // Fetch the full page with content
-      const page = await telegraph.getPage({
-        path: pageInfo.path,
-        returnContent: true,
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new TelegraphValidationError(`Invalid backup record on line ${index + 1}`, {
+        code: 'BACKUP_INVALID',
+        cause: error,
       });
+    }
 
-      if (!page.content) {
-        continue;
+    if (record.type === 'backup') {
+      backup.format = record.format;
+      backup.total_count = record.total_count;
+    } else if (record.type === 'page' || record.type === 'failure') {
+      const { type, ...data } = record;
+      if (type === 'page') {
+        backup.pages.push(data as BackedUpPage);
+      } else {
+        backup.failed.push(data as BackupFailure);
       }
+    }
+  });
 
-      // Convert content to requested format
-      let content: string;
-      if (format === 'markdown') {
-        content = nodesToMarkdown(page.content);
-      } else {
-        content = nodesToHtml(page.content);
+  backup.exported_count = backup.pages.length;
+  return backup;
+}
+
+/**
+ * Fetch an account's pages and describe the backup as a sequence of records
+ */
+async function* backupRecords(params: BackupAccountParams): AsyncGenerator<BackupRecord, void, undefined> {
+  const format = params.format || 'markdown';
+  const concurrency = Math.max(1, params.concurrency ?? DEFAULT_BACKUP_CONCURRENCY);
+  const telegraph = params.client || new Telegraph();
+  const skipPaths = new Set(params.skipPaths || []);
+
+  const { pages: selected, total_count } = await listPages(telegraph, params.accessToken, params.limit);
+  yield { type: 'backup', format, total_count };
+
+  // Keep up to `concurrency` pages in flight and emit them in listing order
+  const inFlight: Promise<BackupRecord>[] = [];
+  let exported = 0;
+  let failed = 0;
+  const settle = async (): Promise<BackupRecord> => {
+    const record = await (inFlight.shift() as Promise<BackupRecord>);
+    if (record.type === 'page') exported++;
+    else failed++;
+    return record;
+  };
+
+  for (const pageInfo of selected) {
+    if (skipPaths.has(pageInfo.path)) continue;
+    inFlight.push(backupPage(telegraph, pageInfo.path, format, params.includeNodes));
+    if (inFlight.length >= concurrency) {
+      yield await settle();
+    }
+  }
+  while (inFlight.length > 0) {
+    yield await settle();
+  }
+
+  yield { type: 'end', exported_count: exported, failed_count: failed };
+}
+
+/**
+ * List an account's pages, newest first, stopping once `limit` pages are listed
+ */
+async function listPages(
+  telegraph: Telegraph,
+  accessToken: string,
+  limit = Infinity
+): Promise<{ pages: Page[]; total_count: number }> {
+  const pages: Page[] = [];
+  const seen = new Set<string>();
+  let totalCount = 0;
+  let offset = 0;
+  for (;;) {
+    const pageList: PageList = await telegraph.getPageList({
+      accessToken,
+      offset,
+      limit: Math.min(200, limit - pages.length),
+    });
+    totalCount = pageList.total_count;
+    // Pages published while listing shift the offsets, so skip repeats
+    for (const page of pageList.pages) {
+      if (!seen.has(page.path) && pages.length < limit) {
+        seen.add(page.path);
+        pages.push(page);
       }
+    }
+    offset += pageList.pages.length;
+    if (pages.length >= limit || pageList.pages.length === 0 || offset >= pageList.total_count) break;
+  }
+  return { pages, total_count: totalCount };
+}
 
-      exportedPages.push({
-        title: page.title,
-        path: page.path,
-        url: page.url,
-        content,
+/**
+ * Fetch and convert one page, reporting errors as a failure record
+ */
+async function backupPage(
+  telegraph: Telegraph,
+  path: string,
+  format: 'markdown' | 'html',
+  includeNodes = false
+): Promise<BackupRecord> {
+  try {
+    const page = await telegraph.getPage({ path, returnContent: true });
+    if (!page.content) {
+      throw new TelegraphError('Page content not returned', {
+        code: 'CONTENT_NOT_RETURNED',
+        method: 'getPage',
       });
-    } catch (error) {
-      // Continue with other pages if one fails
-      console.error(`Failed to export page ${pageInfo.path}:`, error);
     }
+
+    return {
+      type: 'page',
+      title: page.title,
+      path: page.path,
+      url: page.url,
+      description: page.description,
+      author_name: page.author_name,
+      author_url: page.author_url,
+      image_url: page.image_url,
+      views: page.views,
+      content: format === 'markdown' ? nodesToMarkdown(page.content) : nodesToHtml(page.content),
+      ...(includeNodes ? { nodes: page.content } : {}),
+    };
+  } catch (error) {
+    return { type: 'failure', ...toBackupFailure(path, error) };
   }
+}
 
+/**
+ * Describe an error that stopped a page from being backed up or restored
+ *
+ * @param path - Page path
+ * @param error - Error thrown
+ * @returns Failure with the error's code and message
+ */
+export function toBackupFailure(path: string, error: unknown): BackupFailure {
   return {
-    total_count: pageList.total_count,
-    exported_count: exportedPages.length,
-    format,
-    pages: exportedPages,
+    path,
+    code: error instanceof TelegraphError ? error.code : 'UNKNOWN_ERROR',
+    message: error instanceof Error ? error.message : String(error),
   };
 }
+
+/**
+ * Rewrite the href and src attributes of content
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @param rewrite - Returns the new value of an attribute
+ * @returns New node array with rewritten attributes
+ */
+export function rewriteUrls(
+  nodes: Node[],
+  rewrite: (url: string, attribute: 'href' | 'src', node: NodeElement) => string
+): Node[] {
+  return nodes.map(node => {
+    if (typeof node === 'string') return node;
+
+    const element: NodeElement = { ...node };
+    if (node.attrs) {
+      element.attrs = { ...node.attrs };
+      for (const attribute of ['href', 'src'] as const) {
+        const url = node.attrs[attribute];
+        if (url !== undefined) element.attrs[attribute] = rewrite(url, attribute, node);
+      }
+    }
+    if (node.children) {
+      element.children = rewriteUrls(node.children, rewrite);
+    }
+    return element;
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * Feeds
+ * Build RSS 2.0, Atom and JSON Feed documents from an account's pages
+ */
+
+import { Telegraph } from './client.js';
+import { TelegraphValidationError } from './errors.js';
+import { rewriteUrls } from './export.js';
+import { xmlAttribute, xmlText } from './serialize.js';
+import { nodesToHtml } from './utils.js';
+import type { Page } from './types.js';
+
+/** Base URL of page links, item ids and relative URLs in page content */
+const PAGE_BASE_URL = 'https://telegra.ph';
+
+/** Number of pages in a feed when no limit is given */
+const DEFAULT_FEED_LIMIT = 20;
+
+/**
+ * Parameters for buildFeed
+ */
+export interface BuildFeedParams {
+  /** Access token of the account to build the feed for */
+  accessToken: string;
+  /** Feed format */
+  format: 'rss' | 'atom' | 'json';
+  /** Maximum number of pages, newest first (default: 20) */
+  limit?: number;
+  /** Feed title (default: the account's author name or short name) */
+  title?: string;
+  /** Feed description (default: "Pages by <title> on Telegraph") */
+  description?: string;
+  /** Home page of the feed (default: the account's author URL, or https://telegra.ph) */
+  link?: string;
+  /** URL the feed itself is published at */
+  feedUrl?: string;
+  /** Feed built by an earlier buildFeed call, in any format; its unchanged entries are reused */
+  previous?: string;
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
+}
+
+/**
+ * Entry of a feed, whatever its format
+ */
+interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  author?: string;
+  authorUrl?: string;
+  html: string;
+  date: Date;
+}
+
+/**
+ * Feed-level metadata
+ */
+interface FeedInfo {
+  id: string;
+  title: string;
+  description: string;
+  link: string;
+  feedUrl?: string;
+  author: string;
+  updated: Date;
+}
+
+/**
+ * Build a feed of an account's pages
+ *
+ * Pages are listed with getPageList, newest first, and their content is fetched with
+ * getPage and included as HTML. Each entry has the page's title, URL, description and
+ * author. Entry ids are the page URL built from the path (`https://telegra.ph/<path>`),
+ * so they stay the same across builds and formats.
+ *
+ * Telegraph pages carry no dates, so an entry is dated when it first appears in the
+ * feed. Pass the last feed as `previous` to keep those dates and to build incrementally:
+ * pages whose title and description are unchanged reuse their content from the previous
+ * feed, and only new or changed pages are fetched.
+ *
+ * @param params - Account, format, feed metadata and the previous feed
+ * @returns Feed document (XML for rss and atom, JSON for json)
+ * @throws {TelegraphValidationError} If limit is not a positive integer (FEED_LIMIT_INVALID) or previous is not a feed (FEED_INVALID)
+ *
+ * @example
+ * ```typescript
+ * const previous = await readFile('feed.xml', 'utf8').catch(() => undefined);
+ * const feed = await buildFeed({
+ *   accessToken: 'your-access-token',
+ *   format: 'atom',
+ *   feedUrl: 'https://example.com/feed.xml',
+ *   previous
+ * });
+ * await writeFile('feed.xml', feed);
+ * ```
+ */
+export async function buildFeed(params: BuildFeedParams): Promise<string> {
+  const limit = params.limit ?? DEFAULT_FEED_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new TelegraphValidationError(`limit must be a positive integer, got ${limit}`, { code: 'FEED_LIMIT_INVALID' });
+  }
+  const previous = new Map((params.previous ? parseFeedEntries(params.previous) : []).map(entry => [entry.id, entry]));
+
+  const telegraph = params.client || new Telegraph();
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const account = await telegraph.getAccountInfo({
+    accessToken: params.accessToken,
+    fields: ['short_name', 'author_name', 'author_url'],
+  });
+
+  const listed: Page[] = [];
+  for await (const page of telegraph.iteratePages({ accessToken: params.accessToken, pageSize: Math.min(limit, 200) })) {
+    listed.push(page);
+    if (listed.length >= limit) break;
+  }
+
+  const entries: FeedEntry[] = [];
+  for (const listedPage of listed) {
+    const id = `${PAGE_BASE_URL}/${listedPage.path}`;
+    const old = previous.get(id);
+    if (old && old.title === listedPage.title && old.description === (listedPage.description || '')) {
+      entries.push({ ...old, url: listedPage.url });
+      continue;
+    }
+
+    const page = await telegraph.getPage({ path: listedPage.path, returnContent: true });
+    const content = rewriteUrls(page.content || [], url => absoluteUrl(url));
+    entries.push({
+      id,
+      url: page.url,
+      title: page.title,
+      description: page.description || '',
+      author: page.author_name || undefined,
+      authorUrl: page.author_url || undefined,
+      html: nodesToHtml(content),
+      date: old?.date ?? now,
+    });
+  }
+
+  const title = params.title || account.author_name || account.short_name;
+  const link = params.link || account.author_url;
+  const info: FeedInfo = {
+    // Without a URL of its own, the feed is identified by the account's short name
+    id: params.feedUrl || link || `tag:telegra.ph,2016:${encodeURIComponent(account.short_name)}`,
+    title,
+    description: params.description || `Pages by ${title} on Telegraph`,
+    link: link || PAGE_BASE_URL,
+    feedUrl: params.feedUrl,
+    author: account.author_name || account.short_name,
+    updated: entries.reduce((latest, entry) => (entry.date > latest ? entry.date : latest), new Date(0)),
+  };
+  if (entries.length === 0) {
+    info.updated = now;
+  }
+
+  switch (params.format) {
+    case 'atom':
+      return atomFeed(info, entries);
+    case 'json':
+      return jsonFeed(info, entries);
+    default:
+      return rssFeed(info, entries);
+  }
+}
+
+/**
+ * Resolve a URL from page content against telegra.ph
+ */
+function absoluteUrl(url: string): string {
+  try {
+    return new URL(url, `${PAGE_BASE_URL}/`).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * RSS 2.0 document
+ */
+function rssFeed(info: FeedInfo, entries: FeedEntry[]): string {
+  const items = entries.map(entry => `    <item>
+      <title>${xmlText(entry.title)}</title>
+      <link>${xmlText(entry.url)}</link>
+      <guid isPermaLink="true">${xmlText(entry.id)}</guid>
+      <pubDate>${entry.date.toUTCString()}</pubDate>
+${entry.author ? `      <dc:creator>${xmlText(entry.author)}</dc:creator>\n` : ''}      <description>${xmlText(entry.description)}</description>
+      <content:encoded>${xmlText(entry.html)}</content:encoded>
+    </item>
+`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${xmlText(info.title)}</title>
+    <link>${xmlText(info.link)}</link>
+    <description>${xmlText(info.description)}</description>
+${info.feedUrl ? `    <atom:link href="${xmlAttribute(info.feedUrl)}" rel="self" type="application/rss+xml"/>\n` : ''}    <lastBuildDate>${info.updated.toUTCString()}</lastBuildDate>
+${items}  </channel>
+</rss>
+`;
+}
+
+/**
+ * Atom document
+ */
+function atomFeed(info: FeedInfo, entries: FeedEntry[]): string {
+  const items = entries.map(entry => `  <entry>
+    <id>${xmlText(entry.id)}</id>
+    <title>${xmlText(entry.title)}</title>
+    <link rel="alternate" type="text/html" href="${xmlAttribute(entry.url)}"/>
+    <updated>${entry.date.toISOString()}</updated>
+${entry.author ? `    <author>
+      <name>${xmlText(entry.author)}</name>
+${entry.authorUrl ? `      <uri>${xmlText(entry.authorUrl)}</uri>\n` : ''}    </author>
+` : ''}    <summary>${xmlText(entry.description)}</summary>
+    <content type="html">${xmlText(entry.html)}</content>
+  </entry>
+`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${xmlText(info.id)}</id>
+  <title>${xmlText(info.title)}</title>
+  <subtitle>${xmlText(info.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${xmlAttribute(info.link)}"/>
+${info.feedUrl ? `  <link rel="self" type="application/atom+xml" href="${xmlAttribute(info.feedUrl)}"/>\n` : ''}  <updated>${info.updated.toISOString()}</updated>
+  <author>
+    <name>${xmlText(info.author)}</name>
+  </author>
+${items}</feed>
+`;
+}
+
+/**
+ * JSON Feed 1.1 document
+ */
+function jsonFeed(info: FeedInfo, entries: FeedEntry[]): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: info.title,
+    home_page_url: info.link,
+    feed_url: info.feedUrl,
+    description: info.description,
+    authors: [{ name: info.author }],
+    items: entries.map(entry => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      summary: entry.description,
+      content_html: entry.html,
+      date_published: entry.date.toISOString(),
+      authors: entry.author ? [{ name: entry.author, url: entry.authorUrl }] : undefined,
+    })),
+  }, null, 2) + '\n';
+}
+
+/**
+ * Read the entries of a feed written by buildFeed
+ */
+function parseFeedEntries(feed: string): FeedEntry[] {
+  const text = feed.trim();
+  const invalid = (cause?: unknown) =>
+    new TelegraphValidationError('previous is not a feed built by buildFeed', { code: 'FEED_INVALID', cause });
+
+  if (text.startsWith('{')) {
+    let data: { items?: Record<string, unknown>[] };
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw invalid(error);
+    }
+    if (!Array.isArray(data.items)) throw invalid();
+
+    return data.items.map(item => {
+      const authors = item.authors as { name?: string; url?: string }[] | undefined;
+      return {
+        id: String(item.id),
+        url: String(item.url ?? ''),
+        title: String(item.title ?? ''),
+        description: String(item.summary ?? ''),
+        author: authors?.[0]?.name,
+        authorUrl: authors?.[0]?.url,
+        html: String(item.content_html ?? ''),
+        date: parseDate(item.date_published),
+      };
+    });
+  }
+
+  const atom = /<feed[\s>]/.test(text);
+  if (!atom && !/<rss[\s>]/.test(text)) throw invalid();
+
+  const blocks = text.match(atom ? /<entry>[\s\S]*?<\/entry>/g : /<item>[\s\S]*?<\/item>/g) || [];
+  return blocks.map(block => {
+    const field = (tag: string) => {
+      const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(block);
+      return match ? unescapeXml(match[1]) : undefined;
+    };
+    return {
+      id: field(atom ? 'id' : 'guid') ?? '',
+      url: atom ? unescapeXml(/<link [^>]*href="([^"]*)"/.exec(block)?.[1] ?? '') : field('link') ?? '',
+      title: field('title') ?? '',
+      description: field(atom ? 'summary' : 'description') ?? '',
+      author: field(atom ? 'name' : 'dc:creator'),
+      authorUrl: atom ? field('uri') : undefined,
+      html: field(atom ? 'content' : 'content:encoded') ?? '',
+      date: parseDate(field(atom ? 'updated' : 'pubDate')),
+    };
+  });
+}
+
+/**
+ * Parse a feed date, falling back to now
+ */
+function parseDate(value: unknown): Date {
+  const date = new Date(typeof value === 'string' ? value : NaN);
+  return isNaN(date.getTime()) ? new Date(Math.floor(Date.now() / 1000) * 1000) : date;
+}
+
+/**
+ * Decode the character references written by xmlText and xmlAttribute
+ */
+function unescapeXml(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[\da-f]+);/gi, (_, name: string) => {
+    switch (name.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'amp': return '&';
+      default: return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    }
+  });
+}
@@ -0,0 +1,258 @@
+/**
+ * Front Matter
+ * Read and update the YAML front matter block at the top of Markdown files
+ *
+ * Only the subset of YAML used in front matter is understood: top-level `key: value`
+ * pairs with plain, quoted or flow-sequence values, block sequences of scalars and
+ * comments. Other values (nested mappings, block scalars) are kept as their raw text.
+ */
+
+import { TelegraphValidationError } from './errors.js';
+import type { FrontMatter, FrontMatterValue } from './types.js';
+
+/** Opening and closing line of a front matter block */
+const FENCE = /^---[ \t]*$/;
+
+/** Top-level `key: value` line */
+const ENTRY = /^([^\s#:'"][^:]*?|"(?:[^"\\]|\\.)*"|'(?:[^']|'')*')[ \t]*:(?:[ \t]+(.*))?$/;
+
+/**
+ * Front matter block located in a Markdown file
+ */
+interface FrontMatterBlock {
+  /** Lines between the fences, split into one entry per top-level key */
+  entries: { key: string; lines: string[] }[];
+  /** Comments and blank lines before the first key */
+  leading: string[];
+  /** Line break used by the file */
+  newline: string;
+  /** Markdown after the closing fence */
+  body: string;
+}
+
+/**
+ * Parse the front matter of a Markdown file
+ *
+ * @param markdown - Markdown file contents, optionally starting with a `---` fenced YAML block
+ * @returns Front matter values and the Markdown body after the block
+ * @throws {TelegraphValidationError} If the front matter is not closed or has malformed lines
+ *
+ * @example
+ * ```typescript
+ * const { data, body } = parseFrontMatter('---\ntitle: Hello\ntags: [a, b]\n---\n# Hi');
+ * // data: { title: 'Hello', tags: ['a', 'b'] }, body: '# Hi'
+ * ```
+ */
+export function parseFrontMatter(markdown: string): { data: FrontMatter; body: string } {
+  const block = findBlock(markdown);
+  if (!block) {
+    return { data: {}, body: markdown };
+  }
+
+  const data: FrontMatter = {};
+  for (const entry of block.entries) {
+    data[entry.key] = parseEntryValue(entry.lines);
+  }
+  return { data, body: block.body };
+}
+
+/**
+ * Set front matter values, keeping the rest of the file as written
+ *
+ * Existing keys are rewritten in place, new keys are appended to the block and a block
+ * is added when the file has none. Keys set to undefined are removed.
+ *
+ * @param markdown - Markdown file contents
+ * @param values - Values to set
+ * @returns Markdown with the updated front matter
+ * @throws {TelegraphValidationError} If the existing front matter is malformed
+ *
+ * @example
+ * ```typescript
+ * const updated = updateFrontMatter(source, { path: page.path, url: page.url });
+ * await writeFile('post.md', updated);
+ * ```
+ */
+export function updateFrontMatter(markdown: string, values: Record<string, FrontMatterValue | undefined>): string {
+  const block = findBlock(markdown) ?? {
+    entries: [],
+    leading: [],
+    newline: markdown.includes('\r\n') ? '\r\n' : '\n',
+    body: markdown,
+  };
+
+  for (const [key, value] of Object.entries(values)) {
+    const index = block.entries.findIndex(entry => entry.key === key);
+    // Unindented comments and blank lines after an entry stay where they are
+    const kept = index === -1 ? [] : block.entries[index].lines.slice(1).filter(line => /^(#.*)?$/.test(line));
+    if (value === undefined) {
+      if (index !== -1) {
+        block.entries.splice(index, 1);
+        (index > 0 ? block.entries[index - 1].lines : block.leading).push(...kept);
+      }
+      continue;
+    }
+
+    const lines = [`${formatKey(key)}: ${formatValue(value)}`];
+    if (index === -1) {
+      block.entries.push({ key, lines });
+    } else {
+      block.entries[index].lines = [...lines, ...kept];
+    }
+  }
+
+  const { newline } = block;
+  const lines = ['---', ...block.leading, ...block.entries.flatMap(entry => entry.lines), '---'];
+  return lines.join(newline) + newline + block.body;
+}
+
+/**
+ * Locate the front matter block and split it into entries
+ */
+function findBlock(markdown: string): FrontMatterBlock | undefined {
+  const text = markdown.startsWith('\uFEFF') ? markdown.slice(1) : markdown;
+  const lines = text.split(/\r?\n/);
+  if (!FENCE.test(lines[0])) {
+    return undefined;
+  }
+
+  const end = lines.findIndex((line, i) => i > 0 && (FENCE.test(line) || /^\.\.\.[ \t]*$/.test(line)));
+  if (end === -1) {
+    throw new TelegraphValidationError('Front matter is not closed with ---', { code: 'FRONT_MATTER_INVALID' });
+  }
+
+  // Keep the body byte for byte, including its line breaks
+  let offset = 0;
+  for (let i = 0; i <= end && offset !== -1; i++) {
+    const next = text.indexOf('\n', offset);
+    offset = next === -1 ? -1 : next + 1;
+  }
+
+  const block: FrontMatterBlock = {
+    entries: [],
+    leading: [],
+    newline: /^[^\n]*\r\n/.test(text) ? '\r\n' : '\n',
+    body: offset === -1 ? '' : text.slice(offset),
+  };
+
+  for (let i = 1; i < end; i++) {
+    const line = lines[i];
+    const current = block.entries[block.entries.length - 1];
+    // Indented lines, sequence items and comments belong to the entry above
+    if (/^([ \t]|-([ \t]|$)|#|$)/.test(line)) {
+      (current ? current.lines : block.leading).push(line);
+      continue;
+    }
+
+    const match = ENTRY.exec(line);
+    if (!match) {
+      throw new TelegraphValidationError(`Malformed front matter on line ${i + 1}: ${line}`, {
+        code: 'FRONT_MATTER_INVALID',
+      });
+    }
+    const key = /^["']/.test(match[1]) ? String(parseScalar(match[1])) : match[1];
+    block.entries.push({ key, lines: [line] });
+  }
+
+  return block;
+}
+
+/**
+ * Parse the value of an entry from its lines
+ */
+function parseEntryValue(lines: string[]): FrontMatterValue {
+  const inline = stripComment(ENTRY.exec(lines[0])?.[2] ?? '');
+  const rest = lines.slice(1).filter(line => !/^[ \t]*(#.*)?$/.test(line));
+
+  if (rest.length === 0) {
+    return inline.startsWith('[') && inline.endsWith(']') ? parseFlowSequence(inline) : parseScalar(inline);
+  }
+  if (!inline && rest.every(line => /^[ \t]*-([ \t]|$)/.test(line))) {
+    return rest.map(line => parseScalar(stripComment(line.replace(/^[ \t]*-/, ''))));
+  }
+  // Nested mappings, block scalars and multi-line values are kept as written
+  return [lines[0].slice(lines[0].indexOf(':') + 1).trim(), ...lines.slice(1)].join('\n').trim();
+}
+
+/**
+ * Parse a [a, b] flow sequence of scalars
+ */
+function parseFlowSequence(text: string): FrontMatterValue {
+  const inner = text.slice(1, -1).trim();
+  if (!inner) return [];
+
+  const items = inner.match(/[ \t]*(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*')|[^,]+/g) || [];
+  return items.map(item => item.trim()).filter(Boolean).map(parseScalar) as (string | number | boolean | null)[];
+}
+
+/**
+ * Parse a plain, single-quoted or double-quoted scalar
+ */
+function parseScalar(text: string): string | number | boolean | null {
+  const value = text.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    return value.slice(1, -1).replace(/\\(u[\da-fA-F]{4}|.)/g, (_, escape: string) => {
+      if (escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+      return ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as Record<string, string>)[escape] ?? escape;
+    });
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Remove a trailing # comment outside quotes
+ */
+function stripComment(text: string): string {
+  const value = text.trim();
+  if (/^["']/.test(value)) {
+    const quote = value[0];
+    const close = quote === '"' ? /^"(?:[^"\\]|\\.)*"/.exec(value) : /^'(?:[^']|'')*'/.exec(value);
+    return close ? close[0] : value;
+  }
+  return value.replace(/(^|[ \t])#.*$/, '').trim();
+}
+
+/**
+ * Write a key, quoting it when YAML would not read it back as written
+ */
+function formatKey(key: string): string {
+  return /^[^\s#:'"][^:]*$/.test(key) && key.trim() === key ? key : JSON.stringify(key);
+}
+
+/**
+ * Write a value as a plain or double-quoted scalar, or a flow sequence
+ */
+function formatValue(value: FrontMatterValue, inSequence = false): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => formatValue(item, true)).join(', ')}]`;
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+
+  const plain = value !== ''
+    && value.trim() === value
+    && !/[\r\n\t]|: | #|[:,]$/.test(value)
+    && !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value)
+    && !(inSequence && /[,[\]{}]/.test(value))
+    && typeof parseScalar(value) === 'string';
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Read a front matter value as a string, ignoring empty values and sequences
+ *
+ * @param value - Front matter value
+ * @returns The value as a string, or undefined
+ */
+export function frontMatterString(value: FrontMatterValue | undefined): string | undefined {
+  if (value === undefined || value === null || Array.isArray(value)) return undefined;
+  const text = String(value);
+  return text === '' ? undefined : text;
+}
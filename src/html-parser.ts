@@ -0,0 +1,694 @@
+/**
+ * HTML Parser
+ * Zero-dependency HTML tokenizer and tree builder following the WHATWG parsing rules
+ * that matter for page content: entities, comments, raw text elements, attribute
+ * quoting, void elements, implied end tags and recovery from mismatched tags.
+ */
+
+import type { Node, NodeElement } from './types.js';
+
+/**
+ * Token produced by the tokenizer
+ */
+export type HtmlToken =
+  | { type: 'text'; value: string }
+  | { type: 'startTag'; name: string; attrs: Record<string, string>; selfClosing: boolean }
+  | { type: 'endTag'; name: string }
+  | { type: 'comment'; value: string }
+  | { type: 'doctype'; value: string };
+
+/** Elements that never have content */
+export const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+];
+
+/** Elements whose content is text up to the matching end tag (entities not decoded) */
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes'];
+
+/** Elements whose content is text up to the matching end tag (entities decoded) */
+const ESCAPABLE_RAW_TEXT_ELEMENTS = ['textarea', 'title'];
+
+/**
+ * Embeds that honor XHTML-style self-closing syntax (<iframe src="..."/>), unlike in browsers.
+ * Telegraph content never puts children in them, and swallowing the rest of the document
+ * into a raw text iframe would lose the page.
+ */
+const SELF_CLOSING_EMBEDS = ['iframe', 'video'];
+
+/** Start tags that close an open <p> */
+const P_CLOSERS = [
+  'address', 'article', 'aside', 'blockquote', 'center', 'details', 'dialog', 'dir', 'div', 'dl', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr',
+  'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul', 'li', 'dd', 'dt', 'listing',
+];
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+/** Elements that end tag matching does not cross */
+const SCOPE_BOUNDARIES = ['applet', 'caption', 'html', 'table', 'td', 'th', 'marquee', 'object', 'template'];
+
+/** Elements reopened after an end tag closes them early, as browsers do */
+const FORMATTING_ELEMENTS = [
+  'a', 'b', 'big', 'code', 'em', 'font', 'i', 'nobr', 's', 'small', 'strike', 'strong', 'tt', 'u',
+];
+
+/** Elements whose content does not reopen formatting elements from outside them */
+const FORMATTING_BOUNDARIES = ['applet', 'caption', 'marquee', 'object', 'template', 'td', 'th'];
+
+/** Most identical formatting elements kept open for reopening (the spec's "Noah's Ark" clause) */
+const MAX_IDENTICAL_FORMATTING = 3;
+
+/**
+ * Depth past which elements are added to the deepest allowed element instead of nesting
+ * further, as in Chromium. Keeps recursive consumers of the tree off the stack limit.
+ */
+const MAX_TREE_DEPTH = 512;
+
+/** Block and structural elements that a misnested formatting end tag splits around */
+const SPECIAL_ELEMENTS = [
+  ...P_CLOSERS, ...SCOPE_BOUNDARIES, 'body', 'button', 'colgroup', 'frameset', 'head', 'iframe', 'noembed',
+  'noframes', 'noscript', 'script', 'select', 'style', 'tbody', 'textarea', 'tfoot', 'thead', 'title', 'tr', 'xmp',
+];
+
+/** Windows-1252 remapping of numeric references in the C1 range, as browsers do */
+const C1_REPLACEMENTS: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018,
+  0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc,
+  0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+/** Named character references (common subset of the HTML entity table) */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', ensp: '\u2002', emsp: '\u2003',
+  thinsp: '\u2009', zwnj: '\u200c', zwj: '\u200d', lrm: '\u200e', rlm: '\u200f', shy: '\u00ad',
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+  laquo: '«', raquo: '»', lsaquo: '‹', rsaquo: '›', bull: '•', middot: '·',
+  prime: '′', Prime: '″', dagger: '†', Dagger: '‡', permil: '‰', deg: '°',
+  plusmn: '±', times: '×', divide: '÷', minus: '−', frac12: '½', frac14: '¼',
+  frac34: '¾', sup1: '¹', sup2: '²', sup3: '³', micro: 'µ', para: '¶',
+  sect: '§', cent: '¢', pound: '£', yen: '¥', euro: '€', curren: '¤',
+  iexcl: '¡', iquest: '¿', ordf: 'ª', ordm: 'º', not: '¬', macr: '¯',
+  acute: '´', cedil: '¸', uml: '¨', brvbar: '¦', larr: '←', uarr: '↑',
+  rarr: '→', darr: '↓', harr: '↔', lArr: '⇐', rArr: '⇒', hArr: '⇔',
+  le: '≤', ge: '≥', ne: '≠', asymp: '≈', equiv: '≡', infin: '∞',
+  sum: '∑', prod: '∏', radic: '√', part: '∂', nabla: '∇', isin: '∈',
+  forall: '∀', exist: '∃', empty: '∅', notin: '∉', ni: '∋', cap: '∩', cup: '∪', int: '∫',
+  there4: '∴', sim: '∼', and: '∧', or: '∨', oplus: '⊕', otimes: '⊗',
+  loz: '◊', spades: '♠', clubs: '♣', hearts: '♥', diams: '♦', check: '✓',
+  Alpha: 'Α', Beta: 'Β', Gamma: 'Γ', Delta: 'Δ', Epsilon: 'Ε', Theta: 'Θ',
+  Lambda: 'Λ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', zeta: 'ζ',
+  eta: 'η', theta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ',
+  nu: 'ν', xi: 'ξ', omicron: 'ο', pi: 'π', rho: 'ρ', sigma: 'σ',
+  sigmaf: 'ς', tau: 'τ', upsilon: 'υ', phi: 'φ', chi: 'χ', psi: 'ψ',
+  omega: 'ω', Agrave: 'À', Aacute: 'Á', Acirc: 'Â', Atilde: 'Ã', Auml: 'Ä',
+  Aring: 'Å', AElig: 'Æ', Ccedil: 'Ç', Egrave: 'È', Eacute: 'É', Ecirc: 'Ê',
+  Euml: 'Ë', Igrave: 'Ì', Iacute: 'Í', Icirc: 'Î', Iuml: 'Ï', ETH: 'Ð',
+  Ntilde: 'Ñ', Ograve: 'Ò', Oacute: 'Ó', Ocirc: 'Ô', Otilde: 'Õ', Ouml: 'Ö',
+  Oslash: 'Ø', Ugrave: 'Ù', Uacute: 'Ú', Ucirc: 'Û', Uuml: 'Ü', Yacute: 'Ý',
+  THORN: 'Þ', szlig: 'ß', agrave: 'à', aacute: 'á', acirc: 'â', atilde: 'ã',
+  auml: 'ä', aring: 'å', aelig: 'æ', ccedil: 'ç', egrave: 'è', eacute: 'é',
+  ecirc: 'ê', euml: 'ë', igrave: 'ì', iacute: 'í', icirc: 'î', iuml: 'ï',
+  eth: 'ð', ntilde: 'ñ', ograve: 'ò', oacute: 'ó', ocirc: 'ô', otilde: 'õ',
+  ouml: 'ö', oslash: 'ø', ugrave: 'ù', uacute: 'ú', ucirc: 'û', uuml: 'ü',
+  yacute: 'ý', thorn: 'þ', yuml: 'ÿ', OElig: 'Œ', oelig: 'œ', Scaron: 'Š',
+  scaron: 'š', Yuml: 'Ÿ', fnof: 'ƒ', circ: 'ˆ', tilde: '˜',
+};
+
+/** Entities browsers also recognize without a trailing semicolon */
+const LEGACY_ENTITIES = [
+  'amp', 'lt', 'gt', 'quot', 'nbsp', 'copy', 'reg', 'shy', 'deg', 'plusmn', 'times', 'divide', 'micro',
+  'para', 'sect', 'cent', 'pound', 'yen', 'curren', 'iexcl', 'iquest', 'laquo', 'raquo', 'middot', 'not',
+  'macr', 'acute', 'cedil', 'uml', 'brvbar', 'ordf', 'ordm', 'sup1', 'sup2', 'sup3', 'frac12', 'frac14',
+  'frac34', 'AElig', 'aelig', 'szlig', 'eth', 'ETH', 'thorn', 'THORN',
+];
+
+/**
+ * Decode character references in text or an attribute value
+ *
+ * @param text - Raw text
+ * @param inAttribute - Apply the stricter attribute rules for references without a semicolon
+ * @returns Decoded text
+ */
+export function decodeHtmlEntities(text: string, inAttribute = false): string {
+  if (!text.includes('&')) {
+    return text;
+  }
+
+  return text.replace(/&(#[xX][0-9a-fA-F]+;?|#\d+;?|[a-zA-Z][a-zA-Z\d]*;?)/g, (match, ref: string, offset: number) => {
+    if (ref[0] === '#') {
+      const hex = ref[1] === 'x' || ref[1] === 'X';
+      const code = parseInt(ref.slice(hex ? 2 : 1).replace(/;$/, ''), hex ? 16 : 10);
+      return decodeCodePoint(code);
+    }
+
+    if (ref.endsWith(';')) {
+      const value = NAMED_ENTITIES[ref.slice(0, -1)];
+      if (value !== undefined) return value;
+    }
+
+    // Longest legacy entity that prefixes the reference, e.g. "&copy2024" or "&ampx"
+    const name = LEGACY_ENTITIES
+      .filter(legacy => ref.startsWith(legacy))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!name) {
+      return match;
+    }
+
+    const rest = match.slice(name.length + 1);
+    const next = rest[0] ?? text[offset + match.length];
+    if (inAttribute && next !== undefined && /[=a-zA-Z\d]/.test(next)) {
+      return match;
+    }
+    return NAMED_ENTITIES[name] + rest;
+  });
+}
+
+/**
+ * Convert a numeric character reference to a string, applying browser error handling
+ */
+function decodeCodePoint(code: number): string {
+  if (Number.isNaN(code) || code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+    return '\ufffd';
+  }
+  return String.fromCodePoint(C1_REPLACEMENTS[code] ?? code);
+}
+
+/**
+ * Split HTML into tokens
+ *
+ * @param html - HTML string
+ * @returns Array of tokens
+ */
+export function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  const length = html.length;
+  let text = '';
+  let i = 0;
+
+  const flushText = () => {
+    if (text) {
+      tokens.push({ type: 'text', value: decodeHtmlEntities(text) });
+      text = '';
+    }
+  };
+
+  // Bogus comment: everything up to the next '>'
+  const readBogusComment = (start: number) => {
+    const end = html.indexOf('>', start);
+    tokens.push({ type: 'comment', value: html.slice(start, end === -1 ? length : end) });
+    i = end === -1 ? length : end + 1;
+  };
+
+  while (i < length) {
+    const lt = html.indexOf('<', i);
+    if (lt === -1) {
+      text += html.slice(i);
+      break;
+    }
+    text += html.slice(i, lt);
+    i = lt;
+
+    const next = html[i + 1];
+
+    if (next === '!') {
+      flushText();
+      if (html.startsWith('<!--', i)) {
+        if (html.startsWith('>', i + 4) || html.startsWith('->', i + 4)) {
+          // Abruptly closed empty comment: <!--> or <!--->
+          tokens.push({ type: 'comment', value: '' });
+          i = html.indexOf('>', i + 4) + 1;
+        } else {
+          const end = html.indexOf('-->', i + 4);
+          tokens.push({ type: 'comment', value: html.slice(i + 4, end === -1 ? length : end) });
+          i = end === -1 ? length : end + 3;
+        }
+      } else if (html.slice(i + 2, i + 9).toLowerCase() === 'doctype') {
+        const end = html.indexOf('>', i);
+        tokens.push({ type: 'doctype', value: html.slice(i + 9, end === -1 ? length : end).trim() });
+        i = end === -1 ? length : end + 1;
+      } else {
+        readBogusComment(i + 2);
+      }
+      continue;
+    }
+
+    if (next === '?') {
+      flushText();
+      readBogusComment(i + 1);
+      continue;
+    }
+
+    if (next === '/') {
+      if (html[i + 2] === '>') {
+        // "</>" is ignored
+        i += 3;
+        continue;
+      }
+      if (!/[a-zA-Z]/.test(html[i + 2] || '')) {
+        if (i + 2 >= length) {
+          text += '</';
+          i = length;
+        } else {
+          flushText();
+          readBogusComment(i + 2);
+        }
+        continue;
+      }
+      const tag = readTag(html, i + 2);
+      if (!tag) {
+        // Unterminated tag at end of input is dropped
+        i = length;
+        continue;
+      }
+      flushText();
+      tokens.push({ type: 'endTag', name: tag.name });
+      i = tag.end;
+      continue;
+    }
+
+    if (!/[a-zA-Z]/.test(next || '')) {
+      text += '<';
+      i++;
+      continue;
+    }
+
+    const tag = readTag(html, i + 1);
+    if (!tag) {
+      i = length;
+      continue;
+    }
+    flushText();
+    tokens.push({ type: 'startTag', name: tag.name, attrs: tag.attrs, selfClosing: tag.selfClosing });
+    i = tag.end;
+
+    // Raw text content runs until the matching end tag
+    const rawText = RAW_TEXT_ELEMENTS.includes(tag.name);
+    const selfClosed = tag.selfClosing && SELF_CLOSING_EMBEDS.includes(tag.name);
+    if (!selfClosed && (rawText || ESCAPABLE_RAW_TEXT_ELEMENTS.includes(tag.name))) {
+      const closer = new RegExp(`</${tag.name}[\\s/>]`, 'ig');
+      closer.lastIndex = i;
+      const match = closer.exec(html);
+      const end = match ? match.index : length;
+      let content = html.slice(i, end);
+      if (tag.name === 'textarea' && content.startsWith('\n')) {
+        content = content.slice(1);
+      }
+      if (content) {
+        tokens.push({ type: 'text', value: rawText ? content : decodeHtmlEntities(content) });
+      }
+      i = end;
+    }
+  }
+
+  flushText();
+  return tokens;
+}
+
+/**
+ * Read a tag name and its attributes
+ *
+ * @param html - HTML string
+ * @param start - Index of the first character of the tag name
+ * @returns Parsed tag, or undefined if the input ends inside the tag
+ */
+function readTag(
+  html: string,
+  start: number
+): { name: string; attrs: Record<string, string>; selfClosing: boolean; end: number } | undefined {
+  const length = html.length;
+  let i = start;
+  while (i < length && !/[\s/>]/.test(html[i])) i++;
+  const name = html.slice(start, i).toLowerCase();
+  const attrs: Record<string, string> = {};
+  let selfClosing = false;
+
+  while (i < length) {
+    const c = html[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === '>') {
+      return { name, attrs, selfClosing, end: i + 1 };
+    }
+    if (c === '/') {
+      if (html[i + 1] === '>') {
+        selfClosing = true;
+      }
+      i++;
+      continue;
+    }
+
+    // Attribute name (a leading '=' is part of the name)
+    const nameStart = i;
+    i++;
+    while (i < length && !/[\s/>=]/.test(html[i])) i++;
+    const attrName = html.slice(nameStart, i).toLowerCase();
+
+    while (i < length && /\s/.test(html[i])) i++;
+    let value = '';
+    if (html[i] === '=') {
+      i++;
+      while (i < length && /\s/.test(html[i])) i++;
+      const quote = html[i];
+      if (quote === '"' || quote === "'") {
+        const end = html.indexOf(quote, i + 1);
+        if (end === -1) return undefined;
+        value = html.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        const valueStart = i;
+        while (i < length && !/[\s>]/.test(html[i])) i++;
+        value = html.slice(valueStart, i);
+      }
+    }
+
+    // Duplicate attributes: the first one wins
+    if (!(attrName in attrs)) {
+      attrs[attrName] = decodeHtmlEntities(value, true);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Element under construction
+ */
+interface OpenElement {
+  tag: string;
+  node: NodeElement & { children: Node[] };
+  /** Children list the node is in */
+  parent: Node[];
+}
+
+/**
+ * Create an element with an empty children list
+ */
+function createElement(tag: string, attrs: NonNullable<NodeElement['attrs']>): OpenElement['node'] {
+  const element: NodeElement = { tag };
+  if (Object.keys(attrs).length > 0) {
+    element.attrs = attrs;
+  }
+  return Object.assign(element, { children: [] as Node[] });
+}
+
+/**
+ * Parse HTML into a Telegraph Node tree
+ *
+ * Comments and doctypes are dropped. Unclosed elements are closed at the end of input,
+ * end tags without a matching open element are ignored, and end tags close any
+ * elements left open inside the matching element. Formatting elements closed that way
+ * are reopened for the text that follows, and misnested formatting end tags are
+ * handled with the adoption agency algorithm, so <b>x<i>y</b>z</i> keeps "z" italic.
+ * As in browsers, at most three identical formatting elements are reopened, and
+ * elements nested more than 512 deep are added to the deepest allowed element.
+ *
+ * @param html - HTML string
+ * @returns Array of Telegraph Node objects
+ */
+export function parseHtml(html: string): Node[] {
+  const root: Node[] = [];
+  const stack: OpenElement[] = [];
+  // Open formatting elements in the order they were opened; null marks a boundary
+  const formatting: (OpenElement | null)[] = [];
+  let dropLeadingNewline = false;
+
+  const children = () => (stack.length > 0 ? stack[stack.length - 1].node.children : root);
+  // Where new elements go: the current element, unless it is nested too deep
+  const elementParent = () => (stack.length > 0 ? stack[Math.min(stack.length, MAX_TREE_DEPTH) - 1].node.children : root);
+  const currentTag = () => stack[stack.length - 1]?.tag;
+
+  const appendText = (value: string) => {
+    const list = children();
+    const last = list[list.length - 1];
+    if (typeof last === 'string') {
+      list[list.length - 1] = last + value;
+    } else {
+      list.push(value);
+    }
+  };
+
+  // Index of the topmost open element with the given tag, not crossing scope boundaries
+  const findInScope = (tag: string, boundaries: string[] = SCOPE_BOUNDARIES) => {
+    for (let j = stack.length - 1; j >= 0; j--) {
+      if (stack[j].tag === tag) return j;
+      if (boundaries.includes(stack[j].tag)) return -1;
+    }
+    return -1;
+  };
+
+  const append = (open: OpenElement, list: Node[]) => {
+    open.parent = list;
+    list.push(open.node);
+  };
+
+  const detach = (open: OpenElement) => {
+    const index = open.parent.indexOf(open.node);
+    if (index !== -1) open.parent.splice(index, 1);
+  };
+
+  const copyElement = (open: OpenElement): OpenElement => ({
+    tag: open.tag,
+    node: createElement(open.tag, { ...open.node.attrs }),
+    parent: [],
+  });
+
+  const popTo = (index: number) => {
+    for (const open of stack.splice(index)) {
+      if (FORMATTING_BOUNDARIES.includes(open.tag)) {
+        // Formatting elements opened inside a boundary are not reopened outside it
+        const marker = formatting.lastIndexOf(null);
+        formatting.length = marker === -1 ? 0 : marker;
+      }
+    }
+  };
+
+  // Last formatting element with the given tag opened since the last boundary
+  const findFormatting = (tag: string) => {
+    for (let j = formatting.length - 1; j >= 0; j--) {
+      const entry = formatting[j];
+      if (entry === null) return -1;
+      if (entry.tag === tag) return j;
+    }
+    return -1;
+  };
+
+  // Record an open formatting element, dropping the earliest of the identical ones
+  // (same tag and attributes) since the last boundary when there are already three
+  const pushFormatting = (open: OpenElement) => {
+    const key = (entry: OpenElement) => JSON.stringify([entry.tag, Object.entries(entry.node.attrs || {}).sort()]);
+    const identical: number[] = [];
+    for (let j = formatting.length - 1; j >= 0; j--) {
+      const entry = formatting[j];
+      if (entry === null) break;
+      if (key(entry) === key(open)) identical.push(j);
+    }
+    if (identical.length >= MAX_IDENTICAL_FORMATTING) {
+      formatting.splice(identical[identical.length - 1], 1);
+    }
+    formatting.push(open);
+  };
+
+  // Reopen copies of the formatting elements that were closed early, outermost first
+  const reopenFormatting = () => {
+    let first = formatting.length;
+    while (first > 0) {
+      const entry = formatting[first - 1];
+      if (entry === null || stack.includes(entry)) break;
+      first--;
+    }
+    for (let j = first; j < formatting.length; j++) {
+      const copy = copyElement(formatting[j] as OpenElement);
+      append(copy, elementParent());
+      stack.push(copy);
+      formatting[j] = copy;
+    }
+  };
+
+  // Adoption agency algorithm: close a formatting element along with the elements opened
+  // inside it. Formatting elements among them stay in the list and are reopened later;
+  // the first block opened inside it is moved out of it and gets a copy of it instead.
+  // Returns false if the end tag has no formatting element to close.
+  const closeFormatting = (tag: string): boolean => {
+    for (let round = 0; round < 8; round++) {
+      const listIndex = findFormatting(tag);
+      if (listIndex === -1) return round > 0;
+      const element = formatting[listIndex] as OpenElement;
+      const index = stack.indexOf(element);
+      if (index === -1) {
+        formatting.splice(listIndex, 1);
+        return true;
+      }
+      if (stack.slice(index + 1).some(open => SCOPE_BOUNDARIES.includes(open.tag))) {
+        return true;
+      }
+
+      const block = stack.slice(index + 1).find(open => SPECIAL_ELEMENTS.includes(open.tag));
+      if (!block) {
+        popTo(index);
+        formatting.splice(listIndex, 1);
+        return true;
+      }
+
+      // Rebuild the formatting elements between the element and the block around the block
+      let bookmark = listIndex + 1;
+      let last = block;
+      for (let j = stack.indexOf(block) - 1; j > index; j--) {
+        const open = stack[j];
+        const entry = formatting.indexOf(open);
+        if (entry === -1) {
+          stack.splice(j, 1);
+          continue;
+        }
+        const copy = copyElement(open);
+        formatting[entry] = copy;
+        stack[j] = copy;
+        if (last === block) bookmark = entry + 1;
+        detach(last);
+        append(last, copy.node.children);
+        last = copy;
+      }
+      detach(last);
+      append(last, element.parent);
+
+      // The block's children move into a copy of the element; open elements among them
+      // keep pointing at the same children list
+      const copy = copyElement(element);
+      copy.node.children = block.node.children;
+      block.node.children = [];
+      append(copy, block.node.children);
+
+      formatting.splice(bookmark, 0, copy);
+      formatting.splice(formatting.indexOf(element), 1);
+      stack.splice(index, 1);
+      stack.splice(stack.indexOf(block) + 1, 0, copy);
+    }
+    return true;
+  };
+
+  const closeP = () => {
+    const index = findInScope('p', [...SCOPE_BOUNDARIES, 'button']);
+    if (index !== -1) popTo(index);
+  };
+
+  for (const token of tokenizeHtml(html)) {
+    const skipNewline = dropLeadingNewline;
+    dropLeadingNewline = false;
+
+    switch (token.type) {
+      case 'text': {
+        const value = skipNewline && token.value.startsWith('\n') ? token.value.slice(1) : token.value;
+        if (value) {
+          reopenFormatting();
+          appendText(value);
+        }
+        break;
+      }
+
+      case 'startTag': {
+        const tag = token.name;
+
+        if (P_CLOSERS.includes(tag)) {
+          closeP();
+        }
+        if (HEADINGS.includes(tag) && HEADINGS.includes(currentTag())) {
+          stack.pop();
+        }
+        if (tag === 'li') {
+          const index = findInScope('li', [...SCOPE_BOUNDARIES, 'ul', 'ol']);
+          if (index !== -1) popTo(index);
+        }
+        if (tag === 'dt' || tag === 'dd') {
+          const index = Math.max(
+            findInScope('dt', [...SCOPE_BOUNDARIES, 'dl']),
+            findInScope('dd', [...SCOPE_BOUNDARIES, 'dl'])
+          );
+          if (index !== -1) popTo(index);
+        }
+        if (tag === 'tr') {
+          const index = findInScope('tr', ['table']);
+          if (index !== -1) popTo(index);
+        }
+        if (tag === 'td' || tag === 'th') {
+          const index = Math.max(findInScope('td', ['tr', 'table']), findInScope('th', ['tr', 'table']));
+          if (index !== -1) popTo(index);
+        }
+        if (tag === 'a') {
+          // Links cannot nest: a new <a> closes the open one
+          const listIndex = findFormatting('a');
+          if (listIndex !== -1) {
+            const link = formatting[listIndex] as OpenElement;
+            closeFormatting('a');
+            if (formatting.includes(link)) formatting.splice(formatting.indexOf(link), 1);
+            if (stack.includes(link)) stack.splice(stack.indexOf(link), 1);
+          }
+        }
+        if (!SPECIAL_ELEMENTS.includes(tag)) {
+          reopenFormatting();
+        }
+
+        const open: OpenElement = { tag, node: createElement(tag, token.attrs), parent: [] };
+        append(open, elementParent());
+
+        // Self-closing syntax is ignored on other non-void elements, as in browsers
+        const selfClosed = token.selfClosing && SELF_CLOSING_EMBEDS.includes(tag);
+        if (!VOID_ELEMENTS.includes(tag) && !selfClosed) {
+          stack.push(open);
+          dropLeadingNewline = tag === 'pre' || tag === 'listing';
+          if (FORMATTING_ELEMENTS.includes(tag)) pushFormatting(open);
+          if (FORMATTING_BOUNDARIES.includes(tag)) formatting.push(null);
+        }
+        break;
+      }
+
+      case 'endTag': {
+        const tag = token.name;
+
+        if (tag === 'br') {
+          // </br> is treated as <br>
+          reopenFormatting();
+          children().push({ tag: 'br', children: [] });
+          break;
+        }
+        if (tag === 'p' && findInScope('p', [...SCOPE_BOUNDARIES, 'button']) === -1) {
+          // A stray </p> produces an empty paragraph
+          children().push({ tag: 'p', children: [] });
+          break;
+        }
+
+        if (FORMATTING_ELEMENTS.includes(tag) && closeFormatting(tag)) {
+          break;
+        }
+        const index = findInScope(tag);
+        if (index !== -1) popTo(index);
+        break;
+      }
+
+      default:
+        // Comments and doctypes are not part of the content
+        break;
+    }
+  }
+
+  return finalize(root);
+}
+
+/**
+ * Remove empty children arrays from a freshly built tree
+ */
+function finalize(nodes: Node[]): Node[] {
+  for (const node of nodes) {
+    if (typeof node !== 'string') {
+      if (node.children && node.children.length > 0) {
+        finalize(node.children);
+      } else {
+        delete node.children;
+      }
+    }
+  }
+  return nodes;
+}
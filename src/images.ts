@@ -0,0 +1,242 @@
+/**
+ * Local Image Uploads
+ * Find local and data: image sources in page content, upload them and rewrite their src
+ */
+
+import { TelegraphValidationError } from './errors.js';
+import { MAX_UPLOAD_SIZE, readUploadSource } from './upload.js';
+import type {
+  Node,
+  NodeElement,
+  RequestOptions,
+  UploadCache,
+  UploadFileOptions,
+  UploadImagesOptions,
+  UploadResult,
+  UploadSource,
+} from './types.js';
+
+/**
+ * Anything that can upload files, such as a Telegraph client
+ */
+export interface FileUploader {
+  uploadFile(source: UploadSource, options?: UploadFileOptions): Promise<UploadResult>;
+}
+
+/** Tags whose src attribute points at uploadable media */
+const MEDIA_TAGS = ['img', 'video'];
+
+/**
+ * Check whether a src refers to a local file or a data: URI rather than hosted media
+ *
+ * @param src - Value of a src attribute
+ * @returns True if the source must be uploaded before publishing
+ */
+export function isLocalSource(src: string): boolean {
+  if (/^data:/i.test(src) || /^file:/i.test(src)) {
+    return true;
+  }
+  // Remote URLs (http:, https:, protocol-relative) and telegra.ph-hosted paths
+  if (/^[a-z][a-z\d+.-]*:/i.test(src) || src.startsWith('//') || /^\/(file|media)\//.test(src)) {
+    return false;
+  }
+  return src.length > 0;
+}
+
+/**
+ * Upload local and data: image sources referenced by img and video nodes
+ *
+ * Each file is hashed (SHA-256) and looked up in the cache first, so unchanged
+ * images are not uploaded again on later edits. Local files are only read from inside
+ * options.baseDir.
+ *
+ * @param nodes - Page content
+ * @param uploader - Client used for uploads
+ * @param options - Base directory, cache and request options
+ * @returns New node array with src attributes pointing at hosted files
+ * @throws {TelegraphValidationError} If a local source has no baseDir or points outside it
+ * @throws {TelegraphNotFoundError} If a local file does not exist
+ *
+ * @example
+ * ```typescript
+ * const nodes = parseContent('![diagram](./img/arch.png)', 'markdown');
+ * const content = await uploadLocalImages(nodes, telegraph, { baseDir: './posts' });
+ * ```
+ */
+export async function uploadLocalImages(
+  nodes: Node[],
+  uploader: FileUploader,
+  options: UploadImagesOptions & RequestOptions = {}
+): Promise<Node[]> {
+  const cache: UploadCache = options.cache || new Map<string, string>();
+  // Same src within one call maps to the same upload
+  const resolved = new Map<string, string>();
+
+  const visit = async (list: Node[]): Promise<Node[]> => {
+    const result: Node[] = [];
+    for (const node of list) {
+      if (typeof node === 'string') {
+        result.push(node);
+        continue;
+      }
+
+      const element: NodeElement = { ...node };
+      const src = node.attrs?.src;
+      if (MEDIA_TAGS.includes(node.tag) && src && isLocalSource(src)) {
+        let hosted = resolved.get(src);
+        if (hosted === undefined) {
+          hosted = await uploadSource(src, uploader, cache, options);
+          resolved.set(src, hosted);
+        }
+        element.attrs = { ...node.attrs, src: hosted };
+      }
+      if (node.children) {
+        element.children = await visit(node.children);
+      }
+      result.push(element);
+    }
+    return result;
+  };
+
+  return visit(nodes);
+}
+
+/**
+ * Read, hash and upload a single local source, consulting the cache
+ */
+async function uploadSource(
+  src: string,
+  uploader: FileUploader,
+  cache: UploadCache,
+  options: UploadImagesOptions & RequestOptions
+): Promise<string> {
+  let bytes: Uint8Array;
+  let contentType: string | undefined;
+  let filename: string | undefined;
+
+  if (/^data:/i.test(src)) {
+    ({ bytes, contentType } = decodeDataUri(src));
+  } else {
+    const path = await resolveLocalPath(src, options.baseDir);
+    const data = await readUploadSource(path, MAX_UPLOAD_SIZE);
+    bytes = data.bytes;
+    filename = data.name;
+  }
+
+  const hash = await sha256Hex(bytes);
+  const cached = await cache.get(hash);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const { src: hosted } = await uploader.uploadFile(bytes, {
+    contentType,
+    filename,
+    timeout: options.timeout,
+    signal: options.signal,
+    retry: options.retry,
+  });
+  await cache.set(hash, hosted);
+  return hosted;
+}
+
+/**
+ * Decode a base64 or URL-encoded data: URI
+ *
+ * Percent escapes in URL-encoded payloads are bytes, so binary data survives; other
+ * characters are taken as UTF-8.
+ */
+function decodeDataUri(uri: string): { bytes: Uint8Array; contentType?: string } {
+  const invalid = (message: string, cause?: unknown) =>
+    new TelegraphValidationError(message, { code: 'SRC_INVALID', cause });
+
+  const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/is);
+  if (!match) {
+    throw invalid('Malformed data: URI in image source');
+  }
+
+  const [, type, params, payload] = match;
+  let bytes: Uint8Array;
+  if (/;base64/i.test(params)) {
+    let binary: string;
+    try {
+      binary = atob(payload.replace(/\s+/g, ''));
+    } catch (error) {
+      throw invalid('Invalid base64 in data: URI image source', error);
+    }
+    bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+  } else {
+    const encoded = new TextEncoder().encode(payload);
+    bytes = new Uint8Array(encoded.length);
+    let length = 0;
+    for (let i = 0; i < encoded.length; i++) {
+      if (encoded[i] !== 0x25) {
+        bytes[length++] = encoded[i];
+        continue;
+      }
+      const hex = String.fromCharCode(encoded[i + 1], encoded[i + 2]);
+      if (!/^[0-9a-f]{2}$/i.test(hex)) {
+        throw invalid(`Invalid percent escape at offset ${i} of data: URI image source`);
+      }
+      bytes[length++] = parseInt(hex, 16);
+      i += 2;
+    }
+    bytes = bytes.slice(0, length);
+  }
+  return { bytes, contentType: type || undefined };
+}
+
+/**
+ * Turn a relative path or file: URL into a file system path inside baseDir
+ *
+ * Content often comes from untrusted Markdown or HTML, so a source may not name a file
+ * outside baseDir, and without a baseDir no local file is read at all.
+ */
+async function resolveLocalPath(src: string, baseDir?: string): Promise<string> {
+  if (!baseDir) {
+    throw new TelegraphValidationError(`Local image source "${src}" needs a baseDir to resolve against`, {
+      code: 'BASE_DIR_REQUIRED',
+    });
+  }
+
+  const { isAbsolute, relative, resolve, sep } = await import('node:path');
+  let decoded: string;
+  if (/^file:/i.test(src)) {
+    const { fileURLToPath } = await import('node:url');
+    try {
+      decoded = fileURLToPath(src);
+    } catch (error) {
+      throw new TelegraphValidationError(`Invalid file: URL in image source "${src}"`, { code: 'SRC_INVALID', cause: error });
+    }
+  } else {
+    const path = src.replace(/[?#].*$/, '');
+    decoded = path;
+    try {
+      decoded = decodeURI(path);
+    } catch {
+      // Keep the raw path if it is not valid percent-encoding
+    }
+  }
+
+  const root = resolve(baseDir);
+  const resolved = resolve(root, decoded);
+  const inside = relative(root, resolved);
+  if (inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+    throw new TelegraphValidationError(`Image source "${src}" is outside the base directory`, {
+      code: 'SRC_OUTSIDE_BASE_DIR',
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Compute the SHA-256 hash of some bytes as a hex string
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const subtle = globalThis.crypto?.subtle || (await import('node:crypto')).webcrypto.subtle;
+  const digest = await subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -6,7 +6,18 @@
  */
 
 export { Telegraph } from './client.js';
-export { TelegraphError } from './errors.js';
+export { AccountSession } from './session.js';
+export type { AccountSessionOptions } from './session.js';
+export {
+  TelegraphError,
+  TelegraphAuthError,
+  TelegraphNotFoundError,
+  TelegraphRateLimitError,
+  TelegraphValidationError,
+  TelegraphContentError,
+  TelegraphNetworkError,
+} from './errors.js';
+export type { TelegraphErrorOptions } from './errors.js';
 export {
   htmlToNodes,
   markdownToHtml,
@@ -14,14 +25,21 @@ export {
   nodesToJson,
   nodesToMarkdown,
   nodesToHtml,
+  collectAll,
 } from './utils.js';
 export type {
   Account,
   Page,
   PageList,
   PageViews,
+  PageReference,
   Node,
   NodeElement,
+  CamelAccount,
+  CamelPage,
+  CamelPageList,
+  ResponseCase,
+  ResponseModels,
   ApiResponse,
   AccountField,
   AllowedTag,
@@ -34,16 +52,84 @@ export type {
   GetPageParams,
   GetPageListParams,
   GetViewsParams,
+  GetViewsSeriesParams,
+  ViewsGranularity,
+  ViewsCache,
+  ViewsSeries,
+  ViewsSeriesPoint,
+  IteratePagesParams,
+  TelegraphOptions,
+  RequestOptions,
+  RetryOptions,
+  RateLimitBudget,
+  RateLimitOptions,
+  RateLimitStats,
+  QueueStats,
+  UploadSource,
+  UploadFileOptions,
+  UploadResult,
+  UploadCache,
+  UploadImagesOptions,
+  ValidationDiagnostic,
+  ValidationResult,
+  FrontMatter,
+  FrontMatterValue,
+  PublishMarkdownParams,
+  PublishMarkdownResult,
+  CreateSeriesParams,
+  TableOfContentsOptions,
 } from './types.js';
-export { ALLOWED_TAGS } from './types.js';
+export { ALLOWED_TAGS, ALLOWED_ATTRIBUTES, MAX_CONTENT_SIZE } from './types.js';
+export { validateNodes, measureContent } from './validate.js';
+export type { ValidateOptions } from './validate.js';
+export { sanitizeHtml, normalizeNodes } from './sanitize.js';
+export { parseFrontMatter, updateFrontMatter } from './front-matter.js';
+export { splitContent } from './series.js';
+export { buildTableOfContents, insertTableOfContents, headingAnchor } from './toc.js';
+export { resolvePagePath } from './page-reference.js';
+export type { SplitContentOptions } from './series.js';
+export type { SanitizeOptions, SanitizeRule } from './sanitize.js';
+export { UPLOAD_MIME_TYPES, MAX_UPLOAD_SIZE } from './upload.js';
+export { uploadLocalImages, isLocalSource } from './images.js';
+export type { FileUploader } from './images.js';
+export {
+  toCamelAccount,
+  toSnakeAccount,
+  toCamelPage,
+  toSnakePage,
+  toCamelPageList,
+  toSnakePageList,
+} from './models.js';
 export {
   exportPage,
-  backupAccount
+  backupAccount,
+  streamAccountBackup,
+  parseBackupNdjson
 } from './export.js';
 export type {
   ExportedPage,
-  AccountBackup
+  AccountBackup,
+  BackedUpPage,
+  BackupFailure,
+  BackupAccountParams,
+  BackupRecord
 } from './export.js';
+export { restoreAccount, copyAccount } from './restore.js';
+export type { RestoreOptions, RestoreResult, RestoredPage } from './restore.js';
+export { exportToDirectory } from './directory.js';
+export type { ExportToDirectoryParams, ExportToDirectoryResult } from './directory.js';
+export { exportEpub } from './epub.js';
+export type { ExportEpubParams } from './epub.js';
+export { buildFeed } from './feed.js';
+export type { BuildFeedParams } from './feed.js';
+export { buildAccountReport, accountReportToCsv, accountReportToMarkdown } from './report.js';
+export type {
+  AccountReport,
+  AccountReportPage,
+  AccountReportRange,
+  AccountReportResult,
+  BuildAccountReportParams,
+} from './report.js';
 export {
   getTemplate,
   listTemplates,
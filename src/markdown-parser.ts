@@ -0,0 +1,1566 @@
+/**
+ * Markdown Parser
+ * Zero-dependency CommonMark parser with GFM strikethrough and autolinks that builds
+ * Telegraph nodes directly: block structure (containers, lazy continuation, lists,
+ * fenced and indented code, HTML blocks, link reference definitions) is parsed line
+ * by line, then inline content with the CommonMark delimiter algorithm.
+ */
+
+import { VOID_ELEMENTS, decodeHtmlEntities, parseHtml, tokenizeHtml } from './html-parser.js';
+import type { Node, NodeElement } from './types.js';
+
+type BlockType =
+  | 'document'
+  | 'blockquote'
+  | 'list'
+  | 'item'
+  | 'paragraph'
+  | 'heading'
+  | 'thematicBreak'
+  | 'codeBlock'
+  | 'htmlBlock';
+
+/**
+ * List marker details shared by a list and its items
+ */
+interface ListData {
+  ordered: boolean;
+  bulletChar?: string;
+  delimiter?: string;
+  markerOffset: number;
+  padding: number;
+}
+
+/**
+ * Node of the block tree
+ */
+interface Block {
+  type: BlockType;
+  parent: Block | null;
+  children: Block[];
+  open: boolean;
+  content: string;
+  startLine: number;
+  lastLineBlank: boolean;
+  level?: number;
+  listData?: ListData;
+  tight?: boolean;
+  fenced?: boolean;
+  fenceChar?: string;
+  fenceLength?: number;
+  fenceOffset?: number;
+  htmlType?: number;
+}
+
+/**
+ * Node of an inline tree, before conversion to Telegraph nodes
+ */
+interface Inline {
+  type: 'text' | 'softbreak' | 'hardbreak' | 'code' | 'emph' | 'strong' | 'del' | 'link' | 'image' | 'html';
+  /** Text, code or raw HTML */
+  value?: string;
+  /** Text produced by an escape or entity, which never forms an autolink */
+  literal?: boolean;
+  destination?: string;
+  children?: Inline[];
+  /** Nesting depth of emphasis, links and images, counting this node */
+  depth?: number;
+}
+
+/**
+ * Run of emphasis or strikethrough characters on the delimiter stack
+ */
+interface Delimiter {
+  char: string;
+  count: number;
+  originalCount: number;
+  node: Inline;
+  previous: Delimiter | null;
+  next: Delimiter | null;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+/**
+ * Opening [ or ![ waiting for its closing bracket
+ */
+interface Bracket {
+  node: Inline;
+  previous: Bracket | null;
+  previousDelimiter: Delimiter | null;
+  index: number;
+  image: boolean;
+  active: boolean;
+  bracketAfter: boolean;
+}
+
+const ESCAPABLE = /^[!"#$%&'()*+,./:;<=>?@[\\\]^_`{|}~-]/;
+const ENTITY = /^&(?:#x[a-f0-9]{1,6}|#[0-9]{1,7}|[a-z][a-z0-9]{1,31});/i;
+const ESCAPE_OR_ENTITY = /\\[!"#$%&'()*+,./:;<=>?@[\\\]^_`{|}~-]|&(?:#x[a-f0-9]{1,6}|#[0-9]{1,7}|[a-z][a-z0-9]{1,31});/gi;
+
+const TAG_NAME = '[A-Za-z][A-Za-z0-9-]*';
+const ATTRIBUTE = '(?:\\s+[a-zA-Z_:][a-zA-Z0-9_.:-]*(?:\\s*=\\s*(?:[^"\'=<>`\\x00-\\x20]+|\'[^\']*\'|"[^"]*"))?)';
+const OPEN_TAG = `<${TAG_NAME}${ATTRIBUTE}*\\s*/?>`;
+const CLOSE_TAG = `</${TAG_NAME}\\s*[>]`;
+const HTML_TAG = new RegExp(
+  `^(?:${OPEN_TAG}|${CLOSE_TAG}|<!-->|<!--->|<!--[\\s\\S]*?-->|[<][?][\\s\\S]*?[?][>]|<![A-Za-z][^>]*>|<!\\[CDATA\\[[\\s\\S]*?\\]\\]>)`
+);
+
+/** HTML block start conditions, by CommonMark block type (1-7) */
+export const HTML_BLOCK_OPEN = [
+  /^<(?:script|pre|textarea|style)(?:\s|>|$)/i,
+  /^<!--/,
+  /^<[?]/,
+  /^<![A-Za-z]/,
+  /^<!\[CDATA\[/,
+  // CommonMark's block tags, plus <video> so Telegraph embeds stand alone
+  /^<[/]?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[123456]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul|video)(?:\s|[/]?[>]|$)/i,
+  new RegExp(`^(?:${OPEN_TAG}|${CLOSE_TAG})\\s*$`),
+];
+
+/** HTML block end conditions for types 1-5 (6 and 7 end at a blank line) */
+const HTML_BLOCK_CLOSE = [
+  /<\/(?:script|pre|textarea|style)>/i,
+  /-->/,
+  /\?>/,
+  />/,
+  /\]\]>/,
+];
+
+const ATX_HEADING = /^#{1,6}(?:[ \t]+|$)/;
+const CODE_FENCE = /^`{3,}(?!.*`)|^~{3,}/;
+const CLOSING_CODE_FENCE = /^(?:`{3,}|~{3,})(?=[ \t]*$)/;
+const SETEXT_HEADING_LINE = /^(?:=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^(?:\*[ \t]*){3,}$|^(?:_[ \t]*){3,}$|^(?:-[ \t]*){3,}$/;
+const MAYBE_SPECIAL = /^[#`~*+_=<>0-9-]/;
+
+/** Trailing characters that are not part of an extended autolink */
+const AUTOLINK_TRAILING = /[?!.,:*_~'"]$/;
+const EXTENDED_AUTOLINK = /(?:https?:\/\/|www\.)[\w-]+(?:\.[\w-]+)*[^\s<]*|[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+/**
+ * Deepest nesting of container blocks, of emphasis, links and images, and of inline HTML
+ * elements. Markers past it are kept as text so deeply nested input cannot exhaust the stack.
+ */
+const MAX_NESTING_DEPTH = 100;
+
+/**
+ * Parse Markdown into a Telegraph Node tree
+ *
+ * Follows CommonMark, plus GFM strikethrough (~~text~~) and bare URL autolinks. Headings
+ * become h3 (#) and h4 (## and deeper), emphasis becomes i and b, a paragraph holding only
+ * an image becomes a figure with the alt text as caption, paragraphs in tight list items
+ * and single-paragraph blockquotes are unwrapped, and raw HTML is parsed with htmlToNodes.
+ * Blocks, emphasis and links nested more than 100 deep are kept as text.
+ *
+ * @param markdown - Markdown string
+ * @returns Array of Telegraph Node objects
+ */
+export function parseMarkdown(markdown: string): Node[] {
+  const refmap: Record<string, string> = {};
+  const document = new BlockParser(refmap).parse(markdown);
+  return blocksToNodes(document.children, false, new InlineParser(refmap));
+}
+
+/**
+ * Whether a character is a space or tab
+ */
+function isSpaceOrTab(char: string | undefined): boolean {
+  return char === ' ' || char === '\t';
+}
+
+/**
+ * Whether a character is Unicode whitespace (or the start or end of the text)
+ */
+function isWhitespace(char: string): boolean {
+  return char === '' || /\s/.test(char);
+}
+
+/**
+ * Whether a character is Unicode punctuation or a symbol
+ */
+function isPunctuation(char: string): boolean {
+  return /[\p{P}\p{S}]/u.test(char);
+}
+
+/**
+ * Replace backslash escapes and character references in a string
+ */
+function unescapeString(text: string): string {
+  return text.replace(ESCAPE_OR_ENTITY, match => (match[0] === '\\' ? match[1] : decodeHtmlEntities(match)));
+}
+
+/**
+ * Normalize a link label for reference matching
+ */
+function normalizeReference(label: string): string {
+  return label.slice(1, -1).trim().replace(/[ \t\r\n]+/g, ' ').toLowerCase().toUpperCase();
+}
+
+/**
+ * Percent-encode the characters of a link destination that are not allowed in a URL
+ *
+ * Existing %XX escapes are kept, so already-encoded destinations are unchanged; spaces,
+ * non-ASCII characters and other unsafe characters are encoded as UTF-8.
+ */
+function normalizeUri(uri: string): string {
+  return uri
+    .replace(/[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/g, '\ufffd')
+    .replace(/%(?![0-9a-f]{2})|[^\w;/?:@&=+$,.!~*'()#%-]+/gi, match => (match === '%' ? '%25' : encodeURIComponent(match)));
+}
+
+/**
+ * Create an element, leaving out empty children
+ */
+function element(tag: string, children: Node[] = [], attrs?: Record<string, string>): NodeElement {
+  const node: NodeElement = { tag };
+  if (attrs && Object.keys(attrs).length > 0) {
+    node.attrs = attrs;
+  }
+  if (children.length > 0) {
+    node.children = children;
+  }
+  return node;
+}
+
+/**
+ * Line-by-line parser for the block structure
+ */
+class BlockParser {
+  private readonly doc: Block = this.createBlock('document', 0);
+  private tip: Block = this.doc;
+  private oldTip: Block = this.doc;
+  private lastMatchedContainer: Block = this.doc;
+  private line = '';
+  private lineNumber = 0;
+  private offset = 0;
+  private column = 0;
+  private nextNonspace = 0;
+  private nextNonspaceColumn = 0;
+  private indent = 0;
+  private indented = false;
+  private blank = false;
+  private partiallyConsumedTab = false;
+  private allClosed = true;
+
+  constructor(private readonly refmap: Record<string, string>) {}
+
+  /**
+   * Parse a document into a block tree
+   */
+  parse(markdown: string): Block {
+    const lines = markdown.split(/\r\n|\n|\r/);
+    if (markdown.endsWith('\n') || markdown.endsWith('\r')) {
+      lines.pop();
+    }
+    for (const line of lines) {
+      this.incorporateLine(line);
+    }
+    while (this.tip !== this.doc) {
+      this.finalize(this.tip);
+    }
+    this.finalize(this.doc);
+    return this.doc;
+  }
+
+  private createBlock(type: BlockType, startLine: number): Block {
+    return { type, parent: null, children: [], open: true, content: '', startLine, lastLineBlank: false };
+  }
+
+  /**
+   * Add a line to the tree, continuing, closing or opening blocks as needed
+   */
+  private incorporateLine(line: string): void {
+    let container = this.doc;
+    this.oldTip = this.tip;
+    this.offset = 0;
+    this.column = 0;
+    this.blank = false;
+    this.partiallyConsumedTab = false;
+    this.lineNumber++;
+    this.line = line.replace(/\u0000/g, '\ufffd');
+
+    // Walk down the open blocks that the line continues
+    let last: Block | undefined;
+    while ((last = container.children[container.children.length - 1]) && last.open) {
+      container = last;
+      this.findNextNonspace();
+      const result = this.continueBlock(container);
+      if (result === 'consumed') {
+        return;
+      }
+      if (result === 'failed') {
+        container = container.parent as Block;
+        break;
+      }
+    }
+
+    this.allClosed = container === this.oldTip;
+    this.lastMatchedContainer = container;
+
+    // Open new blocks until reaching a leaf
+    let matchedLeaf = container.type !== 'paragraph' && this.acceptsLines(container.type);
+    while (!matchedLeaf) {
+      this.findNextNonspace();
+      const tooDeep = blockDepth(container) >= MAX_NESTING_DEPTH;
+      if (tooDeep || (!this.indented && !MAYBE_SPECIAL.test(this.line.slice(this.nextNonspace)))) {
+        this.advanceNextNonspace();
+        break;
+      }
+
+      const started = this.startBlock(container);
+      if (started === 'none') {
+        this.advanceNextNonspace();
+        break;
+      }
+      container = this.tip;
+      matchedLeaf = started === 'leaf';
+    }
+
+    // Add the rest of the line to the innermost block
+    if (!this.allClosed && !this.blank && this.tip.type === 'paragraph') {
+      // Lazy paragraph continuation
+      this.addLine();
+      return;
+    }
+
+    this.closeUnmatchedBlocks();
+    const lastChild = container.children[container.children.length - 1];
+    if (this.blank && lastChild) {
+      lastChild.lastLineBlank = true;
+    }
+
+    const type = container.type;
+    const lastLineBlank = this.blank && !(
+      type === 'blockquote'
+      || (type === 'codeBlock' && container.fenced)
+      || (type === 'item' && container.children.length === 0 && container.startLine === this.lineNumber)
+    );
+    for (let block: Block | null = container; block; block = block.parent) {
+      block.lastLineBlank = lastLineBlank;
+    }
+
+    if (this.acceptsLines(type)) {
+      this.addLine();
+      if (
+        type === 'htmlBlock'
+        && container.htmlType !== undefined
+        && container.htmlType <= 5
+        && HTML_BLOCK_CLOSE[container.htmlType - 1].test(this.line.slice(this.offset))
+      ) {
+        this.finalize(container);
+      }
+    } else if (this.offset < this.line.length && !this.blank) {
+      this.addChild('paragraph');
+      this.advanceNextNonspace();
+      this.addLine();
+    }
+  }
+
+  /**
+   * Check whether the line continues an open block, consuming its markers
+   */
+  private continueBlock(block: Block): 'matched' | 'failed' | 'consumed' {
+    const line = this.line;
+    switch (block.type) {
+      case 'blockquote':
+        if (this.indented || line[this.nextNonspace] !== '>') {
+          return 'failed';
+        }
+        this.advanceNextNonspace();
+        this.advanceOffset(1, false);
+        if (isSpaceOrTab(line[this.offset])) {
+          this.advanceOffset(1, true);
+        }
+        return 'matched';
+      case 'item': {
+        const listData = block.listData as ListData;
+        if (this.blank) {
+          if (block.children.length === 0) {
+            return 'failed';
+          }
+          this.advanceNextNonspace();
+        } else if (this.indent >= listData.markerOffset + listData.padding) {
+          this.advanceOffset(listData.markerOffset + listData.padding, true);
+        } else {
+          return 'failed';
+        }
+        return 'matched';
+      }
+      case 'codeBlock':
+        if (block.fenced) {
+          const match = this.indent <= 3 && line[this.nextNonspace] === block.fenceChar
+            ? line.slice(this.nextNonspace).match(CLOSING_CODE_FENCE)
+            : null;
+          if (match && match[0].length >= (block.fenceLength as number)) {
+            this.finalize(block);
+            return 'consumed';
+          }
+          for (let i = block.fenceOffset as number; i > 0 && isSpaceOrTab(line[this.offset]); i--) {
+            this.advanceOffset(1, true);
+          }
+        } else if (this.indent >= 4) {
+          this.advanceOffset(4, true);
+        } else if (this.blank) {
+          this.advanceNextNonspace();
+        } else {
+          return 'failed';
+        }
+        return 'matched';
+      case 'htmlBlock':
+        return this.blank && (block.htmlType === 6 || block.htmlType === 7) ? 'failed' : 'matched';
+      case 'paragraph':
+        return this.blank ? 'failed' : 'matched';
+      case 'heading':
+      case 'thematicBreak':
+        return 'failed';
+      default:
+        return 'matched';
+    }
+  }
+
+  /**
+   * Try to open a block at the current position
+   */
+  private startBlock(container: Block): 'container' | 'leaf' | 'none' {
+    const line = this.line;
+    const rest = line.slice(this.nextNonspace);
+    let match: RegExpMatchArray | null;
+
+    // Blockquote
+    if (!this.indented && rest[0] === '>') {
+      this.advanceNextNonspace();
+      this.advanceOffset(1, false);
+      if (isSpaceOrTab(line[this.offset])) {
+        this.advanceOffset(1, true);
+      }
+      this.closeUnmatchedBlocks();
+      this.addChild('blockquote');
+      return 'container';
+    }
+
+    // ATX heading
+    if (!this.indented && (match = rest.match(ATX_HEADING))) {
+      this.advanceNextNonspace();
+      this.advanceOffset(match[0].length, false);
+      this.closeUnmatchedBlocks();
+      const heading = this.addChild('heading');
+      heading.level = match[0].trim().length;
+      heading.content = line.slice(this.offset).replace(/^[ \t]*#+[ \t]*$/, '').replace(/[ \t]+#+[ \t]*$/, '');
+      this.advanceOffset(line.length - this.offset, false);
+      return 'leaf';
+    }
+
+    // Fenced code block
+    if (!this.indented && (match = rest.match(CODE_FENCE))) {
+      this.closeUnmatchedBlocks();
+      const code = this.addChild('codeBlock');
+      code.fenced = true;
+      code.fenceLength = match[0].length;
+      code.fenceChar = match[0][0];
+      code.fenceOffset = this.indent;
+      this.advanceNextNonspace();
+      this.advanceOffset(match[0].length, false);
+      return 'leaf';
+    }
+
+    // HTML block
+    if (!this.indented && rest[0] === '<') {
+      for (let type = 1; type <= 7; type++) {
+        const lazyParagraph = !this.allClosed && !this.blank && this.tip.type === 'paragraph';
+        if (HTML_BLOCK_OPEN[type - 1].test(rest) && (type < 7 || (container.type !== 'paragraph' && !lazyParagraph))) {
+          this.closeUnmatchedBlocks();
+          this.addChild('htmlBlock').htmlType = type;
+          return 'leaf';
+        }
+      }
+    }
+
+    // Setext heading underline
+    if (!this.indented && container.type === 'paragraph' && (match = rest.match(SETEXT_HEADING_LINE))) {
+      this.closeUnmatchedBlocks();
+      let consumed: number;
+      while (container.content[0] === '[' && (consumed = parseReference(container.content, this.refmap))) {
+        container.content = container.content.slice(consumed);
+      }
+      if (container.content.length > 0) {
+        const heading = this.createBlock('heading', container.startLine);
+        heading.level = match[0][0] === '=' ? 1 : 2;
+        heading.content = container.content;
+        heading.parent = container.parent;
+        const siblings = (container.parent as Block).children;
+        siblings[siblings.indexOf(container)] = heading;
+        this.tip = heading;
+        this.advanceOffset(line.length - this.offset, false);
+        return 'leaf';
+      }
+    }
+
+    // Thematic break
+    if (!this.indented && THEMATIC_BREAK.test(rest)) {
+      this.closeUnmatchedBlocks();
+      this.addChild('thematicBreak');
+      this.advanceOffset(line.length - this.offset, false);
+      return 'leaf';
+    }
+
+    // List item
+    if (!this.indented || container.type === 'list') {
+      const data = this.parseListMarker(container);
+      if (data) {
+        this.closeUnmatchedBlocks();
+        if (this.tip.type !== 'list' || !listsMatch(this.tip.listData as ListData, data)) {
+          this.addChild('list').listData = data;
+        }
+        this.addChild('item').listData = data;
+        return 'container';
+      }
+    }
+
+    // Indented code block
+    if (this.indented && this.tip.type !== 'paragraph' && !this.blank) {
+      this.advanceOffset(4, true);
+      this.closeUnmatchedBlocks();
+      this.addChild('codeBlock');
+      return 'leaf';
+    }
+
+    return 'none';
+  }
+
+  /**
+   * Parse a list marker and the spaces after it
+   */
+  private parseListMarker(container: Block): ListData | null {
+    const line = this.line;
+    const rest = line.slice(this.nextNonspace);
+    if (this.indent >= 4) {
+      return null;
+    }
+
+    const data: ListData = { ordered: false, markerOffset: this.indent, padding: 0 };
+    let match = rest.match(/^[*+-]/);
+    if (match) {
+      data.bulletChar = match[0];
+    } else if ((match = rest.match(/^(\d{1,9})([.)])/)) && (container.type !== 'paragraph' || match[1] === '1')) {
+      data.ordered = true;
+      data.delimiter = match[2];
+    } else {
+      return null;
+    }
+
+    const markerLength = match[0].length;
+    const after = line[this.nextNonspace + markerLength];
+    if (after !== undefined && !isSpaceOrTab(after)) {
+      return null;
+    }
+    // An empty item cannot interrupt a paragraph
+    if (container.type === 'paragraph' && !/[^ \t]/.test(line.slice(this.nextNonspace + markerLength))) {
+      return null;
+    }
+
+    this.advanceNextNonspace();
+    this.advanceOffset(markerLength, true);
+    const spacesStartColumn = this.column;
+    const spacesStartOffset = this.offset;
+    do {
+      this.advanceOffset(1, true);
+    } while (this.column - spacesStartColumn < 5 && isSpaceOrTab(line[this.offset]));
+
+    const blankItem = line[this.offset] === undefined;
+    const spacesAfterMarker = this.column - spacesStartColumn;
+    if (spacesAfterMarker >= 5 || spacesAfterMarker < 1 || blankItem) {
+      // Content starts one space after the marker; the rest is indentation of the content
+      data.padding = markerLength + 1;
+      this.column = spacesStartColumn;
+      this.offset = spacesStartOffset;
+      if (isSpaceOrTab(line[this.offset])) {
+        this.advanceOffset(1, true);
+      }
+    } else {
+      data.padding = markerLength + spacesAfterMarker;
+    }
+    return data;
+  }
+
+  private acceptsLines(type: BlockType): boolean {
+    return type === 'paragraph' || type === 'codeBlock' || type === 'htmlBlock';
+  }
+
+  private findNextNonspace(): void {
+    const line = this.line;
+    let i = this.offset;
+    let columns = this.column;
+    let char: string | undefined;
+    while ((char = line[i]) !== undefined) {
+      if (char === ' ') {
+        i++;
+        columns++;
+      } else if (char === '\t') {
+        i++;
+        columns += 4 - (columns % 4);
+      } else {
+        break;
+      }
+    }
+    this.blank = char === undefined;
+    this.nextNonspace = i;
+    this.nextNonspaceColumn = columns;
+    this.indent = columns - this.column;
+    this.indented = this.indent >= 4;
+  }
+
+  private advanceNextNonspace(): void {
+    this.offset = this.nextNonspace;
+    this.column = this.nextNonspaceColumn;
+    this.partiallyConsumedTab = false;
+  }
+
+  /**
+   * Advance by characters, or by columns so that tabs count as up to four spaces
+   */
+  private advanceOffset(count: number, columns: boolean): void {
+    let char: string | undefined;
+    while (count > 0 && (char = this.line[this.offset]) !== undefined) {
+      if (char === '\t') {
+        const charsToTab = 4 - (this.column % 4);
+        if (columns) {
+          this.partiallyConsumedTab = charsToTab > count;
+          const advance = Math.min(charsToTab, count);
+          this.column += advance;
+          this.offset += this.partiallyConsumedTab ? 0 : 1;
+          count -= advance;
+        } else {
+          this.partiallyConsumedTab = false;
+          this.column += charsToTab;
+          this.offset += 1;
+          count -= 1;
+        }
+      } else {
+        this.partiallyConsumedTab = false;
+        this.offset += 1;
+        this.column += 1;
+        count -= 1;
+      }
+    }
+  }
+
+  private addLine(): void {
+    if (this.partiallyConsumedTab) {
+      // Expand the rest of a tab that was partly used as indentation
+      this.offset += 1;
+      this.tip.content += ' '.repeat(4 - (this.column % 4));
+    }
+    this.tip.content += this.line.slice(this.offset) + '\n';
+  }
+
+  /**
+   * Add a block to the tip, closing blocks that cannot contain it
+   */
+  private addChild(type: BlockType): Block {
+    while (!canContain(this.tip.type, type)) {
+      this.finalize(this.tip);
+    }
+    const block = this.createBlock(type, this.lineNumber);
+    block.parent = this.tip;
+    this.tip.children.push(block);
+    this.tip = block;
+    return block;
+  }
+
+  private closeUnmatchedBlocks(): void {
+    if (!this.allClosed) {
+      while (this.oldTip !== this.lastMatchedContainer) {
+        const parent = this.oldTip.parent as Block;
+        this.finalize(this.oldTip);
+        this.oldTip = parent;
+      }
+      this.allClosed = true;
+    }
+  }
+
+  /**
+   * Close a block and post-process its content
+   */
+  private finalize(block: Block): void {
+    const parent = block.parent;
+    block.open = false;
+
+    switch (block.type) {
+      case 'paragraph': {
+        let consumed: number;
+        let hasReference = false;
+        while (block.content[0] === '[' && (consumed = parseReference(block.content, this.refmap))) {
+          block.content = block.content.slice(consumed);
+          hasReference = true;
+        }
+        if (hasReference && /^[ \t\n]*$/.test(block.content) && parent) {
+          parent.children.splice(parent.children.indexOf(block), 1);
+        }
+        break;
+      }
+      case 'codeBlock':
+        if (block.fenced) {
+          // The first line holds the info string
+          const newline = block.content.indexOf('\n');
+          block.content = block.content.slice(newline + 1);
+        } else {
+          block.content = block.content.replace(/(\n *)+$/, '\n');
+        }
+        break;
+      case 'list':
+        block.tight = block.children.every((item, i) =>
+          !(i < block.children.length - 1 && endsWithBlankLine(item))
+          && item.children.every((child, j) => !(j < item.children.length - 1 && endsWithBlankLine(child)))
+        );
+        break;
+    }
+
+    this.tip = parent ?? this.doc;
+  }
+}
+
+/**
+ * Number of blocks a block is nested in, not counting the document
+ */
+function blockDepth(block: Block): number {
+  let depth = 0;
+  for (let parent = block.parent; parent; parent = parent.parent) depth++;
+  return depth;
+}
+
+/**
+ * Nesting depth of emphasis, links and images in inline content
+ */
+function inlineDepth(inlines: Inline[]): number {
+  return inlines.reduce((depth, inline) => Math.max(depth, inline.depth ?? 0), 0);
+}
+
+/**
+ * Whether a block of one type may hold a block of another
+ */
+function canContain(parent: BlockType, child: BlockType): boolean {
+  switch (parent) {
+    case 'document':
+    case 'blockquote':
+    case 'item':
+      return child !== 'item';
+    case 'list':
+      return child === 'item';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether two list markers belong to the same list
+ */
+function listsMatch(list: ListData, item: ListData): boolean {
+  return list.ordered === item.ordered && list.delimiter === item.delimiter && list.bulletChar === item.bulletChar;
+}
+
+/**
+ * Whether a block ends with a blank line, looking into the last item of lists
+ */
+function endsWithBlankLine(block: Block): boolean {
+  if (block.lastLineBlank) {
+    return true;
+  }
+  const last = block.children[block.children.length - 1];
+  return (block.type === 'list' || block.type === 'item') && last !== undefined && endsWithBlankLine(last);
+}
+
+/** Sticky versions of the scanner's anchored patterns */
+const stickyPatterns = new Map<RegExp, RegExp>();
+
+/**
+ * Scanner shared by the inline parser and link reference definitions
+ */
+class Scanner {
+  constructor(public subject: string, public pos = 0) {}
+
+  peek(): string | undefined {
+    return this.subject[this.pos];
+  }
+
+  /**
+   * Match an anchored (^) pattern at the current position without advancing
+   */
+  exec(pattern: RegExp): RegExpExecArray | null {
+    let sticky = stickyPatterns.get(pattern);
+    if (!sticky) {
+      sticky = new RegExp(pattern.source.replace(/^\^/, ''), pattern.flags.replace('g', '') + 'y');
+      stickyPatterns.set(pattern, sticky);
+    }
+    sticky.lastIndex = this.pos;
+    return sticky.exec(this.subject);
+  }
+
+  /**
+   * Match an anchored (^) pattern at the current position and advance past it
+   */
+  match(pattern: RegExp): string | null {
+    const match = this.exec(pattern);
+    if (!match) {
+      return null;
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Find the next match of a global pattern and advance past it
+   */
+  search(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.subject);
+    if (!match) {
+      return null;
+    }
+    this.pos = match.index + match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Skip spaces and at most one newline
+   */
+  spnl(): void {
+    this.match(/^ *(?:\n *)?/);
+  }
+
+  /**
+   * Length of a link label at the current position, or 0
+   */
+  linkLabelLength(): number {
+    const match = this.exec(/^\[(?:[^\\[\]]|\\.){0,999}\]/s);
+    return match ? match[0].length : 0;
+  }
+
+  /**
+   * Parse a link destination, returning null if there is none
+   */
+  linkDestination(): string | null {
+    const angled = this.match(/^<(?:[^<>\n\\\x00]|\\.)*>/);
+    if (angled !== null) {
+      return unescapeString(angled.slice(1, -1));
+    }
+    if (this.peek() === '<') {
+      return null;
+    }
+
+    const start = this.pos;
+    let openParens = 0;
+    let char: string | undefined;
+    while ((char = this.peek()) !== undefined) {
+      if (char === '\\' && ESCAPABLE.test(this.subject[this.pos + 1] ?? '')) {
+        this.pos += 2;
+      } else if (char === '(') {
+        if (++openParens > 32) return null;
+        this.pos += 1;
+      } else if (char === ')') {
+        if (openParens < 1) break;
+        openParens--;
+        this.pos += 1;
+      } else if (/[\x00-\x20]/.test(char)) {
+        break;
+      } else {
+        this.pos += 1;
+      }
+    }
+    if ((this.pos === start && char !== ')') || openParens !== 0) {
+      return null;
+    }
+    return unescapeString(this.subject.slice(start, this.pos));
+  }
+
+  /**
+   * Parse a link title, returning null if there is none
+   */
+  linkTitle(): string | null {
+    const title = this.match(/^(?:"(?:\\.|[^"\\\x00])*"|'(?:\\.|[^'\\\x00])*'|\((?:\\.|[^()\\\x00])*\))/s);
+    return title === null ? null : unescapeString(title.slice(1, -1));
+  }
+}
+
+/**
+ * Parse a link reference definition at the start of text into the reference map
+ *
+ * @returns Number of characters consumed, or 0 if there is no definition
+ */
+function parseReference(text: string, refmap: Record<string, string>): number {
+  const scanner = new Scanner(text);
+  const labelLength = scanner.linkLabelLength();
+  if (labelLength === 0) {
+    return 0;
+  }
+  const label = text.slice(0, labelLength);
+  scanner.pos = labelLength;
+  if (scanner.peek() !== ':') {
+    return 0;
+  }
+  scanner.pos++;
+  scanner.spnl();
+
+  const destination = scanner.linkDestination();
+  if (destination === null) {
+    return 0;
+  }
+
+  const beforeTitle = scanner.pos;
+  scanner.spnl();
+  let title = scanner.pos !== beforeTitle ? scanner.linkTitle() : null;
+  if (title === null) {
+    scanner.pos = beforeTitle;
+  }
+
+  let atLineEnd = scanner.match(/^[ \t]*(?:\n|$)/) !== null;
+  if (!atLineEnd && title !== null) {
+    // The title must end the line; without it the destination may still do so
+    title = null;
+    scanner.pos = beforeTitle;
+    atLineEnd = scanner.match(/^[ \t]*(?:\n|$)/) !== null;
+  }
+  if (!atLineEnd) {
+    return 0;
+  }
+
+  const key = normalizeReference(label);
+  if (key === '') {
+    return 0;
+  }
+  if (!(key in refmap)) {
+    refmap[key] = destination;
+  }
+  return scanner.pos;
+}
+
+/**
+ * Parser for inline content of paragraphs and headings
+ */
+class InlineParser {
+  private scanner = new Scanner('');
+  private nodes: Inline[] = [];
+  private delimiters: Delimiter | null = null;
+  private brackets: Bracket | null = null;
+
+  constructor(private readonly refmap: Record<string, string>) {}
+
+  /**
+   * Parse inline content
+   */
+  parse(subject: string): Inline[] {
+    this.scanner = new Scanner(subject);
+    this.nodes = [];
+    this.delimiters = null;
+    this.brackets = null;
+
+    while (this.scanner.pos < subject.length) {
+      if (!this.parseInline()) {
+        this.text(subject[this.scanner.pos++]);
+      }
+    }
+    this.processEmphasis(null);
+    return linkify(this.nodes);
+  }
+
+  private text(value: string, literal = false): Inline {
+    const node: Inline = { type: 'text', value, literal };
+    this.nodes.push(node);
+    return node;
+  }
+
+  private parseInline(): boolean {
+    switch (this.scanner.peek()) {
+      case '\n':
+        return this.parseNewline();
+      case '\\':
+        return this.parseBackslash();
+      case '`':
+        return this.parseBackticks();
+      case '*':
+      case '_':
+      case '~':
+        return this.handleDelimiters();
+      case '[':
+        this.addBracket(this.text('['), this.scanner.pos++, false);
+        return true;
+      case '!':
+        return this.parseBang();
+      case ']':
+        return this.parseCloseBracket();
+      case '<':
+        return this.parseAutolink() || this.parseHtmlTag();
+      case '&':
+        return this.parseEntity();
+      default:
+        return this.parseString();
+    }
+  }
+
+  private parseString(): boolean {
+    const text = this.scanner.match(/^[^\n`[\]\\!<&*_~]+/);
+    if (text === null) {
+      return false;
+    }
+    this.text(text);
+    return true;
+  }
+
+  /**
+   * Soft break, or hard break after two or more spaces
+   */
+  private parseNewline(): boolean {
+    this.scanner.pos++;
+    const last = this.nodes[this.nodes.length - 1];
+    let hard = false;
+    if (last?.type === 'text' && !last.literal && last.value?.endsWith(' ')) {
+      hard = / {2,}$/.test(last.value);
+      last.value = last.value.replace(/ +$/, '');
+    }
+    this.nodes.push({ type: hard ? 'hardbreak' : 'softbreak' });
+    // Spaces at the start of the next line are not content
+    this.scanner.match(/^ */);
+    return true;
+  }
+
+  private parseBackslash(): boolean {
+    const scanner = this.scanner;
+    scanner.pos++;
+    const next = scanner.peek();
+    if (next === '\n') {
+      scanner.pos++;
+      this.nodes.push({ type: 'hardbreak' });
+      scanner.match(/^ */);
+    } else if (next !== undefined && ESCAPABLE.test(next)) {
+      scanner.pos++;
+      this.text(next, true);
+    } else {
+      this.text('\\');
+    }
+    return true;
+  }
+
+  private parseBackticks(): boolean {
+    const scanner = this.scanner;
+    const ticks = scanner.match(/^`+/) as string;
+    const afterOpen = scanner.pos;
+    let closing: string | null;
+    while ((closing = scanner.search(/`+/g)) !== null) {
+      if (closing === ticks) {
+        let code = scanner.subject.slice(afterOpen, scanner.pos - ticks.length).replace(/\n/g, ' ');
+        if (code.length > 2 && code[0] === ' ' && code[code.length - 1] === ' ' && /[^ ]/.test(code)) {
+          code = code.slice(1, -1);
+        }
+        this.nodes.push({ type: 'code', value: code });
+        return true;
+      }
+    }
+    // No matching run: the backticks are literal
+    scanner.pos = afterOpen;
+    this.text(ticks);
+    return true;
+  }
+
+  /**
+   * Push a run of *, _ or ~ onto the delimiter stack
+   */
+  private handleDelimiters(): boolean {
+    const scanner = this.scanner;
+    const char = scanner.peek() as string;
+    const start = scanner.pos;
+    const run = scanner.match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/) as string;
+
+    const before = start === 0 ? '' : scanner.subject[start - 1];
+    const after = scanner.subject[scanner.pos] ?? '';
+    const leftFlanking = !isWhitespace(after)
+      && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+    const rightFlanking = !isWhitespace(before)
+      && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+    let canOpen = leftFlanking;
+    let canClose = rightFlanking;
+    if (char === '_') {
+      canOpen = leftFlanking && (!rightFlanking || isPunctuation(before));
+      canClose = rightFlanking && (!leftFlanking || isPunctuation(after));
+    } else if (char === '~' && run.length > 2) {
+      canOpen = false;
+      canClose = false;
+    }
+
+    const node = this.text(run);
+    if (canOpen || canClose) {
+      this.delimiters = {
+        char,
+        count: run.length,
+        originalCount: run.length,
+        node,
+        previous: this.delimiters,
+        next: null,
+        canOpen,
+        canClose,
+      };
+      if (this.delimiters.previous) {
+        this.delimiters.previous.next = this.delimiters;
+      }
+    }
+    return true;
+  }
+
+  private removeDelimiter(delimiter: Delimiter): void {
+    if (delimiter.previous) {
+      delimiter.previous.next = delimiter.next;
+    }
+    if (delimiter.next) {
+      delimiter.next.previous = delimiter.previous;
+    } else {
+      this.delimiters = delimiter.previous;
+    }
+  }
+
+  /**
+   * Match emphasis and strikethrough delimiters above the stack bottom
+   */
+  private processEmphasis(stackBottom: Delimiter | null): void {
+    const openersBottom: Record<string, Delimiter | null> = {};
+
+    let closer = this.delimiters;
+    while (closer && closer.previous !== stackBottom) {
+      closer = closer.previous;
+    }
+
+    while (closer) {
+      if (!closer.canClose) {
+        closer = closer.next;
+        continue;
+      }
+
+      const key = closer.char === '~'
+        ? `~${closer.count}`
+        : `${closer.char}${closer.canOpen ? 1 : 0}${closer.originalCount % 3}`;
+      let opener = closer.previous;
+      let openerFound = false;
+      while (opener && opener !== stackBottom && opener !== openersBottom[key]) {
+        const oddMatch = closer.char !== '~'
+          && (closer.canOpen || opener.canClose)
+          && closer.originalCount % 3 !== 0
+          && (opener.originalCount + closer.originalCount) % 3 === 0;
+        const sameLength = closer.char !== '~' || opener.count === closer.count;
+        if (opener.char === closer.char && opener.canOpen && !oddMatch && sameLength) {
+          openerFound = true;
+          break;
+        }
+        opener = opener.previous;
+      }
+
+      const oldCloser = closer;
+      // Emphasis that would nest too deep is left as text
+      const start = opener && openerFound ? this.nodes.indexOf(opener.node) : -1;
+      const between = start === -1 ? [] : this.nodes.slice(start + 1, this.nodes.indexOf(closer.node));
+      if (opener && openerFound && inlineDepth(between) < MAX_NESTING_DEPTH) {
+        const used = closer.char === '~' ? closer.count : closer.count >= 2 && opener.count >= 2 ? 2 : 1;
+        const type = closer.char === '~' ? 'del' : used === 2 ? 'strong' : 'emph';
+        opener.count -= used;
+        closer.count -= used;
+        opener.node.value = (opener.node.value as string).slice(used);
+        closer.node.value = (closer.node.value as string).slice(used);
+
+        // Wrap everything between the delimiters
+        this.nodes.splice(start + 1, between.length, { type, children: between, depth: inlineDepth(between) + 1 });
+
+        // Delimiters in between can no longer match
+        opener.next = closer;
+        closer.previous = opener;
+
+        if (opener.count === 0) {
+          this.nodes.splice(this.nodes.indexOf(opener.node), 1);
+          this.removeDelimiter(opener);
+        }
+        if (closer.count === 0) {
+          this.nodes.splice(this.nodes.indexOf(closer.node), 1);
+          const next = closer.next;
+          this.removeDelimiter(closer);
+          closer = next;
+        }
+      } else {
+        closer = closer.next;
+        openersBottom[key] = oldCloser.previous;
+        if (!oldCloser.canOpen) {
+          this.removeDelimiter(oldCloser);
+        }
+      }
+    }
+
+    while (this.delimiters && this.delimiters !== stackBottom) {
+      this.removeDelimiter(this.delimiters);
+    }
+  }
+
+  private addBracket(node: Inline, index: number, image: boolean): void {
+    if (this.brackets) {
+      this.brackets.bracketAfter = true;
+    }
+    this.brackets = {
+      node,
+      previous: this.brackets,
+      previousDelimiter: this.delimiters,
+      index,
+      image,
+      active: true,
+      bracketAfter: false,
+    };
+  }
+
+  private parseBang(): boolean {
+    const scanner = this.scanner;
+    const start = scanner.pos++;
+    if (scanner.peek() === '[') {
+      scanner.pos++;
+      this.addBracket(this.text('!['), start + 1, true);
+    } else {
+      this.text('!');
+    }
+    return true;
+  }
+
+  /**
+   * Close a link or image, or treat ] as text
+   */
+  private parseCloseBracket(): boolean {
+    const scanner = this.scanner;
+    const start = scanner.pos++;
+    const opener = this.brackets;
+
+    if (!opener) {
+      this.text(']');
+      return true;
+    }
+    if (!opener.active) {
+      this.text(']');
+      this.brackets = opener.previous;
+      return true;
+    }
+
+    let destination: string | null = null;
+    const afterBracket = scanner.pos;
+
+    // Inline link: [text](destination "title")
+    if (scanner.peek() === '(') {
+      scanner.pos++;
+      scanner.spnl();
+      destination = scanner.linkDestination();
+      if (destination !== null) {
+        scanner.spnl();
+        // A title needs whitespace before it
+        if (/\s/.test(scanner.subject[scanner.pos - 1])) {
+          scanner.linkTitle();
+        }
+        scanner.spnl();
+      }
+      if (destination === null || scanner.peek() !== ')') {
+        destination = null;
+        scanner.pos = afterBracket;
+      } else {
+        scanner.pos++;
+      }
+    }
+
+    // Reference link: [text][label], [label][] or [label]
+    if (destination === null) {
+      const labelLength = scanner.linkLabelLength();
+      let label: string | undefined;
+      if (labelLength > 2) {
+        label = scanner.subject.slice(scanner.pos, scanner.pos + labelLength);
+      } else if (!opener.bracketAfter) {
+        label = scanner.subject.slice(opener.index, start + 1);
+      }
+      scanner.pos = labelLength > 0 ? scanner.pos + labelLength : afterBracket;
+      const key = label === undefined ? undefined : normalizeReference(label);
+      if (key !== undefined && key in this.refmap) {
+        destination = this.refmap[key];
+      } else {
+        scanner.pos = afterBracket;
+      }
+    }
+
+    if (destination === null) {
+      this.brackets = opener.previous;
+      this.text(']');
+      return true;
+    }
+
+    // Emphasis inside the link text is resolved before the text moves into the link
+    this.processEmphasis(opener.previousDelimiter);
+    const index = this.nodes.indexOf(opener.node);
+    if (inlineDepth(this.nodes.slice(index + 1)) >= MAX_NESTING_DEPTH) {
+      // Too deep: the brackets and destination stay text
+      scanner.pos = afterBracket;
+      this.brackets = opener.previous;
+      this.text(']');
+      return true;
+    }
+    const children = this.nodes.splice(index + 1);
+    this.nodes.pop();
+    this.nodes.push({ type: opener.image ? 'image' : 'link', destination, children, depth: inlineDepth(children) + 1 });
+    this.brackets = opener.previous;
+
+    // Links cannot contain other links
+    if (!opener.image) {
+      for (let bracket = this.brackets; bracket; bracket = bracket.previous) {
+        if (!bracket.image) bracket.active = false;
+      }
+    }
+    return true;
+  }
+
+  private parseAutolink(): boolean {
+    const email = this.scanner.match(
+      /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/
+    );
+    if (email !== null) {
+      const address = email.slice(1, -1);
+      this.nodes.push({ type: 'link', destination: `mailto:${address}`, children: [{ type: 'text', value: address }] });
+      return true;
+    }
+
+    const url = this.scanner.match(/^<[A-Za-z][A-Za-z0-9.+-]{1,31}:[^<>\x00-\x20]*>/);
+    if (url !== null) {
+      const destination = url.slice(1, -1);
+      this.nodes.push({ type: 'link', destination, children: [{ type: 'text', value: destination }] });
+      return true;
+    }
+    return false;
+  }
+
+  private parseHtmlTag(): boolean {
+    const html = this.scanner.match(HTML_TAG);
+    if (html === null) {
+      return false;
+    }
+    this.nodes.push({ type: 'html', value: html });
+    return true;
+  }
+
+  private parseEntity(): boolean {
+    const entity = this.scanner.match(ENTITY);
+    if (entity === null) {
+      return false;
+    }
+    this.text(decodeHtmlEntities(entity), true);
+    return true;
+  }
+}
+
+/**
+ * Turn bare URLs, www. domains and email addresses in text into links (GFM autolinks)
+ */
+function linkify(nodes: Inline[]): Inline[] {
+  const result: Inline[] = [];
+  for (const node of nodes) {
+    const previous = result[result.length - 1];
+    if (node.type === 'text' && !node.literal && previous?.type === 'text' && !previous.literal) {
+      // Join text split by unmatched delimiters so URLs can span it
+      previous.value += node.value as string;
+    } else if (node.children && node.type !== 'link' && node.type !== 'image') {
+      result.push({ ...node, children: linkify(node.children) });
+    } else {
+      result.push(node.type === 'text' ? { ...node } : node);
+    }
+  }
+
+  return result.flatMap(node => (node.type === 'text' && !node.literal ? linkifyText(node.value as string) : [node]));
+}
+
+/**
+ * Split text into text and autolinks
+ */
+function linkifyText(text: string): Inline[] {
+  const result: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(EXTENDED_AUTOLINK)) {
+    const start = match.index as number;
+    const before = text[start - 1];
+    if (before !== undefined && !/[\s*_~(]/.test(before)) {
+      continue;
+    }
+
+    let link = match[0];
+    const email = !/^(?:https?:\/\/|www\.)/.test(link);
+    if (email) {
+      link = link.replace(/\.+$/, '');
+      if (/[-_]$/.test(link)) continue;
+    } else {
+      link = trimAutolink(link);
+      // A valid domain has at least one period and no underscores in its last two segments
+      const segments = link.replace(/^https?:\/\//, '').split(/[/?#]/)[0].split('.');
+      if (
+        segments.length < 2
+        || segments.some(segment => !/^[\w-]+$/.test(segment))
+        || segments.slice(-2).some(segment => segment.includes('_'))
+      ) {
+        continue;
+      }
+    }
+
+    if (start > last) {
+      result.push({ type: 'text', value: text.slice(last, start) });
+    }
+    const destination = email ? `mailto:${link}` : link.startsWith('www.') ? `http://${link}` : link;
+    result.push({ type: 'link', destination, children: [{ type: 'text', value: link }] });
+    last = start + link.length;
+  }
+  if (last < text.length) {
+    result.push({ type: 'text', value: text.slice(last) });
+  }
+  return result;
+}
+
+/**
+ * Drop trailing punctuation, unbalanced parentheses and entity-like suffixes from a URL
+ */
+function trimAutolink(link: string): string {
+  for (;;) {
+    if (AUTOLINK_TRAILING.test(link)) {
+      link = link.slice(0, -1);
+    } else if (link.endsWith(')') && (link.match(/\)/g) || []).length > (link.match(/\(/g) || []).length) {
+      link = link.slice(0, -1);
+    } else if (/&[a-z0-9]+;$/i.test(link)) {
+      link = link.replace(/&[a-z0-9]+;$/i, '');
+    } else {
+      return link;
+    }
+  }
+}
+
+/**
+ * Plain text of inline content, used for image alt text
+ */
+function plainText(inlines: Inline[]): string {
+  return inlines
+    .map(inline => {
+      if (inline.children) return plainText(inline.children);
+      if (inline.type === 'softbreak') return '\n';
+      return inline.type === 'text' || inline.type === 'code' ? inline.value : '';
+    })
+    .join('');
+}
+
+/**
+ * Convert inline content to Telegraph nodes, pairing inline HTML start and end tags
+ */
+function inlinesToNodes(inlines: Inline[]): Node[] {
+  const root: Node[] = [];
+  const open: NodeElement[] = [];
+
+  const append = (node: Node) => {
+    const parent = open[open.length - 1];
+    const list = parent ? (parent.children = parent.children || []) : root;
+    if (typeof node === 'string' && typeof list[list.length - 1] === 'string') {
+      list[list.length - 1] += node;
+    } else if (node !== '') {
+      list.push(node);
+    }
+  };
+
+  for (const inline of inlines) {
+    switch (inline.type) {
+      case 'text':
+        append(inline.value as string);
+        break;
+      case 'softbreak':
+        append('\n');
+        break;
+      case 'hardbreak':
+        append({ tag: 'br' });
+        break;
+      case 'code':
+        append(element('code', [inline.value as string].filter(Boolean)));
+        break;
+      case 'emph':
+      case 'strong':
+      case 'del':
+        append(element({ emph: 'i', strong: 'b', del: 's' }[inline.type], inlinesToNodes(inline.children || [])));
+        break;
+      case 'link':
+        append(element('a', inlinesToNodes(inline.children || []), { href: normalizeUri(inline.destination as string) }));
+        break;
+      case 'image':
+        append(element('img', [], { src: normalizeUri(inline.destination as string) }));
+        break;
+      case 'html':
+        for (const token of tokenizeHtml(inline.value as string)) {
+          if (token.type === 'startTag') {
+            const node = element(token.name, [], token.attrs);
+            append(node);
+            // Elements past the nesting limit are left empty, with their content after them
+            if (!VOID_ELEMENTS.includes(token.name) && !token.selfClosing && open.length < MAX_NESTING_DEPTH) {
+              open.push(node);
+            }
+          } else if (token.type === 'endTag') {
+            const index = open.map(node => node.tag).lastIndexOf(token.name);
+            if (index !== -1) {
+              open.length = index;
+            }
+          } else if (token.type === 'text') {
+            append(token.value);
+          }
+        }
+        break;
+    }
+  }
+  return root;
+}
+
+/**
+ * Convert blocks to Telegraph nodes
+ *
+ * @param tight - Blocks are the content of a tight list item, so paragraphs are unwrapped
+ */
+function blocksToNodes(blocks: Block[], tight: boolean, inlineParser: InlineParser): Node[] {
+  return blocks.flatMap(block => blockToNodes(block, tight, inlineParser));
+}
+
+/**
+ * Convert a block to Telegraph nodes
+ */
+function blockToNodes(block: Block, tight: boolean, inlineParser: InlineParser): Node[] {
+  switch (block.type) {
+    case 'paragraph': {
+      const inlines = inlineParser.parse(block.content.replace(/^[ \t\n]+|[ \t\n]+$/g, ''));
+      const [image] = inlines;
+      if (inlines.length === 1 && image.type === 'image') {
+        const alt = plainText(image.children || []);
+        return [element('figure', [
+          element('img', [], { src: normalizeUri(image.destination as string) }),
+          ...(alt ? [element('figcaption', [alt])] : []),
+        ])];
+      }
+      const children = inlinesToNodes(inlines);
+      return tight ? children : [element('p', children)];
+    }
+    case 'heading': {
+      const inlines = inlineParser.parse(block.content.replace(/^[ \t\n]+|[ \t\n]+$/g, ''));
+      return [element(block.level === 1 ? 'h3' : 'h4', inlinesToNodes(inlines))];
+    }
+    case 'thematicBreak':
+      return [element('hr')];
+    case 'codeBlock': {
+      const text = block.content.replace(/\n$/, '');
+      return [element('pre', text ? [text] : [])];
+    }
+    case 'htmlBlock':
+      return parseHtml(block.content.replace(/\n$/, ''));
+    case 'blockquote': {
+      const [only] = block.children;
+      const children = block.children.length === 1 && only.type === 'paragraph'
+        ? blockToNodes(only, true, inlineParser)
+        : blocksToNodes(block.children, false, inlineParser);
+      return [element('blockquote', children)];
+    }
+    case 'list': {
+      const items = block.children.map(item => element('li', blocksToNodes(item.children, !!block.tight, inlineParser)));
+      return [element(block.listData?.ordered ? 'ol' : 'ul', items)];
+    }
+    default:
+      return [];
+  }
+}
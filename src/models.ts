@@ -0,0 +1,122 @@
+/**
+ * Response Model Mappers
+ * Convert Telegraph API objects between snake_case and camelCase
+ */
+
+import type {
+  Account,
+  Page,
+  PageList,
+  CamelAccount,
+  CamelPage,
+  CamelPageList,
+} from './types.js';
+
+/**
+ * Copy defined values from source keys to target keys
+ */
+function mapKeys<T>(source: object, keys: Record<string, string>): T {
+  const input = source as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [from, to] of Object.entries(keys)) {
+    if (input[from] !== undefined) {
+      result[to] = input[from];
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Invert a key mapping
+ */
+function invert(keys: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(keys).map(([from, to]) => [to, from]));
+}
+
+const ACCOUNT_KEYS: Record<string, string> = {
+  short_name: 'shortName',
+  author_name: 'authorName',
+  author_url: 'authorUrl',
+  access_token: 'accessToken',
+  auth_url: 'authUrl',
+  page_count: 'pageCount',
+};
+
+const PAGE_KEYS: Record<string, string> = {
+  path: 'path',
+  url: 'url',
+  title: 'title',
+  description: 'description',
+  author_name: 'authorName',
+  author_url: 'authorUrl',
+  image_url: 'imageUrl',
+  content: 'content',
+  views: 'views',
+  can_edit: 'canEdit',
+};
+
+/**
+ * Convert an Account to camelCase
+ *
+ * @param account - Account object as returned by the API
+ * @returns CamelAccount object
+ */
+export function toCamelAccount(account: Account): CamelAccount {
+  return mapKeys<CamelAccount>(account, ACCOUNT_KEYS);
+}
+
+/**
+ * Convert a camelCase account back to the API's snake_case Account
+ *
+ * @param account - CamelAccount object
+ * @returns Account object
+ */
+export function toSnakeAccount(account: CamelAccount): Account {
+  return mapKeys<Account>(account, invert(ACCOUNT_KEYS));
+}
+
+/**
+ * Convert a Page to camelCase
+ *
+ * @param page - Page object as returned by the API
+ * @returns CamelPage object
+ */
+export function toCamelPage(page: Page): CamelPage {
+  return mapKeys<CamelPage>(page, PAGE_KEYS);
+}
+
+/**
+ * Convert a camelCase page back to the API's snake_case Page
+ *
+ * @param page - CamelPage object
+ * @returns Page object
+ */
+export function toSnakePage(page: CamelPage): Page {
+  return mapKeys<Page>(page, invert(PAGE_KEYS));
+}
+
+/**
+ * Convert a PageList to camelCase
+ *
+ * @param pageList - PageList object as returned by the API
+ * @returns CamelPageList object
+ */
+export function toCamelPageList(pageList: PageList): CamelPageList {
+  return {
+    totalCount: pageList.total_count,
+    pages: pageList.pages.map(toCamelPage),
+  };
+}
+
+/**
+ * Convert a camelCase page list back to the API's snake_case PageList
+ *
+ * @param pageList - CamelPageList object
+ * @returns PageList object
+ */
+export function toSnakePageList(pageList: CamelPageList): PageList {
+  return {
+    total_count: pageList.totalCount,
+    pages: pageList.pages.map(toSnakePage),
+  };
+}
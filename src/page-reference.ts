@@ -0,0 +1,111 @@
+/**
+ * Page References
+ * Resolve page paths, telegra.ph / graph.org URLs and Page objects to the path the API expects
+ */
+
+import { TelegraphValidationError } from './errors.js';
+import type { PageReference } from './types.js';
+
+/** Links to telegra.ph pages: optional origin, the path, then an optional query or fragment */
+const PAGE_LINK = /^((?:https?:)?\/\/(?:www\.)?(?:telegra\.ph|graph\.org))?\/([^/?#]+)([?#].*)?$/i;
+
+/** Page URLs as pasted: optional scheme, then a Telegraph host, then everything after it */
+const PAGE_URL = /^(?:https?:\/\/|\/\/)?(?:www\.)?(?:telegra\.ph|graph\.org)(?=[/?#]|$)(.*)$/i;
+
+/** Path part of a page URL, or a bare path: one segment, then an optional query or fragment */
+const PAGE_PATH = /^\/?([^/?#]+)\/?(?:[?#].*)?$/;
+
+/**
+ * Link to a Telegraph page, split into its parts
+ */
+export interface PageLink {
+  /** Origin as written, such as "https://telegra.ph" (empty for relative links) */
+  origin: string;
+  /** Decoded page path */
+  path: string;
+  /** Query and fragment as written, such as "#Section" */
+  suffix: string;
+}
+
+/**
+ * Parse a link to a Telegraph page (telegra.ph or graph.org URL, or a relative /path)
+ *
+ * Used for links inside page content, so it never throws: malformed escapes are kept as
+ * written and anything else returns undefined.
+ *
+ * @param href - Link target
+ * @returns Link parts, or undefined if href does not point at a page
+ */
+export function parsePageLink(href: string): PageLink | undefined {
+  const match = PAGE_LINK.exec(href);
+  if (!match) return undefined;
+
+  let path = match[2];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return { origin: match[1] ?? '', path, suffix: match[3] ?? '' };
+}
+
+/**
+ * Get the page path a page reference points at
+ *
+ * Accepts a bare path (`Sample-Page-12-15`), a telegra.ph or graph.org URL with or
+ * without a scheme, query or fragment (`https://telegra.ph/Sample-Page-12-15?foo#bar`),
+ * or a Page object. Paths in URLs are percent-decoded; bare paths are used as written.
+ *
+ * @param reference - Path, URL or Page object
+ * @param method - API method the path is for, recorded on the error
+ * @returns Page path
+ * @throws {TelegraphValidationError} If the reference does not point at a Telegraph page (PAGE_REFERENCE_INVALID)
+ *
+ * @example
+ * ```typescript
+ * resolvePagePath('https://graph.org/Sample-Page-12-15#Intro'); // 'Sample-Page-12-15'
+ * resolvePagePath(page);                                         // page.path
+ * ```
+ */
+export function resolvePagePath(reference: PageReference, method?: string): string {
+  const fail = (reason: string): never => {
+    const shown = typeof reference === 'string' ? JSON.stringify(reference) : 'object';
+    throw new TelegraphValidationError(`Invalid page reference ${shown}: ${reason}`, {
+      code: 'PAGE_REFERENCE_INVALID',
+      method,
+    });
+  };
+
+  const value = typeof reference === 'string'
+    ? reference.trim()
+    : typeof reference === 'object' && reference !== null && typeof reference.path === 'string'
+      ? reference.path.trim()
+      : fail('expected a page path, a telegra.ph or graph.org URL, or a Page object');
+
+  if (!value) {
+    return fail('path is empty');
+  }
+
+  const url = PAGE_URL.exec(value);
+  if (!url && (/^[a-z][a-z\d+.-]*:/i.test(value) || value.startsWith('//'))) {
+    return fail('only telegra.ph and graph.org URLs are supported');
+  }
+
+  const match = PAGE_PATH.exec(url ? url[1] : value);
+  if (!match) {
+    return fail(url ? 'the URL does not point at a page' : 'expected a single path segment');
+  }
+
+  let path = match[1];
+  if (url) {
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      return fail('the URL contains a malformed escape sequence');
+    }
+  }
+  if (/[\s\x00-\x1f\x7f]/.test(path)) {
+    return fail('paths cannot contain whitespace or control characters');
+  }
+  return path;
+}
@@ -0,0 +1,130 @@
+/**
+ * Rate Limiter
+ * Sliding-window request budget with a concurrency cap and FIFO queue
+ */
+
+import { TelegraphNetworkError, TelegraphValidationError } from './errors.js';
+import type { QueueStats, RateLimitBudget } from './types.js';
+
+interface QueueEntry {
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Schedules tasks so that no more than `requests` start per `interval`
+ * and no more than `maxConcurrency` run at once. Waiting tasks run in FIFO order.
+ */
+export class RateLimiter {
+  private readonly requests: number;
+  private readonly interval: number;
+  private readonly maxConcurrency: number;
+  private readonly starts: number[] = [];
+  private readonly queue: QueueEntry[] = [];
+  private active = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a new RateLimiter
+   * @param budget - Request budget
+   * @throws {TelegraphValidationError} If a limit is not a positive number, which would stall the queue forever
+   */
+  constructor(budget: RateLimitBudget = {}) {
+    this.requests = checkLimit('requests', budget.requests ?? Infinity);
+    this.interval = checkLimit('interval', budget.interval ?? 1000, false);
+    this.maxConcurrency = checkLimit('maxConcurrency', budget.maxConcurrency ?? Infinity);
+  }
+
+  /**
+   * Current queue depth and number of running tasks
+   */
+  stats(): QueueStats {
+    return { queued: this.queue.length, active: this.active };
+  }
+
+  /**
+   * Run a task once the budget allows it
+   *
+   * @param task - Task to run
+   * @param signal - Optional signal that removes the task from the queue
+   * @returns Result of the task
+   * @throws {TelegraphNetworkError} If the signal is aborted while the task is queued
+   */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TelegraphNetworkError('Request aborted', { code: 'ABORTED' }));
+        return;
+      }
+
+      const onAbort = () => entry.cancel();
+      const entry: QueueEntry = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        },
+        cancel: () => {
+          const index = this.queue.indexOf(entry);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(new TelegraphNetworkError('Request aborted', { code: 'ABORTED' }));
+          }
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Start as many queued tasks as the budget allows
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrency) {
+      const now = Date.now();
+      while (this.starts.length > 0 && this.starts[0] <= now - this.interval) {
+        this.starts.shift();
+      }
+
+      if (this.starts.length >= this.requests) {
+        // Wake up when the oldest start leaves the window
+        if (this.timer === undefined) {
+          this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain();
+          }, this.starts[0] + this.interval - now);
+        }
+        return;
+      }
+
+      const entry = this.queue.shift()!;
+      if (this.requests !== Infinity) {
+        this.starts.push(now);
+      }
+      this.active++;
+      entry.start();
+    }
+  }
+}
+
+/**
+ * Check that a budget limit is a positive integer (or Infinity), or for the interval a positive finite number
+ */
+function checkLimit(name: string, value: number, count = true): number {
+  const valid = typeof value === 'number' && value > 0
+    && (count ? Number.isInteger(value) || value === Infinity : Number.isFinite(value));
+  if (!valid) {
+    throw new TelegraphValidationError(
+      `Rate limit ${name} must be ${count ? 'a positive integer' : 'a positive finite number'}, got ${String(value)}`,
+      { code: 'RATE_LIMIT_INVALID' }
+    );
+  }
+  return value;
+}
@@ -0,0 +1,279 @@
+/**
+ * Account Reports
+ * Summarize the traffic of an account's pages over a date range, as data, CSV and Markdown
+ */
+
+import { Telegraph } from './client.js';
+import { TelegraphValidationError } from './errors.js';
+import { escapeMarkdownText } from './serialize.js';
+import { viewsPeriods } from './views.js';
+import type { ViewsGranularity, ViewsSeriesPoint } from './types.js';
+
+/** Number of top pages listed when no count is given */
+const DEFAULT_TOP_PAGES = 10;
+
+/**
+ * Date range of an account report
+ */
+export interface AccountReportRange {
+  /** Start of the range; the period containing it is the first one (UTC) */
+  from: Date | string | number;
+  /** End of the range; the period containing it is the last one (UTC) */
+  to: Date | string | number;
+  /** Length of each period (default: 'day') */
+  granularity?: ViewsGranularity;
+}
+
+/**
+ * Parameters for buildAccountReport
+ */
+export interface BuildAccountReportParams {
+  /** Access token of the account to report on */
+  accessToken: string;
+  /** Date range of the per-period views */
+  range: AccountReportRange;
+  /** Number of pages in the top list (default: 10) */
+  top?: number;
+  /** Maximum number of getViews calls in flight at once (default: 4) */
+  concurrency?: number;
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
+}
+
+/**
+ * Traffic of one page in an account report
+ */
+export interface AccountReportPage {
+  /** Path to the page */
+  path: string;
+  /** URL of the page */
+  url: string;
+  /** Title of the page */
+  title: string;
+  /** All-time views, from the page list */
+  views: number;
+  /** Views in the report range */
+  range_views: number;
+  /** Views per period of the range, oldest first */
+  series: ViewsSeriesPoint[];
+}
+
+/**
+ * Traffic summary of an account
+ */
+export interface AccountReport {
+  /** Name of the account (author name, or short name if it has none) */
+  account: string;
+  /** When the report was built, as an ISO 8601 UTC timestamp */
+  generated_at: string;
+  /** Start of the first and last period of the range, and their length */
+  range: { from: string; to: string; granularity: ViewsGranularity };
+  /** Number of pages of the account */
+  page_count: number;
+  /** All-time views of all pages */
+  total_views: number;
+  /** Views of all pages in the range */
+  range_views: number;
+  /** Views of all pages per period of the range, oldest first */
+  series: ViewsSeriesPoint[];
+  /** Pages with the most views in the range, most viewed first */
+  top_pages: AccountReportPage[];
+  /** Pages without views in the range, in page list order */
+  zero_view_pages: AccountReportPage[];
+  /** Every page, newest first */
+  pages: AccountReportPage[];
+}
+
+/**
+ * Result of buildAccountReport
+ */
+export interface AccountReportResult {
+  /** Structured report */
+  report: AccountReport;
+  /** Views per page and period as CSV (see accountReportToCsv) */
+  csv: string;
+  /** Summary as Markdown (see accountReportToMarkdown) */
+  markdown: string;
+}
+
+/**
+ * Build a traffic report of an account
+ *
+ * Lists every page with getPageList, takes the all-time totals from each page's views,
+ * and calls getViews once per page and period of the range (through getViewsSeries, so
+ * past periods are cached by the client). The report has the total views, the top
+ * pages and the pages without views in the range, and the views per page and period.
+ *
+ * @param params - Account, range, top list size and concurrency
+ * @returns Structured report with CSV and Markdown renderings
+ * @throws {TelegraphValidationError} If the range is invalid (VIEWS_RANGE_INVALID), top is not a positive integer (REPORT_TOP_INVALID)
+ * or concurrency is not a positive integer (VIEWS_CONCURRENCY_INVALID)
+ *
+ * @example
+ * ```typescript
+ * const { report, csv, markdown } = await buildAccountReport({
+ *   accessToken: 'your-access-token',
+ *   range: { from: '2024-06-01', to: '2024-06-30', granularity: 'day' }
+ * });
+ * console.log(`${report.range_views} views in June`);
+ * await writeFile('june.csv', csv);
+ * ```
+ */
+export async function buildAccountReport(params: BuildAccountReportParams): Promise<AccountReportResult> {
+  const top = params.top ?? DEFAULT_TOP_PAGES;
+  if (!Number.isInteger(top) || top < 1) {
+    throw new TelegraphValidationError(`top must be a positive integer, got ${top}`, { code: 'REPORT_TOP_INVALID' });
+  }
+  const granularity = params.range.granularity || 'day';
+  // Validate the range before making any request
+  const periods = viewsPeriods(params.range.from, params.range.to, granularity);
+
+  const telegraph = params.client || new Telegraph();
+  const generatedAt = new Date();
+  const account = await telegraph.getAccountInfo({
+    accessToken: params.accessToken,
+    fields: ['short_name', 'author_name'],
+  });
+
+  const pages: AccountReportPage[] = [];
+  for await (const page of telegraph.iteratePages({ accessToken: params.accessToken })) {
+    const { points, total } = await telegraph.getViewsSeries({
+      path: page.path,
+      from: params.range.from,
+      to: params.range.to,
+      granularity,
+      concurrency: params.concurrency,
+    });
+    pages.push({ path: page.path, url: page.url, title: page.title, views: page.views, range_views: total, series: points });
+  }
+
+  const report: AccountReport = {
+    account: account.author_name || account.short_name,
+    generated_at: generatedAt.toISOString(),
+    range: {
+      from: periods[0].start.toISOString(),
+      to: periods[periods.length - 1].start.toISOString(),
+      granularity,
+    },
+    page_count: pages.length,
+    total_views: pages.reduce((sum, page) => sum + page.views, 0),
+    range_views: pages.reduce((sum, page) => sum + page.range_views, 0),
+    series: periods.map((period, index) => ({
+      timestamp: period.start.toISOString(),
+      views: pages.reduce((sum, page) => sum + page.series[index].views, 0),
+    })),
+    top_pages: pages
+      .filter(page => page.range_views > 0)
+      .sort((a, b) => b.range_views - a.range_views || b.views - a.views)
+      .slice(0, top),
+    zero_view_pages: pages.filter(page => page.range_views === 0),
+    pages,
+  };
+
+  return { report, csv: accountReportToCsv(report), markdown: accountReportToMarkdown(report) };
+}
+
+/**
+ * Render an account report as CSV
+ *
+ * One row per page with its path, title, URL, all-time views and views in the range,
+ * followed by one column per period headed by the period's start. Fields are quoted
+ * as needed (RFC 4180) and rows end with CRLF. Titles and other fields starting with
+ * =, +, -, @, tab or carriage return get a leading ' so spreadsheets don't run them as
+ * formulas.
+ *
+ * @param report - Report built by buildAccountReport
+ * @returns CSV text with a header row
+ */
+export function accountReportToCsv(report: AccountReport): string {
+  const header = ['path', 'title', 'url', 'views', 'range_views', ...report.series.map(point => point.timestamp)];
+  const rows = report.pages.map(page => [
+    page.path,
+    page.title,
+    page.url,
+    String(page.views),
+    String(page.range_views),
+    ...page.series.map(point => String(point.views)),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',') + '\r\n').join('');
+}
+
+/**
+ * Render an account report as Markdown
+ *
+ * Totals, a table of the top pages, the list of pages without views and a table of the
+ * account's views per period, ready to post in chat tools that render Markdown.
+ *
+ * @param report - Report built by buildAccountReport
+ * @returns Markdown text
+ */
+export function accountReportToMarkdown(report: AccountReport): string {
+  const { from, to, granularity } = report.range;
+  const label = (timestamp: string) => formatPeriod(timestamp, granularity);
+  const link = (page: AccountReportPage) => `[${markdownCell(page.title || page.path)}](${page.url})`;
+  const lines = [
+    `# Traffic report: ${markdownCell(report.account)}`,
+    '',
+    `${label(from)} to ${label(to)}, per ${granularity} (UTC). Generated ${report.generated_at}.`,
+    '',
+    `- Pages: ${report.page_count}`,
+    `- Views in range: ${report.range_views}`,
+    `- All-time views: ${report.total_views}`,
+    '',
+    `## Top pages`,
+    '',
+  ];
+
+  if (report.top_pages.length > 0) {
+    lines.push('| # | Page | Views in range | All-time views |', '|---:|---|---:|---:|');
+    report.top_pages.forEach((page, index) => {
+      lines.push(`| ${index + 1} | ${link(page)} | ${page.range_views} | ${page.views} |`);
+    });
+  } else {
+    lines.push('No page has views in this range.');
+  }
+
+  lines.push('', `## Pages without views (${report.zero_view_pages.length})`, '');
+  if (report.zero_view_pages.length > 0) {
+    lines.push(...report.zero_view_pages.map(page => `- ${link(page)}`));
+  } else {
+    lines.push('Every page has views in this range.');
+  }
+
+  lines.push('', `## Views per ${granularity}`, '', `| ${granularity[0].toUpperCase()}${granularity.slice(1)} | Views |`, '|---|---:|');
+  lines.push(...report.series.map(point => `| ${label(point.timestamp)} | ${point.views} |`));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break
+ *
+ * Fields that spreadsheets would run as a formula (starting with =, +, -, @, tab or
+ * carriage return) are prefixed with a single quote so they are shown as text.
+ */
+function csvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape text for a Markdown table cell or link text
+ */
+function markdownCell(text: string): string {
+  return escapeMarkdownText(text.replace(/\s+/g, ' ')).replace(/\|/g, '\\|');
+}
+
+/**
+ * Short label of a period: 2024-06, 2024-06-01 or 2024-06-01 14:00
+ */
+function formatPeriod(timestamp: string, granularity: ViewsGranularity): string {
+  switch (granularity) {
+    case 'month':
+      return timestamp.slice(0, 7);
+    case 'day':
+      return timestamp.slice(0, 10);
+    default:
+      return `${timestamp.slice(0, 10)} ${timestamp.slice(11, 16)}`;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Telegraph Restore Functions
+ * Recreate backed-up pages on an account and copy pages between accounts
+ */
+
+import { Telegraph } from './client.js';
+import { TelegraphError } from './errors.js';
+import { backupAccount, rewriteUrls, toBackupFailure } from './export.js';
+import { parsePageLink } from './page-reference.js';
+import { parseContent } from './utils.js';
+import { validateNodes } from './validate.js';
+import type { AccountBackup, BackedUpPage, BackupFailure } from './export.js';
+import type { Node } from './types.js';
+
+/**
+ * Options for restoreAccount and copyAccount
+ */
+export interface RestoreOptions {
+  /** Validate and plan the restore without creating any pages */
+  dryRun?: boolean;
+  /** Client to use for API requests, with snake_case responses (default: a new Telegraph instance) */
+  client?: Telegraph;
+}
+
+/**
+ * Page handled by a restore
+ */
+export interface RestoredPage {
+  /** Path of the page in the backup */
+  from: string;
+  /** Path of the new page (not set in a dry run) */
+  path?: string;
+  /** URL of the new page (not set in a dry run) */
+  url?: string;
+  /** Page title */
+  title: string;
+  /** Number of links to other restored pages that were rewritten */
+  links: number;
+  /**
+   * 'planned' in a dry run, 'restored' once created with its links rewritten, or 'links_pending'
+   * when the page was created but the edit pointing its links at pages created after it failed
+   */
+  status: 'planned' | 'restored' | 'links_pending';
+  /** Why the link edit failed, for status 'links_pending' */
+  error?: BackupFailure;
+}
+
+/**
+ * Result of restoreAccount and copyAccount
+ */
+export interface RestoreResult {
+  /** Whether this was a dry run */
+  dryRun: boolean;
+  /** Old path → new path of every created page */
+  paths: Record<string, string>;
+  /** Restored (or, in a dry run, restorable) pages, in backup order */
+  pages: RestoredPage[];
+  /** Pages that could not be restored; created pages whose link edit failed are in pages instead */
+  failed: BackupFailure[];
+}
+
+/**
+ * Recreate the pages of a backup on an account
+ *
+ * Pages are created oldest first, so the target account lists them in the same order.
+ * Links between pages of the backup (`https://telegra.ph/<path>`, `graph.org` or `/<path>`)
+ * are rewritten to the new paths; pages that link to pages created after them are edited
+ * once those exist. Content comes from the raw `nodes` when the backup has them (see
+ * backupAccount's `includeNodes`), otherwise it is parsed from the Markdown or HTML.
+ *
+ * If that later edit fails, the page stays in `pages` with status 'links_pending' and the
+ * error, since it was created; `failed` only lists pages that were not created.
+ *
+ * A dry run makes no requests: it parses and validates every page and reports the pages
+ * and links that would be restored, with invalid pages in `failed`.
+ *
+ * @param backup - Backup made with backupAccount or read with parseBackupNdjson
+ * @param accessToken - Access token of the target account
+ * @param options - Dry run and client options
+ * @returns Old → new path mapping, restored pages and failures
+ *
+ * @example
+ * ```typescript
+ * const backup = JSON.parse(await readFile('backup.json', 'utf8'));
+ *
+ * const plan = await restoreAccount(backup, newToken, { dryRun: true });
+ * console.log(`${plan.pages.length} pages, ${plan.failed.length} invalid`);
+ *
+ * const { paths } = await restoreAccount(backup, newToken);
+ * console.log(paths['Old-Page-12-15']); // 'Old-Page-12-15-2'
+ * ```
+ */
+export async function restoreAccount(
+  backup: AccountBackup,
+  accessToken: string,
+  options: RestoreOptions = {}
+): Promise<RestoreResult> {
+  const dryRun = options.dryRun ?? false;
+  const telegraph = options.client || new Telegraph();
+  const backedUp = new Set(backup.pages.map(page => page.path));
+  const result: RestoreResult = { dryRun, paths: {}, pages: [], failed: [] };
+
+  // Parse everything first, so malformed pages are reported before anything is created
+  const planned: { page: BackedUpPage; nodes: Node[]; targets: string[] }[] = [];
+  for (const page of [...backup.pages].reverse()) {
+    try {
+      const nodes = page.nodes ?? parseContent(page.content, backup.format);
+      const errors = validateNodes(nodes).diagnostics.filter(d => d.severity === 'error');
+      if (errors.length > 0) {
+        throw new TelegraphError(`Invalid content: ${errors[0].message}`, { code: errors[0].code });
+      }
+      planned.push({ page, nodes, targets: linkedPaths(nodes, backedUp) });
+    } catch (error) {
+      result.failed.push(toBackupFailure(page.path, error));
+    }
+  }
+
+  if (dryRun) {
+    result.pages = planned.reverse().map(({ page, targets }) => ({
+      from: page.path,
+      title: page.title,
+      links: targets.length,
+      status: 'planned' as const,
+    }));
+    return result;
+  }
+
+  const restored = new Map<string, RestoredPage>();
+  // Pages linking to pages that don't exist yet are edited once everything is created
+  const pending: typeof planned = [];
+
+  for (const entry of planned) {
+    const { page, nodes, targets } = entry;
+    try {
+      const created = await telegraph.createPage({
+        accessToken,
+        title: page.title,
+        content: rewriteLinks(nodes, result.paths),
+        authorName: page.author_name,
+        authorUrl: page.author_url,
+      });
+      result.paths[page.path] = created.path;
+      restored.set(page.path, {
+        from: page.path,
+        path: created.path,
+        url: created.url,
+        title: page.title,
+        links: targets.filter(target => target in result.paths).length,
+        status: 'restored',
+      });
+      if (targets.some(target => !(target in result.paths))) {
+        pending.push(entry);
+      }
+    } catch (error) {
+      result.failed.push(toBackupFailure(page.path, error));
+    }
+  }
+
+  for (const { page, nodes, targets } of pending) {
+    const entry = restored.get(page.path) as RestoredPage;
+    try {
+      await telegraph.editPage({
+        accessToken,
+        path: entry.path as string,
+        title: page.title,
+        content: rewriteLinks(nodes, result.paths),
+        authorName: page.author_name,
+        authorUrl: page.author_url,
+      });
+      entry.links = targets.filter(target => target in result.paths).length;
+    } catch (error) {
+      // The page exists, so it is reported as restored with links still pointing at old paths
+      entry.status = 'links_pending';
+      entry.error = toBackupFailure(page.path, error);
+    }
+  }
+
+  result.pages = backup.pages.flatMap(page => restored.get(page.path) ?? []);
+  return result;
+}
+
+/**
+ * Copy every page of one account to another
+ *
+ * Backs up the source account with its raw node trees and restores it onto the target,
+ * rewriting links between the copied pages. Pages that can't be read from the source are
+ * reported in `failed` along with pages that can't be created.
+ *
+ * @param params - Source and target access tokens, plus restore options
+ * @returns Old → new path mapping, copied pages and failures
+ *
+ * @example
+ * ```typescript
+ * const { paths, failed } = await copyAccount({
+ *   fromAccessToken: oldBotToken,
+ *   toAccessToken: mainToken
+ * });
+ * ```
+ */
+export async function copyAccount(params: RestoreOptions & {
+  /** Access token of the account to copy from */
+  fromAccessToken: string;
+  /** Access token of the account to copy to */
+  toAccessToken: string;
+  /** Number of source pages fetched at the same time (default: 4) */
+  concurrency?: number;
+}): Promise<RestoreResult> {
+  const backup = await backupAccount({
+    accessToken: params.fromAccessToken,
+    includeNodes: true,
+    concurrency: params.concurrency,
+    client: params.client,
+  });
+
+  const result = await restoreAccount(backup, params.toAccessToken, params);
+  result.failed.unshift(...backup.failed);
+  return result;
+}
+
+/**
+ * Paths of backed-up pages that content links to
+ */
+function linkedPaths(nodes: Node[], backedUp: Set<string>): string[] {
+  const paths = new Set<string>();
+  rewriteUrls(nodes, (url, attribute) => {
+    const link = attribute === 'href' ? parsePageLink(url) : undefined;
+    if (link && backedUp.has(link.path)) paths.add(link.path);
+    return url;
+  });
+  return [...paths];
+}
+
+/**
+ * Point links to restored pages at their new paths
+ */
+function rewriteLinks(nodes: Node[], paths: Record<string, string>): Node[] {
+  return rewriteUrls(nodes, (url, attribute) => {
+    const link = attribute === 'href' ? parsePageLink(url) : undefined;
+    const target = link ? paths[link.path] : undefined;
+    return link && target !== undefined ? `${link.origin}/${target}${link.suffix}` : url;
+  });
+}
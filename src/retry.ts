@@ -0,0 +1,126 @@
+/**
+ * Retry helpers
+ * Backoff calculation and FLOOD_WAIT handling for API requests
+ */
+
+import { TelegraphError, TelegraphNetworkError, TelegraphRateLimitError } from './errors.js';
+import type { RetryOptions } from './types.js';
+
+/**
+ * Retry options with all defaults applied
+ */
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+/**
+ * API methods that change server state and are not safe to repeat blindly
+ */
+export const MUTATING_METHODS: ReadonlySet<string> = new Set([
+  'createAccount',
+  'editAccountInfo',
+  'revokeAccessToken',
+  'createPage',
+  'editPage',
+  'upload',
+]);
+
+/**
+ * Apply defaults to a retry policy
+ *
+ * @param options - Retry options, or undefined/false to disable retries
+ * @returns Resolved retry options
+ */
+export function resolveRetryOptions(options: RetryOptions | false | undefined): ResolvedRetryOptions {
+  return {
+    retries: options ? options.retries ?? 3 : 0,
+    minDelay: options ? options.minDelay ?? 500 : 500,
+    maxDelay: options ? options.maxDelay ?? 30_000 : 30_000,
+    factor: options ? options.factor ?? 2 : 2,
+    jitter: options ? options.jitter ?? true : true,
+    retryFloodWait: options ? options.retryFloodWait ?? true : true,
+    maxFloodWait: options ? options.maxFloodWait ?? 60 : 60,
+    retryMutations: options ? options.retryMutations ?? false : false,
+  };
+}
+
+/**
+ * Compute the backoff delay before the next attempt
+ *
+ * @param attempt - Zero-based number of the attempt that just failed
+ * @param options - Resolved retry options
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(attempt: number, options: ResolvedRetryOptions): number {
+  const delay = Math.min(options.maxDelay, options.minDelay * Math.pow(options.factor, attempt));
+  // Full jitter: pick uniformly between 0 and the exponential delay
+  return options.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Decide whether a failed request should be retried
+ *
+ * Rate limit errors are always safe to repeat since the request was rejected.
+ * Network failures and 5xx responses are only retried for non-mutating methods
+ * unless `retryMutations` is set.
+ *
+ * @param error - Error thrown by the failed attempt
+ * @param attempt - Zero-based number of the attempt that failed
+ * @param options - Resolved retry options
+ * @param mutating - Whether the request changes server state
+ * @returns Delay in milliseconds before retrying, or undefined to give up
+ */
+export function retryDelay(
+  error: unknown,
+  attempt: number,
+  options: ResolvedRetryOptions,
+  mutating: boolean
+): number | undefined {
+  if (attempt >= options.retries || !(error instanceof TelegraphError)) {
+    return undefined;
+  }
+
+  if (error instanceof TelegraphRateLimitError) {
+    if (error.retryAfterSeconds === undefined) {
+      return backoffDelay(attempt, options);
+    }
+    if (!options.retryFloodWait || error.retryAfterSeconds > options.maxFloodWait) {
+      return undefined;
+    }
+    return error.retryAfterSeconds * 1000;
+  }
+
+  if (mutating && !options.retryMutations) {
+    return undefined;
+  }
+  if (error instanceof TelegraphNetworkError && error.code !== 'ABORTED') {
+    return backoffDelay(attempt, options);
+  }
+  if (error.httpStatus !== undefined && error.httpStatus >= 500) {
+    return backoffDelay(attempt, options);
+  }
+  return undefined;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @throws {TelegraphNetworkError} If the signal is aborted while waiting
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TelegraphNetworkError('Request aborted', { code: 'ABORTED' }));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TelegraphNetworkError('Request aborted', { code: 'ABORTED' }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
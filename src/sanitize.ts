@@ -0,0 +1,339 @@
+/**
+ * HTML Sanitizer
+ * Map arbitrary HTML onto Telegraph's tag set and strip unsafe markup
+ */
+
+import { ALLOWED_TAGS } from './types.js';
+import { htmlToNodes, nodesToHtml } from './utils.js';
+import type { AllowedTag, Node, NodeElement } from './types.js';
+
+/**
+ * How to treat an element during normalization:
+ * - an allowed tag name: rename the element to that tag
+ * - 'unwrap': drop the element but keep its children
+ * - 'remove': drop the element and its children
+ * - a function: replace the element with the returned node(s); their children are normalized
+ */
+export type SanitizeRule =
+  | AllowedTag
+  | 'unwrap'
+  | 'remove'
+  | ((element: NodeElement) => Node | Node[] | null);
+
+/**
+ * Options for normalizeNodes and sanitizeHtml
+ */
+export interface SanitizeOptions {
+  /** Custom rules by lowercase tag name, applied before the default rules */
+  rules?: Record<string, SanitizeRule>;
+  /** URL schemes allowed in href and src (default: http, https, mailto, tg); relative URLs are always allowed */
+  allowedProtocols?: string[];
+}
+
+const DEFAULT_PROTOCOLS = ['http', 'https', 'mailto', 'tg'];
+
+/** Tags that form blocks and may not appear inside inline elements or paragraphs */
+const BLOCK_TAGS = ['aside', 'blockquote', 'figure', 'h3', 'h4', 'hr', 'ol', 'p', 'pre', 'ul'];
+
+/** Inline formatting tags */
+const FORMATTING_TAGS = ['b', 'code', 'em', 'i', 's', 'strong', 'u'];
+
+/** Tags that only contain inline content */
+const TEXT_CONTAINER_TAGS = ['a', 'p', 'h3', 'h4', ...FORMATTING_TAGS];
+
+/** Media tags that are useless without a src */
+const MEDIA_TAGS = ['img', 'video', 'iframe'];
+
+/** Non-Telegraph containers that hold blocks */
+const BLOCK_CONTAINERS = [
+  'div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'table', 'thead', 'tbody', 'tfoot',
+  'tr', 'dl', 'dt', 'dd', 'center', 'details', 'h1', 'h2', 'h5', 'h6',
+];
+
+/**
+ * Split table cells into a paragraph per row
+ */
+const tableRowRule = (row: NodeElement): Node => {
+  const children: Node[] = [];
+  for (const cell of row.children || []) {
+    if (typeof cell === 'string') continue;
+    if (children.length > 0) children.push(' | ');
+    const content = cell.children || [];
+    children.push(cell.tag.toLowerCase() === 'th' ? { tag: 'b', children: content } : { tag: 'span', children: content });
+  }
+  return { tag: 'p', children };
+};
+
+/**
+ * Turn a div into a paragraph, or unwrap it if it already contains blocks
+ */
+const divRule = (div: NodeElement): Node | Node[] => {
+  const children = div.children || [];
+  const hasBlocks = children.some(child =>
+    typeof child !== 'string' && (BLOCK_TAGS.includes(child.tag.toLowerCase()) || BLOCK_CONTAINERS.includes(child.tag.toLowerCase()))
+  );
+  return hasBlocks ? children : { tag: 'p', children };
+};
+
+/**
+ * Default mapping of non-Telegraph tags
+ */
+const DEFAULT_RULES: Record<string, SanitizeRule> = {
+  h1: 'h3',
+  h2: 'h3',
+  h5: 'h4',
+  h6: 'h4',
+  div: divRule,
+  center: divRule,
+  section: 'unwrap',
+  article: 'unwrap',
+  header: 'unwrap',
+  footer: 'unwrap',
+  main: 'unwrap',
+  nav: 'unwrap',
+  details: 'unwrap',
+  summary: 'p',
+  table: 'unwrap',
+  thead: 'unwrap',
+  tbody: 'unwrap',
+  tfoot: 'unwrap',
+  tr: tableRowRule,
+  caption: 'p',
+  dl: 'unwrap',
+  dt: (el) => ({ tag: 'p', children: [{ tag: 'b', children: el.children || [] }] }),
+  dd: 'p',
+  del: 's',
+  strike: 's',
+  ins: 'u',
+  kbd: 'code',
+  samp: 'code',
+  tt: 'code',
+  var: 'i',
+  cite: 'i',
+  q: 'unwrap',
+  picture: 'unwrap',
+  script: 'remove',
+  style: 'remove',
+  noscript: 'remove',
+  template: 'remove',
+  head: 'remove',
+  title: 'remove',
+  meta: 'remove',
+  link: 'remove',
+  base: 'remove',
+  object: 'remove',
+  embed: 'remove',
+  applet: 'remove',
+  frame: 'remove',
+  frameset: 'remove',
+  svg: 'remove',
+  math: 'remove',
+  canvas: 'remove',
+  audio: 'remove',
+  source: 'remove',
+  track: 'remove',
+  form: 'unwrap',
+  input: 'remove',
+  button: 'remove',
+  select: 'remove',
+  textarea: 'remove',
+};
+
+/**
+ * Normalize a Node array onto Telegraph's tag set
+ *
+ * Downgrades headings to h3/h4, turns divs into paragraphs, unwraps unknown
+ * containers, removes scripts, styles and other unsafe elements, drops every
+ * attribute except href and src, strips javascript: and other unsafe URLs,
+ * and fixes nesting that Telegraph rejects.
+ *
+ * @param nodes - Array of Node objects, e.g. from htmlToNodes
+ * @param options - Custom rules and allowed URL schemes
+ * @returns Normalized Node array
+ *
+ * @example
+ * ```typescript
+ * const nodes = normalizeNodes(htmlToNodes(importedHtml), {
+ *   rules: { aside: 'blockquote', mark: 'b' }
+ * });
+ * ```
+ */
+export function normalizeNodes(nodes: Node[], options: SanitizeOptions = {}): Node[] {
+  const protocols = (options.allowedProtocols || DEFAULT_PROTOCOLS).map(p => p.replace(/:$/, '').toLowerCase());
+  return normalizeList(nodes, [], options.rules || {}, protocols);
+}
+
+/**
+ * Sanitize an HTML string for Telegraph
+ *
+ * @param html - Arbitrary HTML
+ * @param options - Custom rules and allowed URL schemes
+ * @returns HTML using only Telegraph-supported tags and attributes
+ *
+ * @example
+ * ```typescript
+ * sanitizeHtml('<h1 style="color:red">Title</h1><div onclick="x()">Text</div>');
+ * // '<h3>Title</h3><p>Text</p>'
+ * ```
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  return nodesToHtml(normalizeNodes(htmlToNodes(html), options));
+}
+
+/**
+ * Normalize a list of sibling nodes
+ */
+function normalizeList(
+  nodes: Node[],
+  ancestors: string[],
+  rules: Record<string, SanitizeRule>,
+  protocols: string[]
+): Node[] {
+  const result: Node[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      result.push(node);
+    } else if (node && typeof node.tag === 'string') {
+      result.push(...normalizeElement(node, ancestors, rules, protocols));
+    }
+  }
+
+  const parent = ancestors[ancestors.length - 1];
+  return parent === 'ul' || parent === 'ol' ? wrapListItems(result) : result;
+}
+
+/**
+ * Normalize a single element, returning zero or more replacement nodes
+ */
+function normalizeElement(
+  element: NodeElement,
+  ancestors: string[],
+  rules: Record<string, SanitizeRule>,
+  protocols: string[]
+): Node[] {
+  const sourceTag = element.tag.toLowerCase();
+  const isAllowed = (ALLOWED_TAGS as readonly string[]).includes(sourceTag);
+  const rule = rules[sourceTag] ?? DEFAULT_RULES[sourceTag] ?? (isAllowed ? sourceTag as AllowedTag : 'unwrap');
+  const children = element.children || [];
+
+  if (rule === 'remove') {
+    return [];
+  }
+  if (rule === 'unwrap') {
+    return normalizeList(children, ancestors, rules, protocols);
+  }
+  if (typeof rule === 'function') {
+    const input = { ...element, tag: sourceTag };
+    const replaced = rule(input);
+    const list = replaced === null ? [] : Array.isArray(replaced) ? replaced : [replaced];
+    // Allowed replacement tags are kept as mapped; others go through the rules again,
+    // except the element itself, which is unwrapped to avoid endless recursion
+    return list.flatMap(node => {
+      if (typeof node === 'string') {
+        return [node];
+      }
+      if ((ALLOWED_TAGS as readonly string[]).includes(node.tag)) {
+        return buildElement(node.tag, node, ancestors, rules, protocols);
+      }
+      return node === input
+        ? normalizeList(node.children || [], ancestors, rules, protocols)
+        : normalizeElement(node, ancestors, rules, protocols);
+    });
+  }
+  return buildElement(rule, element, ancestors, rules, protocols);
+}
+
+/**
+ * Build an allowed element, fixing its placement and attributes
+ */
+function buildElement(
+  tag: string,
+  source: NodeElement,
+  ancestors: string[],
+  rules: Record<string, SanitizeRule>,
+  protocols: string[]
+): Node[] {
+  const parent = ancestors[ancestors.length - 1];
+  const children = source.children || [];
+
+  // Orphan list items become paragraphs
+  if (tag === 'li' && parent !== 'ul' && parent !== 'ol') {
+    tag = 'p';
+  }
+
+  const insideText = ancestors.some(t => TEXT_CONTAINER_TAGS.includes(t));
+  if (
+    (BLOCK_TAGS.includes(tag) && insideText)
+    || (FORMATTING_TAGS.includes(tag) && ancestors.includes('a'))
+    || (tag === 'a' && ancestors.includes('a'))
+    || (tag === 'figcaption' && parent !== 'figure')
+  ) {
+    return normalizeList(children, ancestors, rules, protocols);
+  }
+
+  const element: NodeElement = { tag };
+  const attrs = sanitizeAttrs(tag, source.attrs, protocols);
+  if (attrs) {
+    element.attrs = attrs;
+  }
+
+  if (MEDIA_TAGS.includes(tag) && !attrs?.src) {
+    return [];
+  }
+  // Links without a (safe) href are plain text
+  if (tag === 'a' && !attrs?.href) {
+    return normalizeList(children, ancestors, rules, protocols);
+  }
+
+  if (!['br', 'hr', 'img'].includes(tag)) {
+    const normalized = normalizeList(children, [...ancestors, tag], rules, protocols);
+    if (normalized.length > 0) {
+      element.children = normalized;
+    } else if (tag === 'p') {
+      return [];
+    }
+  }
+
+  return [element];
+}
+
+/**
+ * Keep only href on links and src on media, with safe URLs
+ */
+function sanitizeAttrs(
+  tag: string,
+  attrs: NodeElement['attrs'],
+  protocols: string[]
+): NodeElement['attrs'] | undefined {
+  const name = tag === 'a' ? 'href' : MEDIA_TAGS.includes(tag) ? 'src' : undefined;
+  const value = name ? attrs?.[name] : undefined;
+  if (!name || value === undefined) {
+    return undefined;
+  }
+
+  const url = value.trim();
+  // Browsers ignore control characters and whitespace inside the scheme (e.g. "java\nscript:")
+  const scheme = url.replace(/[\u0000- ]/g, '').match(/^([a-z][a-z\d+.-]*):/i)?.[1].toLowerCase();
+  const allowed = !scheme
+    || protocols.includes(scheme)
+    || (scheme === 'data' && tag === 'img' && /^data:image\//i.test(url));
+
+  return allowed ? { [name]: url } : undefined;
+}
+
+/**
+ * Wrap stray content inside a list into list items
+ */
+function wrapListItems(nodes: Node[]): Node[] {
+  const result: Node[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      if (node.trim()) result.push({ tag: 'li', children: [node] });
+    } else if (node.tag === 'li') {
+      result.push(node);
+    } else {
+      result.push({ tag: 'li', children: [node] });
+    }
+  }
+  return result;
+}
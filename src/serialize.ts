@@ -0,0 +1,650 @@
+/**
+ * Node Serializers
+ * Escaping-correct HTML and Markdown output for Telegraph Node trees
+ *
+ * Both serializers are lossless for Telegraph-valid content: parsing their output with
+ * htmlToNodes or parseContent(..., 'markdown') gives back an equivalent tree. Equivalent
+ * means equal after merging adjacent text nodes and dropping empty text. The Markdown
+ * round trip also normalizes, as any CommonMark reader would: strong and em read back as
+ * b and i, link and image URLs are percent-encoded (already-encoded URLs are unchanged),
+ * whitespace-only text at the top level or alone in a blockquote or list item is dropped,
+ * and top-level inline content is wrapped in a paragraph. Whatever Markdown cannot express
+ * (underline, asides, embeds, empty formatting) is written as inline or block HTML.
+ */
+
+import { HTML_BLOCK_OPEN } from './markdown-parser.js';
+import type { Node, NodeElement } from './types.js';
+
+/** Elements without content or end tag */
+const VOID_TAGS = ['br', 'hr', 'img'];
+
+/** Elements that form blocks when serializing Markdown */
+const BLOCK_TAGS = [
+  'aside', 'blockquote', 'figure', 'figcaption', 'h3', 'h4', 'hr', 'li', 'ol', 'p', 'pre', 'ul', 'iframe', 'video',
+];
+
+/** Character references that a Markdown or HTML parser would decode */
+const ENTITY_PATTERN = /&(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi;
+
+/** Characters XML does not allow, including unpaired surrogates */
+const INVALID_XML_CHARS = /[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]|[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/g;
+
+/** Bare URLs and emails that GFM turns into links */
+const AUTOLINK_PATTERN = /(?<![a-z\d])(https?|ftp)(:\/\/)|(?<![a-z\d])(www)(\.)|([\w.+-])(@)(?=[\w-]+\.)/gi;
+
+/**
+ * Escape text for use in HTML content
+ *
+ * @param text - Plain text
+ * @returns Text with &, < and > escaped
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape text for use in a double-quoted HTML attribute value
+ *
+ * @param value - Attribute value
+ * @returns Value with &, " and < escaped
+ */
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Escape text for XML content, dropping characters XML cannot hold
+ *
+ * @param text - Plain text
+ * @returns Text with &, < and > escaped
+ */
+export function xmlText(text: string): string {
+  return escapeHtml(text.replace(INVALID_XML_CHARS, ''));
+}
+
+/**
+ * Escape text for a double-quoted XML attribute, dropping characters XML cannot hold
+ *
+ * @param value - Attribute value
+ * @returns Value with &, " and < escaped
+ */
+export function xmlAttribute(value: string): string {
+  return escapeAttribute(value.replace(INVALID_XML_CHARS, ''));
+}
+
+/**
+ * Serialize a Node array to HTML
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @returns HTML string
+ */
+export function serializeHtml(nodes: Node[]): string {
+  return nodesToHtmlString(nodes, false);
+}
+
+/**
+ * Serialize nodes to HTML, optionally writing line breaks as character references
+ * so the markup stays on one line (raw HTML blocks in Markdown end at a blank line)
+ */
+function nodesToHtmlString(nodes: Node[], singleLine: boolean): string {
+  let html = '';
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      html += singleLine ? encodeLineBreaks(escapeHtml(node)) : escapeHtml(node);
+    } else if (node && typeof node.tag === 'string') {
+      html += elementToHtml(node, singleLine);
+    }
+  }
+  return html;
+}
+
+/**
+ * Serialize a single element to HTML
+ */
+function elementToHtml(node: NodeElement, singleLine = false): string {
+  const attrs = htmlAttributes(node.attrs, singleLine);
+  if (VOID_TAGS.includes(node.tag)) {
+    return `<${node.tag}${attrs}/>`;
+  }
+
+  let html = nodesToHtmlString(node.children || [], singleLine);
+  // The parser drops a newline directly after <pre>, so keep a leading one by doubling it
+  const newline = singleLine ? '&#10;' : '\n';
+  if (node.tag === 'pre' && html.startsWith(newline)) {
+    html = newline + html;
+  }
+  return `<${node.tag}${attrs}>${html}</${node.tag}>`;
+}
+
+/**
+ * Serialize attributes, skipping undefined values and names HTML cannot carry
+ */
+function htmlAttributes(attrs: NodeElement['attrs'], singleLine = false): string {
+  let html = '';
+  for (const [name, value] of Object.entries(attrs || {})) {
+    if (value !== undefined && /^[^\s"'<>/=]+$/.test(name)) {
+      const escaped = escapeAttribute(String(value));
+      html += ` ${name}="${singleLine ? encodeLineBreaks(escaped) : escaped}"`;
+    }
+  }
+  return html;
+}
+
+/**
+ * Replace line breaks in escaped HTML with character references
+ */
+function encodeLineBreaks(html: string): string {
+  return html.replace(/\n/g, '&#10;').replace(/\r/g, '&#13;');
+}
+
+/**
+ * Serialize a Node array to Markdown (CommonMark with GFM strikethrough)
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @returns Markdown string
+ */
+export function serializeMarkdown(nodes: Node[]): string {
+  return renderBlocks(nodes).join('\n\n');
+}
+
+/**
+ * Whether a node is rendered as a block
+ */
+function isBlock(node: Node): node is NodeElement {
+  return typeof node !== 'string' && BLOCK_TAGS.includes(node.tag);
+}
+
+/**
+ * Whether a node is text made only of whitespace
+ */
+function isBlank(node: Node): boolean {
+  return typeof node === 'string' && node.trim() === '';
+}
+
+/**
+ * Render sibling nodes as Markdown blocks, grouping runs of inline nodes into paragraphs
+ */
+function renderBlocks(nodes: Node[]): string[] {
+  const blocks: string[] = [];
+  let run: Node[] = [];
+  let previous: string | undefined;
+
+  const flush = () => {
+    if (run.some(node => !isBlank(node))) {
+      blocks.push(renderParagraph(run) ?? blockHtml({ tag: 'p', children: run }));
+      previous = undefined;
+    }
+    run = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      // Adjacent lists of the same kind would merge into one, so separate them with a comment
+      if ((node.tag === 'ul' || node.tag === 'ol') && node.tag === previous) {
+        blocks.push('<!-- -->');
+      }
+      blocks.push(renderBlock(node));
+      previous = node.tag;
+    } else if (typeof node === 'string' || (node && typeof (node as NodeElement).tag === 'string')) {
+      run.push(node);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Render a block element
+ */
+function renderBlock(node: NodeElement): string {
+  const children = node.children || [];
+
+  switch (node.tag) {
+    case 'p':
+      return (children.some(child => !isBlank(child)) && !isSoleImage(children) && renderParagraph(children))
+        || blockHtml(node);
+    case 'h3':
+    case 'h4':
+      return renderHeading(node);
+    case 'hr':
+      // Not ---, which after a "- " list marker would read as a thematic break of its own
+      return '***';
+    case 'pre':
+      return renderCodeBlock(node);
+    case 'blockquote':
+      return renderBlockquote(node);
+    case 'ul':
+    case 'ol':
+      return renderList(node);
+    case 'figure':
+      return renderFigure(node);
+    default:
+      return blockHtml(node);
+  }
+}
+
+/**
+ * Render an element as a raw HTML block, kept on one line so no blank line can end it
+ */
+function blockHtml(node: NodeElement): string {
+  return elementToHtml(node, true);
+}
+
+/**
+ * Whether inline content is a single image, which Markdown would read as a figure
+ */
+function isSoleImage(nodes: Node[]): boolean {
+  const content = nodes.filter(node => !isBlank(node));
+  return content.length === 1 && typeof content[0] !== 'string' && content[0].tag === 'img';
+}
+
+/**
+ * Whether inline content holds a line break at any depth
+ */
+function hasLineBreak(nodes: Node[]): boolean {
+  return nodes.some(node =>
+    typeof node === 'string' ? /[\r\n]/.test(node) : node.tag === 'br' || hasLineBreak(node.children || [])
+  );
+}
+
+/**
+ * Render a heading, falling back to HTML for multi-line content
+ */
+function renderHeading(node: NodeElement): string {
+  const children = node.children || [];
+  if (hasLineBreak(children) || !children.some(child => !isBlank(child))) {
+    return blockHtml(node);
+  }
+
+  // A closing sequence of # would be stripped
+  const text = protectLines(renderInline(children)).replace(/#$/, '\\#');
+  return `${node.tag === 'h3' ? '#' : '##'} ${text}`;
+}
+
+/**
+ * Render preformatted text as a fenced code block
+ */
+function renderCodeBlock(node: NodeElement): string {
+  const children = node.children || [];
+  const text = children.join('');
+  // Inside list items, lines holding only whitespace read back as empty lines
+  if (!children.every(child => typeof child === 'string') || /(^|\n)[ \t]+(\n|$)/.test(text)) {
+    return blockHtml(node);
+  }
+
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+/**
+ * Render a blockquote, prefixing every line with >
+ */
+function renderBlockquote(node: NodeElement): string {
+  const children = node.children || [];
+  const content = children.filter(child => !isBlank(child));
+  const blocks = content.filter(isBlock);
+
+  let body: string | undefined;
+  if (blocks.length === 0) {
+    body = content.length > 0 ? renderParagraph(children) : '';
+  } else if (blocks.length === content.length && !(blocks.length === 1 && blocks[0].tag === 'p')) {
+    body = renderBlocks(children).join('\n\n');
+  }
+  // A lone paragraph reads back as inline content; mixed content has no Markdown form
+  if (body === undefined) {
+    return blockHtml(node);
+  }
+
+  return body.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+/**
+ * Render a list, tight when items hold inline content and nested lists, loose when they hold blocks
+ */
+function renderList(node: NodeElement): string {
+  const items = (node.children || []).filter(child => !isBlank(child));
+  if (!items.every(item => typeof item !== 'string' && item.tag === 'li')) {
+    return blockHtml(node);
+  }
+
+  const elements = items as NodeElement[];
+  const tight = elements.every(item => isTightItem(item.children || []));
+  // A single item holding a single paragraph would read back as a tight item
+  const loose = !tight && elements.every(item => {
+    const content = (item.children || []).filter(child => !isBlank(child));
+    return content.every(isBlock) && !(elements.length === 1 && content.length === 1 && content[0].tag === 'p');
+  });
+  const bodies = tight || loose
+    ? elements.map(item => (tight ? renderTightItem(item.children || []) : renderBlocks(item.children || []).join('\n\n')))
+    : [];
+  if (bodies.length === 0 || bodies.some(body => body === undefined)) {
+    return blockHtml(node);
+  }
+
+  return bodies.map((body, index) => {
+    const marker = node.tag === 'ol' ? `${index + 1}. ` : '- ';
+    // An empty item cannot interrupt a paragraph and a bare "-" would underline it as a heading
+    if (!body) {
+      return `${marker}<!-- -->`;
+    }
+    const indent = ' '.repeat(marker.length);
+    const lines = (body as string).split('\n').map((line, i) => (i === 0 || !line ? line : indent + line));
+    return (marker + lines.join('\n')).trimEnd();
+  }).join(tight ? '\n' : '\n\n');
+}
+
+/**
+ * Whether list item content is inline content followed only by nested lists
+ */
+function isTightItem(children: Node[]): boolean {
+  const content = children.filter(child => !isBlank(child));
+  const firstBlock = content.findIndex(isBlock);
+  if (firstBlock === -1) {
+    return true;
+  }
+
+  const blocks = content.slice(firstBlock);
+  return blocks.every((block, i) =>
+    isBlock(block)
+    && (block.tag === 'ul' || block.tag === 'ol')
+    // Adjacent lists of the same kind would merge
+    && (i === 0 || (blocks[i - 1] as NodeElement).tag !== block.tag)
+  );
+}
+
+/**
+ * Render the content of a tight list item, or undefined when it has no Markdown form
+ */
+function renderTightItem(children: Node[]): string | undefined {
+  const firstBlock = children.findIndex(isBlock);
+  const inline = firstBlock === -1 ? children : children.slice(0, firstBlock);
+  const lists = firstBlock === -1 ? [] : children.slice(firstBlock).filter(isBlock);
+
+  const parts: string[] = [];
+  if (inline.some(child => !isBlank(child))) {
+    // A lone image is written as an HTML block, which would swallow the lists after it
+    const paragraph = lists.length > 0 && isSoleImage(inline) ? undefined : renderParagraph(inline);
+    if (paragraph === undefined) {
+      return undefined;
+    }
+    parts.push(paragraph);
+  }
+  parts.push(...lists.map(renderList));
+  return parts.join('\n');
+}
+
+/**
+ * Render a figure holding a single image and an optional plain-text caption
+ */
+function renderFigure(node: NodeElement): string {
+  const content = (node.children || []).filter(child => !isBlank(child));
+  const [image, caption] = content;
+  const plainCaption = caption === undefined || (
+    typeof caption !== 'string'
+    && caption.tag === 'figcaption'
+    && (caption.children || []).length > 0
+    && (caption.children || []).every(child => typeof child === 'string' && !/[\r\n]/.test(child))
+  );
+
+  if (content.length > 2 || typeof image === 'string' || image?.tag !== 'img' || !image.attrs?.src
+    || /[\r\n]/.test(image.attrs.src) || !plainCaption) {
+    return blockHtml(node);
+  }
+
+  const alt = typeof caption === 'object' ? (caption.children as string[]).join('') : '';
+  return `![${escapeMarkdownText(alt)}](${markdownDestination(image.attrs.src)})`;
+}
+
+/**
+ * Inline formatting that is written with delimiter runs
+ */
+interface Emphasis {
+  node: NodeElement;
+  inner: string;
+  delimiters: string[];
+}
+
+/** Delimiters by tag, preferred first */
+const EMPHASIS_DELIMITERS: Record<string, string[]> = {
+  b: ['**', '__'],
+  strong: ['**', '__'],
+  i: ['*', '_'],
+  em: ['*', '_'],
+  s: ['~~'],
+};
+
+/** Raw HTML block starts that can interrupt a paragraph (all but type 7) */
+const INTERRUPTING_HTML = HTML_BLOCK_OPEN.slice(0, 6);
+
+/**
+ * Render inline content as a paragraph, or undefined when Markdown would read it as something else
+ */
+function renderParagraph(nodes: Node[]): string | undefined {
+  // A lone image would read back as a figure
+  if (isSoleImage(nodes)) {
+    return inlineHtml(nodes.find(node => !isBlank(node)) as NodeElement);
+  }
+
+  const text = protectLines(renderInline(nodes));
+  // Inline HTML at the start of a line could open a raw HTML block
+  const lines = text.split('\n');
+  if (HTML_BLOCK_OPEN.some(pattern => pattern.test(lines[0]))
+    || lines.slice(1).some(line => INTERRUPTING_HTML.some(pattern => pattern.test(line)))) {
+    return undefined;
+  }
+  return text;
+}
+
+/**
+ * Protect the line starts and whitespace of rendered inline content
+ */
+function protectLines(markdown: string): string {
+  // Blank lines would end the paragraph and edge newlines would be stripped
+  const text = markdown.replace(/\n(?=\n)/g, '&#10;').replace(/^\n/, '&#10;').replace(/\n$/, '&#10;');
+
+  return text
+    .split('\n')
+    .map(line => line
+      // Leading and trailing whitespace would be stripped (or read as code or a hard break)
+      .replace(/^[ \t]+|[ \t]+$/g, space => space.replace(/ /g, '&#32;').replace(/\t/g, '&#9;'))
+      // Line starts that would open a block
+      .replace(/^(#{1,6})(?=[ \t]|$)/, '\\$1')
+      .replace(/^([>+=-])/, '\\$1')
+      .replace(/^(\d{1,9})([.)])/, '$1\\$2'))
+    .join('\n');
+}
+
+/**
+ * Render inline nodes; before and after are the characters that will surround the output
+ */
+function renderInline(nodes: Node[], before = '', after = ''): string {
+  // Merge adjacent text so escaping sees whole words and URLs
+  const merged: Node[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      if (!node) continue;
+      const last = merged.length - 1;
+      if (typeof merged[last] === 'string') {
+        merged[last] += node;
+        continue;
+      }
+      merged.push(node);
+    } else if (node && typeof node.tag === 'string') {
+      merged.push(node);
+    }
+  }
+
+  const pieces = merged.map((node, i) =>
+    typeof node === 'string' ? escapeMarkdownText(node) : renderInlineElement(node, merged[i + 1]));
+
+  let markdown = '';
+  for (let i = 0; i < pieces.length; i++) {
+    const piece = pieces[i];
+    const previous = markdown ? markdown[markdown.length - 1] : before;
+    if (typeof piece === 'string') {
+      // Only links start with an unescaped bracket; after a ! they would read as images
+      markdown = (piece.startsWith('[') && markdown.endsWith('!') ? markdown.slice(0, -1) + '\\!' : markdown) + piece;
+    } else if ('code' in piece) {
+      markdown += renderCodeSpan(piece.code, previous);
+    } else {
+      const next = pieces[i + 1];
+      const nextChar = next === undefined ? after
+        : typeof next === 'string' ? next[0]
+        : 'code' in next ? '`'
+        : next.delimiters[0][0];
+      markdown += renderEmphasis(piece, previous, nextChar);
+    }
+  }
+  return markdown;
+}
+
+/**
+ * Render an inline element, or describe it for rendering once its neighbors are known
+ */
+function renderInlineElement(node: NodeElement, next: Node | undefined): string | Emphasis | { code: NodeElement } {
+  const children = node.children || [];
+  const delimiters = EMPHASIS_DELIMITERS[node.tag];
+  if (delimiters) {
+    const char = delimiters[0][0];
+    return { node, inner: renderInline(children, char, char), delimiters };
+  }
+
+  switch (node.tag) {
+    case 'br':
+      // A backslash break needs a following line and cannot end a paragraph
+      return next === undefined || (typeof next === 'string' && /^\s/.test(next)) ? '<br/>' : '\\\n';
+    case 'code':
+      return { code: node };
+    case 'a': {
+      const href = node.attrs?.href;
+      if (href === undefined || /[\r\n]/.test(href)) break;
+      return `[${renderInline(children, '[', ']')}](${markdownDestination(href)})`;
+    }
+    case 'img': {
+      const src = node.attrs?.src;
+      if (src === undefined || /[\r\n]/.test(src)) break;
+      return `![](${markdownDestination(src)})`;
+    }
+  }
+  return inlineHtml(node);
+}
+
+/**
+ * Render an inline element as HTML tags around Markdown content
+ */
+function inlineHtml(node: NodeElement): string {
+  const attrs = htmlAttributes(node.attrs, true);
+  if (VOID_TAGS.includes(node.tag)) {
+    return `<${node.tag}${attrs}/>`;
+  }
+  return `<${node.tag}${attrs}>${renderInline(node.children || [], '>', '<')}</${node.tag}>`;
+}
+
+/**
+ * Pick delimiters for emphasis that will parse back the same way, or fall back to HTML tags
+ */
+function renderEmphasis(emphasis: Emphasis, before: string, after: string): string {
+  const { inner } = emphasis;
+  const first = inner[0] ?? '';
+  const last = inner[inner.length - 1] ?? '';
+
+  // The opening run must only be able to open and the closing run only to close
+  const opens = isLeftFlanking(before, first) && !isRightFlanking(before, first);
+  const closes = isRightFlanking(last, after) && !isLeftFlanking(last, after);
+
+  if (inner && opens && closes) {
+    for (const delimiter of emphasis.delimiters) {
+      const char = delimiter[0];
+      // Delimiter runs must not touch runs of the same character
+      if (before === char || after === char || first === char || last === char) continue;
+      return delimiter + inner + delimiter;
+    }
+  }
+
+  const attrs = htmlAttributes(emphasis.node.attrs, true);
+  return `<${emphasis.node.tag}${attrs}>${inner}</${emphasis.node.tag}>`;
+}
+
+/**
+ * Whether a delimiter run between two characters is left-flanking
+ */
+function isLeftFlanking(before: string, after: string): boolean {
+  return !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+}
+
+/**
+ * Whether a delimiter run between two characters is right-flanking
+ */
+function isRightFlanking(before: string, after: string): boolean {
+  return !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+}
+
+/**
+ * Render inline code as a code span
+ */
+function renderCodeSpan(node: NodeElement, before: string): string {
+  const children = node.children || [];
+  const text = children.join('');
+  // Code spans turn newlines into spaces and cannot be empty or follow a backtick
+  if (!children.every(child => typeof child === 'string') || !text || /[\r\n]/.test(text) || before === '`') {
+    return inlineHtml(node);
+  }
+
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  // One space is stripped from each side when both are present
+  const padded = text.startsWith('`') || text.endsWith('`') || (/^ /.test(text) && / $/.test(text) && /[^ ]/.test(text))
+    ? ` ${text} `
+    : text;
+  return fence + padded + fence;
+}
+
+/**
+ * Write a link or image destination, using the <...> form when it has special characters
+ */
+function markdownDestination(url: string): string {
+  if (/^[^\s<>()\\]*$/.test(url)) {
+    return url.replace(ENTITY_PATTERN, '\\$&');
+  }
+  return `<${url.replace(/[\\<>]/g, '\\$&').replace(ENTITY_PATTERN, '\\$&')}>`;
+}
+
+/**
+ * Escape Markdown metacharacters in plain text
+ *
+ * @param text - Plain text
+ * @returns Text that Markdown reads back literally
+ */
+export function escapeMarkdownText(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<~]/g, (match, offset: number) =>
+      // Intraword underscores (snake_case) never form emphasis
+      match === '_' && isWordCharacter(text[offset - 1]) && isWordCharacter(text[offset + 1]) ? match : '\\' + match)
+    .replace(ENTITY_PATTERN, '\\$&')
+    .replace(AUTOLINK_PATTERN, (match, scheme, sep, www, dot, local, at) =>
+      scheme ? `${scheme}\\${sep}` : www ? `${www}\\${dot}` : `${local}\\${at}`);
+}
+
+/**
+ * Whether a character is a Unicode letter or digit
+ */
+function isWordCharacter(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Whether a character is Unicode whitespace
+ */
+function isWhitespace(char: string): boolean {
+  // The start and end of the text count as whitespace
+  return char === '' || /\s/.test(char);
+}
+
+/**
+ * Whether a character is Unicode punctuation or a symbol
+ */
+function isPunctuation(char: string): boolean {
+  return /[\p{P}\p{S}]/u.test(char);
+}
@@ -0,0 +1,184 @@
+/**
+ * Content Series
+ * Split content that is too big for one page into parts linked as a multi-page series
+ */
+
+import { MAX_CONTENT_SIZE } from './types.js';
+import { measureContent } from './validate.js';
+import type { Node, NodeElement } from './types.js';
+
+/** Bytes kept free in each part for the navigation added by createSeries */
+export const SERIES_NAVIGATION_RESERVE = 1024;
+
+/**
+ * Options for splitContent
+ */
+export interface SplitContentOptions {
+  /** Maximum serialized size of each part in bytes (default: 64 KB) */
+  maxSize?: number;
+}
+
+/**
+ * Split content into parts that each fit the content size limit
+ *
+ * Parts end at top-level block boundaries and preferably before a heading (h3/h4), as long
+ * as that keeps the part at least half full. A single block too big for a part is split
+ * into copies of the element holding consecutive runs of its children, and long text is
+ * split at whitespace.
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @param options - Split options
+ * @returns Parts, each a Node array no bigger than maxSize
+ *
+ * @example
+ * ```typescript
+ * const parts = splitContent(parseContent(longReport, 'markdown'));
+ * console.log(`${parts.length} pages needed`);
+ * ```
+ */
+export function splitContent(nodes: Node[], options: SplitContentOptions = {}): Node[][] {
+  const maxSize = options.maxSize ?? MAX_CONTENT_SIZE;
+  const blocks = nodes.flatMap(node => splitNode(node, maxSize - 2));
+
+  const parts: Node[][] = [];
+  let current: Node[] = [];
+  let sizes: number[] = [];
+  // Serialized size of current: brackets, blocks and the commas between them
+  const sizeOf = (blockSizes: number[]) =>
+    2 + blockSizes.reduce((sum, size) => sum + size, 0) + Math.max(0, blockSizes.length - 1);
+
+  for (const block of blocks) {
+    const blockSize = measureContent([block]) - 2;
+
+    while (current.length > 0 && sizeOf([...sizes, blockSize]) > maxSize) {
+      // Start the next part at the last heading if this part stays at least half full
+      const heading = lastHeadingIndex(current);
+      const cut = heading > 0 && sizeOf(sizes.slice(0, heading)) >= maxSize / 2 ? heading : current.length;
+      parts.push(current.slice(0, cut));
+      current = current.slice(cut);
+      sizes = sizes.slice(cut);
+    }
+
+    current.push(block);
+    sizes.push(blockSize);
+  }
+
+  if (current.length > 0 || parts.length === 0) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Index of the last top-level heading in a part, or -1
+ */
+function lastHeadingIndex(nodes: Node[]): number {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (typeof node !== 'string' && (node.tag === 'h3' || node.tag === 'h4')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a node into nodes whose serialized size is at most maxSize bytes
+ */
+function splitNode(node: Node, maxSize: number): Node[] {
+  if (measureContent([node]) - 2 <= maxSize) {
+    return [node];
+  }
+  if (typeof node === 'string') {
+    return splitText(node, maxSize);
+  }
+
+  const children = node.children || [];
+  const overhead = measureContent([{ ...node, children: [] }]) - 2;
+  if (children.length === 0 || overhead >= maxSize) {
+    // Nothing left to split; validation reports the oversized node
+    return [node];
+  }
+
+  const budget = maxSize - overhead;
+  const pieces = children.flatMap(child => splitNode(child, budget));
+  const copies: NodeElement[] = [];
+  let run: Node[] = [];
+  let size = 0;
+
+  for (const piece of pieces) {
+    const pieceSize = measureContent([piece]) - 2;
+    if (run.length > 0 && size + 1 + pieceSize > budget) {
+      copies.push({ ...node, children: run });
+      run = [];
+      size = 0;
+    }
+    size += (run.length > 0 ? 1 : 0) + pieceSize;
+    run.push(piece);
+  }
+  copies.push({ ...node, children: run });
+  return copies;
+}
+
+/**
+ * Split text into strings whose JSON encoding is at most maxSize bytes, preferring whitespace
+ */
+function splitText(text: string, maxSize: number): string[] {
+  const budget = maxSize - 2;
+  const chunks: string[] = [];
+  let chunk = '';
+  let size = 0;
+
+  // Words with their trailing whitespace, then single code points for words that don't fit
+  for (const word of text.match(/\S*\s*/g) || []) {
+    const units = measureContent([word]) - 4 > budget ? Array.from(word) : [word];
+    for (const unit of units) {
+      // Escaping is per character, so sizes of pieces add up
+      const unitSize = measureContent([unit]) - 4;
+      if (chunk && size + unitSize > budget) {
+        chunks.push(chunk);
+        chunk = '';
+        size = 0;
+      }
+      chunk += unit;
+      size += unitSize;
+    }
+  }
+  if (chunk) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Add "Part N of M" and links to the neighboring parts to a part's content
+ *
+ * @param content - Content of the part
+ * @param index - Zero-based position of the part
+ * @param total - Number of parts
+ * @param links - URLs of the previous and next parts
+ * @returns Content with a header and a navigation footer
+ */
+export function addSeriesNavigation(
+  content: Node[],
+  index: number,
+  total: number,
+  links: { previous?: string; next?: string }
+): Node[] {
+  const footer: Node[] = [];
+  if (links.previous) {
+    footer.push({ tag: 'a', attrs: { href: links.previous }, children: [`← Part ${index}`] });
+  }
+  if (links.next) {
+    if (footer.length > 0) footer.push(' · ');
+    footer.push({ tag: 'a', attrs: { href: links.next }, children: [`Part ${index + 2} →`] });
+  }
+
+  const label: Node = { tag: 'p', children: [{ tag: 'i', children: [`Part ${index + 1} of ${total}`] }] };
+  return [
+    label,
+    ...content,
+    { tag: 'hr' },
+    footer.length > 0 ? { tag: 'p', children: [`Part ${index + 1} of ${total}: `, ...footer] } : label,
+  ];
+}
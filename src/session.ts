@@ -0,0 +1,214 @@
+/**
+ * Telegraph Account Session
+ * Binds an access token to a client so it doesn't have to be passed to every call
+ */
+
+import { TelegraphError } from './errors.js';
+import type { Telegraph } from './client.js';
+import type {
+  Account,
+  CamelAccount,
+  CreatePageParams,
+  CreateSeriesParams,
+  EditPageParams,
+  EditAccountInfoParams,
+  GetAccountInfoParams,
+  GetPageListParams,
+  IteratePagesParams,
+  PublishMarkdownParams,
+  PublishMarkdownResult,
+  RequestOptions,
+  ResponseCase,
+  ResponseModels,
+} from './types.js';
+
+/**
+ * Options for an account session
+ */
+export interface AccountSessionOptions<C extends ResponseCase = 'snake'> {
+  /**
+   * Called after revoke() with the new access token, so it can be persisted
+   */
+  onTokenChange?: (accessToken: string, account: ResponseModels<C>['account']) => void | Promise<void>;
+}
+
+/**
+ * Account session bound to a single access token
+ *
+ * Created with `telegraph.account(token)`. After `revoke()`, the session switches to the
+ * new token automatically and reports it through `onTokenChange`.
+ *
+ * @example
+ * ```typescript
+ * const session = telegraph.account('your-access-token', {
+ *   onTokenChange: (token) => saveToken(token)
+ * });
+ *
+ * const page = await session.createPage({
+ *   title: 'Hello',
+ *   content: '<p>World</p>'
+ * });
+ * const { total_count } = await session.getPageList({ limit: 10 });
+ * await session.revoke();
+ * ```
+ */
+export class AccountSession<C extends ResponseCase = 'snake'> {
+  private token: string;
+
+  /**
+   * Creates a new AccountSession
+   * @param client - Telegraph client used for requests
+   * @param accessToken - Access token of the account
+   * @param options - Session options
+   */
+  constructor(
+    private readonly client: Telegraph<C>,
+    accessToken: string,
+    private readonly options: AccountSessionOptions<C> = {}
+  ) {
+    this.token = accessToken;
+  }
+
+  /**
+   * Access token currently used by the session
+   */
+  get accessToken(): string {
+    return this.token;
+  }
+
+  /**
+   * Create a new page on this account
+   *
+   * @param params - Page creation parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns Page object
+   */
+  async createPage(
+    params: Omit<CreatePageParams, 'accessToken'>,
+    options?: RequestOptions
+  ): Promise<ResponseModels<C>['page']> {
+    return this.client.createPage({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Edit a page belonging to this account
+   *
+   * @param params - Page edit parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns Updated Page object
+   */
+  async editPage(
+    params: Omit<EditPageParams, 'accessToken'>,
+    options?: RequestOptions
+  ): Promise<ResponseModels<C>['page']> {
+    return this.client.editPage({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Publish content too big for one page as a series of linked pages on this account
+   *
+   * @param params - Series parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns Pages of the series, in order
+   */
+  async createSeries(
+    params: Omit<CreateSeriesParams, 'accessToken'>,
+    options?: RequestOptions
+  ): Promise<ResponseModels<C>['page'][]> {
+    return this.client.createSeries({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Publish a Markdown file with YAML front matter on this account
+   *
+   * @param params - publishMarkdown parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns Published page, updated front matter and updated Markdown
+   */
+  async publishMarkdown(
+    params: Omit<PublishMarkdownParams, 'accessToken'>,
+    options?: RequestOptions
+  ): Promise<PublishMarkdownResult<C>> {
+    return this.client.publishMarkdown({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Get a list of pages belonging to this account
+   *
+   * @param params - Page list parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns PageList object
+   */
+  async getPageList(
+    params: Omit<GetPageListParams, 'accessToken'> = {},
+    options?: RequestOptions
+  ): Promise<ResponseModels<C>['pageList']> {
+    return this.client.getPageList({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Iterate over every page of this account
+   *
+   * @param params - Page size
+   * @param options - Per-call request options
+   * @returns Async iterable of pages, newest first
+   */
+  iteratePages(
+    params: Omit<IteratePagesParams, 'accessToken'> = {},
+    options?: RequestOptions
+  ): AsyncGenerator<ResponseModels<C>['page'], void, undefined> {
+    return this.client.iteratePages({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Get information about this account
+   *
+   * @param params - Account info parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns Account object with requested fields
+   */
+  async getInfo(
+    params: Omit<GetAccountInfoParams, 'accessToken'> = {},
+    options?: RequestOptions
+  ): Promise<ResponseModels<C>['account']> {
+    return this.client.getAccountInfo({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Update information about this account
+   *
+   * @param params - Account update parameters (without accessToken)
+   * @param options - Per-call request options
+   * @returns Updated Account object
+   */
+  async edit(
+    params: Omit<EditAccountInfoParams, 'accessToken'>,
+    options?: RequestOptions
+  ): Promise<ResponseModels<C>['account']> {
+    return this.client.editAccountInfo({ ...params, accessToken: this.token }, options);
+  }
+
+  /**
+   * Revoke the current access token and switch the session to the new one
+   *
+   * @param options - Per-call request options
+   * @returns Account object with new access_token and auth_url
+   * @throws {TelegraphError} If the API does not return a new token
+   */
+  async revoke(options?: RequestOptions): Promise<ResponseModels<C>['account']> {
+    const account = await this.client.revokeAccessToken({ accessToken: this.token }, options);
+    const accessToken = (account as Account).access_token ?? (account as CamelAccount).accessToken;
+
+    if (!accessToken) {
+      throw new TelegraphError('New access token not returned', {
+        code: 'ACCESS_TOKEN_NOT_RETURNED',
+        method: 'revokeAccessToken',
+        response: account,
+      });
+    }
+
+    this.token = accessToken;
+    await this.options.onTokenChange?.(accessToken, account);
+    return account;
+  }
+}
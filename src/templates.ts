@@ -3,6 +3,8 @@
  * Pre-built templates for common page types
  */
 
+import { TelegraphNotFoundError, TelegraphValidationError } from './errors.js';
+import { htmlToNodes } from './utils.js';
 import type { Node, NodeElement } from './types.js';
 
 /**
@@ -294,7 +296,7 @@ export function listTemplates(): Array<{ name: string; description: string; fiel
  * Create Telegraph content from a template
  *
  * @param templateName - Name of the template to use
- * @param data - Data to populate the template
+ * @param data - Data to populate the template, keyed by field name
  * @returns Array of Telegraph Node objects
  *
  * @example
@@ -317,103 +319,62 @@ export function listTemplates(): Array<{ name: string; description: string; fiel
  * });
  * ```
  */
-export function createFromTemplate(templateName: string, data: Record<string, any>): Node[] {
+export function createFromTemplate<T extends object>(templateName: string, data: T): Node[] {
+  const fields = data as Record<string, unknown>;
   const template = templates[templateName];
   if (!template) {
-    throw new Error(`Template "${templateName}" not found`);
+    throw new TelegraphNotFoundError(`Template "${templateName}" not found`, {
+      code: 'TEMPLATE_NOT_FOUND',
+    });
   }
 
   // Validate required fields
   for (const field of template.fields) {
-    if (field.required && (data[field.name] === undefined || data[field.name] === null)) {
-      throw new Error(`Required field "${field.name}" is missing`);
+    if (field.required && (fields[field.name] === undefined || fields[field.name] === null)) {
+      throw new TelegraphValidationError(`Required field "${field.name}" is missing`, {
+        code: 'FIELD_REQUIRED',
+      });
     }
   }
 
   // Generate HTML content
-  const html = template.generate(data);
+  const html = template.generate(fields);
 
-  // Convert HTML to Node array (simple conversion)
-  // For simplicity, we'll import the htmlToNodes function
-  // Since this is a new file, we need to import it
+  // Convert HTML to Node array
   return parseHtmlToNodes(html);
 }
 
 /**
- * Simple HTML to Node converter for template-generated content
- * This is a simplified version that handles the specific HTML our templates generate
+ * HTML to Node converter for template-generated content
+ * Parses with htmlToNodes and drops the whitespace between generated tags
  *
  * @param html - HTML string to convert
  * @returns Array of Telegraph Node objects
  */
 function parseHtmlToNodes(html: string): Node[] {
-  const nodes: Node[] = [];
-  const tagRegex = /<(\/?)([\w-]+)([^>]*)>|([^<]+)/g;
-  const stack: { tag: string; attrs?: Record<string, string>; children: Node[] }[] = [];
-  let current: Node[] = nodes;
-
-  let match;
-  while ((match = tagRegex.exec(html)) !== null) {
-    const [, closing, tagName, attrString, text] = match;
-
-    if (text) {
-      const trimmed = text.trim();
-      if (trimmed) {
-        current.push(trimmed);
-      }
-    } else if (tagName) {
-      const tag = tagName.toLowerCase();
-
-      if (closing) {
-        if (stack.length > 0) {
-          const completed = stack.pop()!;
-          current = stack.length > 0 ? stack[stack.length - 1].children : nodes;
-
-          const element: NodeElement = { tag: completed.tag };
-          if (completed.attrs && Object.keys(completed.attrs).length > 0) {
-            element.attrs = completed.attrs;
-          }
-          if (completed.children.length > 0) {
-            element.children = completed.children;
-          }
-          current.push(element);
+  const trim = (nodes: Node[]): Node[] => {
+    const result: Node[] = [];
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        const trimmed = node.trim();
+        if (trimmed) {
+          result.push(trimmed);
         }
       } else {
-        const attrs: Record<string, string> = {};
-        const attrRegex = /([\w-]+)=["']([^"']*)["']/g;
-        let attrMatch;
-        while ((attrMatch = attrRegex.exec(attrString)) !== null) {
-          attrs[attrMatch[1]] = attrMatch[2];
-        }
-
-        if (['br', 'hr', 'img'].includes(tag) || attrString.includes('/')) {
-          const element: NodeElement = { tag };
-          if (Object.keys(attrs).length > 0) {
-            element.attrs = attrs;
+        const element: NodeElement = { ...node };
+        if (node.children) {
+          const children = trim(node.children);
+          if (children.length > 0) {
+            element.children = children;
+          } else {
+            delete element.children;
           }
-          current.push(element);
-        } else {
-          const newElement = { tag, attrs, children: [] as Node[] };
-          stack.push(newElement);
-          current = newElement.children;
         }
+        result.push(element);
       }
     }
-  }
-
-  while (stack.length > 0) {
-    const completed = stack.pop()!;
-    const parent = stack.length > 0 ? stack[stack.length - 1].children : nodes;
-
-    const element: NodeElement = { tag: completed.tag };
-    if (completed.attrs && Object.keys(completed.attrs).length > 0) {
-      element.attrs = completed.attrs;
-    }
-    if (completed.children.length > 0) {
-      element.children = completed.children;
-    }
-    parent.push(element);
-  }
+    return result;
+  };
 
-  return nodes;
+  return trim(htmlToNodes(html));
 }
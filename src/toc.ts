@@ -0,0 +1,104 @@
+/**
+ * Table of Contents
+ * Build a linked outline of a page from its h3/h4 headings
+ */
+
+import type { Node, NodeElement, TableOfContentsOptions } from './types.js';
+
+/** Paragraph text replaced by the table of contents when no position is given */
+const DEFAULT_PLACEHOLDER = '[TOC]';
+
+/**
+ * Get the anchor telegra.ph gives a heading
+ *
+ * telegra.ph sets a heading's id to its text with runs of whitespace replaced by dashes,
+ * so `#Getting-started` links to a "Getting started" heading.
+ *
+ * @param text - Heading text
+ * @returns Anchor name, without the leading #
+ */
+export function headingAnchor(text: string): string {
+  return text.trim().replace(/\s+/g, '-');
+}
+
+/**
+ * Build a table of contents from the h3/h4 headings of a page
+ *
+ * Each h3 becomes a list item linking to the heading's anchor; h4 headings are nested
+ * under the h3 before them. Headings inside blockquotes, asides and other blocks are not
+ * included, matching the headings telegra.ph gives anchors to.
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @returns Nested ul list, or undefined if the content has no headings
+ *
+ * @example
+ * ```typescript
+ * const toc = buildTableOfContents(createFromTemplate('documentation', data));
+ * // { tag: 'ul', children: [{ tag: 'li', children: [{ tag: 'a', attrs: { href: '#Overview' }, ... }] }] }
+ * ```
+ */
+export function buildTableOfContents(nodes: Node[]): NodeElement | undefined {
+  const items: NodeElement[] = [];
+  // Items of the h4 list under the current h3
+  let subitems: Node[] | undefined;
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || (node.tag !== 'h3' && node.tag !== 'h4')) continue;
+
+    const text = plainText(node.children || []).trim();
+    if (!text) continue;
+
+    const link: NodeElement = { tag: 'a', attrs: { href: `#${headingAnchor(text)}` }, children: [text] };
+    const parent = items[items.length - 1];
+    if (node.tag === 'h4' && parent) {
+      if (!subitems) {
+        subitems = [];
+        parent.children = [...(parent.children || []), { tag: 'ul', children: subitems }];
+      }
+      subitems.push({ tag: 'li', children: [link] });
+    } else {
+      items.push({ tag: 'li', children: [link] });
+      subitems = undefined;
+    }
+  }
+
+  return items.length > 0 ? { tag: 'ul', children: items } : undefined;
+}
+
+/**
+ * Insert a table of contents into page content
+ *
+ * The list replaces the first top-level paragraph whose text is the placeholder
+ * (`[TOC]` by default), or is inserted at the top of the page when there is none.
+ * Content without headings is returned unchanged, minus the placeholder.
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @param options - Placeholder text
+ * @returns New node array with the table of contents
+ *
+ * @example
+ * ```typescript
+ * const content = insertTableOfContents(parseContent('[TOC]\n\n# Intro\n\n...', 'markdown'));
+ * ```
+ */
+export function insertTableOfContents(nodes: Node[], options: TableOfContentsOptions = {}): Node[] {
+  const placeholder = options.placeholder ?? DEFAULT_PLACEHOLDER;
+  const toc = buildTableOfContents(nodes);
+  const index = nodes.findIndex(node =>
+    (typeof node === 'string' || node.tag === 'p') && plainText([node]).trim() === placeholder
+  );
+
+  if (index === -1) {
+    return toc ? [toc, ...nodes] : nodes;
+  }
+  return [...nodes.slice(0, index), ...(toc ? [toc] : []), ...nodes.slice(index + 1)];
+}
+
+/**
+ * Text content of nodes, with line breaks read as spaces
+ */
+export function plainText(nodes: Node[]): string {
+  return nodes
+    .map(node => (typeof node === 'string' ? node : node.tag === 'br' ? ' ' : plainText(node.children || [])))
+    .join('');
+}
@@ -47,6 +47,19 @@ export interface Page {
   can_edit?: boolean;
 }
 
+/**
+ * Reference to a Telegraph page: its path, its telegra.ph or graph.org URL, or the Page itself
+ *
+ * @example
+ * ```typescript
+ * 'Sample-Page-12-15'
+ * 'https://telegra.ph/Sample-Page-12-15?foo#bar'
+ * 'graph.org/Sample-Page-12-15'
+ * page // any object with a path, such as a Page returned by createPage
+ * ```
+ */
+export type PageReference = string | Pick<Page, 'path'>;
+
 /**
  * Telegraph PageList object
  */
@@ -57,6 +70,72 @@ export interface PageList {
   pages: Page[];
 }
 
+/**
+ * Telegraph Account object with camelCase fields
+ */
+export interface CamelAccount {
+  /** Account name */
+  shortName: string;
+  /** Default author name used when creating new articles */
+  authorName?: string;
+  /** Profile link, opened when users click on the author's name below the title */
+  authorUrl?: string;
+  /** Access token of the Telegraph account (only returned by createAccount and revokeAccessToken) */
+  accessToken?: string;
+  /** URL to authorize a browser on telegra.ph (only returned by revokeAccessToken) */
+  authUrl?: string;
+  /** Number of pages belonging to the Telegraph account (only returned when requested) */
+  pageCount?: number;
+}
+
+/**
+ * Telegraph Page object with camelCase fields
+ */
+export interface CamelPage {
+  /** Path to the page */
+  path: string;
+  /** URL of the page */
+  url: string;
+  /** Title of the page */
+  title: string;
+  /** Description of the page */
+  description: string;
+  /** Name of the author, displayed below the title */
+  authorName?: string;
+  /** Profile link, opened when users click on the author's name below the title */
+  authorUrl?: string;
+  /** Image URL of the page */
+  imageUrl?: string;
+  /** Content of the page (only returned if returnContent is true) */
+  content?: Node[];
+  /** Number of page views for the page */
+  views: number;
+  /** True if the target Telegraph account can edit the page */
+  canEdit?: boolean;
+}
+
+/**
+ * Telegraph PageList object with camelCase fields
+ */
+export interface CamelPageList {
+  /** Total number of pages belonging to the target Telegraph account */
+  totalCount: number;
+  /** Requested pages of the target Telegraph account */
+  pages: CamelPage[];
+}
+
+/**
+ * Naming style of response objects: raw API snake_case or camelCase
+ */
+export type ResponseCase = 'snake' | 'camel';
+
+/**
+ * Response model types for a given response case
+ */
+export type ResponseModels<C extends ResponseCase> = C extends 'camel'
+  ? { account: CamelAccount; page: CamelPage; pageList: CamelPageList }
+  : { account: Account; page: Page; pageList: PageList };
+
 /**
  * Telegraph PageViews object
  */
@@ -98,6 +177,44 @@ export const ALLOWED_TAGS = [
 
 export type AllowedTag = typeof ALLOWED_TAGS[number];
 
+/**
+ * Attributes supported by Telegraph
+ */
+export const ALLOWED_ATTRIBUTES = ['href', 'src'] as const;
+
+/**
+ * Maximum size of page content in bytes (serialized Node array)
+ */
+export const MAX_CONTENT_SIZE = 64 * 1024;
+
+/**
+ * Problem found while validating content
+ */
+export interface ValidationDiagnostic {
+  /** Errors are rejected by the API; warnings are likely ignored or mangled */
+  severity: 'error' | 'warning';
+  /** Machine-readable problem code */
+  code: 'INVALID_NODE' | 'TAG_NOT_ALLOWED' | 'ATTR_NOT_ALLOWED' | 'ATTR_MISPLACED' | 'INVALID_NESTING' | 'CONTENT_TOO_BIG';
+  /** Human-readable description */
+  message: string;
+  /** Child indices from the root array to the offending node (empty for the whole document) */
+  path: number[];
+  /** Tag names from the root to the offending node, e.g. "ul > li > div" */
+  tagPath: string;
+}
+
+/**
+ * Result of validating content
+ */
+export interface ValidationResult {
+  /** True if there are no errors (warnings are allowed) */
+  valid: boolean;
+  /** Problems found, in document order */
+  diagnostics: ValidationDiagnostic[];
+  /** Size of the serialized content in bytes */
+  size: number;
+}
+
 /**
  * Telegraph API Response wrapper
  */
@@ -110,6 +227,115 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+/**
+ * Options for configuring a Telegraph client instance
+ */
+export interface TelegraphOptions<C extends ResponseCase = 'snake'> {
+  /** Naming style of returned Account, Page and PageList objects (default: 'snake') */
+  responseCase?: C;
+  /** Base URL of the Telegraph API (default: https://api.telegra.ph) */
+  baseUrl?: string;
+  /** Base URL of the media host; files are posted to `${uploadBaseUrl}/upload` (default: https://telegra.ph) */
+  uploadBaseUrl?: string;
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Default request timeout in milliseconds (default: no timeout) */
+  timeout?: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Retry policy for failed requests (default: no retries) */
+  retry?: RetryOptions;
+  /** Client-side rate limit and request queue (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+  /** Number of past-period view counts getViewsSeries keeps in memory, least recently used dropped first; 0 disables the cache (default: 10000) */
+  viewsCacheSize?: number;
+}
+
+/**
+ * Request budget for a rate limiter
+ */
+export interface RateLimitBudget {
+  /** Requests allowed to start per interval, a positive integer (default: unlimited) */
+  requests?: number;
+  /** Interval length in milliseconds, positive and finite (default: 1000) */
+  interval?: number;
+  /** Maximum number of requests in flight at once, a positive integer (default: unlimited) */
+  maxConcurrency?: number;
+}
+
+/**
+ * Client-side rate limiting options
+ *
+ * Requests over budget wait in a FIFO queue. Read methods (getAccountInfo, getPage,
+ * getPageList, getViews) and write methods share the top-level budget unless a
+ * separate `read` or `write` budget is given.
+ */
+export interface RateLimitOptions extends RateLimitBudget {
+  /** Separate budget for read methods */
+  read?: RateLimitBudget;
+  /** Separate budget for write methods */
+  write?: RateLimitBudget;
+}
+
+/**
+ * Snapshot of a request queue
+ */
+export interface QueueStats {
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Requests currently in flight */
+  active: number;
+}
+
+/**
+ * Snapshot of the client's request queues
+ */
+export interface RateLimitStats extends QueueStats {
+  /** Queue used by read methods */
+  read: QueueStats;
+  /** Queue used by write methods */
+  write: QueueStats;
+}
+
+/**
+ * Retry policy for failed API requests
+ *
+ * Network failures and 5xx/429 responses are retried with exponential backoff.
+ * FLOOD_WAIT_X errors are retried after waiting the requested number of seconds.
+ * Mutating methods are only retried on network/HTTP failures if `retryMutations` is set,
+ * since the original request may already have been applied.
+ */
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Base backoff delay in milliseconds (default: 500) */
+  minDelay?: number;
+  /** Maximum backoff delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Backoff multiplier applied per attempt (default: 2) */
+  factor?: number;
+  /** Randomize backoff delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+  /** Wait and retry on FLOOD_WAIT_X errors (default: true) */
+  retryFloodWait?: boolean;
+  /** Longest FLOOD_WAIT in seconds that will be waited out (default: 60) */
+  maxFloodWait?: number;
+  /** Also retry mutating methods such as createPage on network/HTTP failures (default: false) */
+  retryMutations?: boolean;
+}
+
+/**
+ * Per-call request options, accepted as the last argument of every client method
+ */
+export interface RequestOptions {
+  /** Request timeout in milliseconds, overrides the client default */
+  timeout?: number;
+  /** Signal used to abort the request */
+  signal?: AbortSignal;
+  /** Retry policy for this call, or false to disable retries */
+  retry?: RetryOptions | false;
+}
+
 /**
  * Account fields that can be requested
  */
@@ -159,6 +385,14 @@ export interface RevokeAccessTokenParams {
   accessToken: string;
 }
 
+/**
+ * Options for inserting a table of contents
+ */
+export interface TableOfContentsOptions {
+  /** Text of the paragraph replaced by the table of contents (default: "[TOC]"); without one it goes at the top */
+  placeholder?: string;
+}
+
 /**
  * Parameters for createPage method
  */
@@ -175,6 +409,12 @@ export interface CreatePageParams {
   authorUrl?: string;
   /** If true, content field will be returned */
   returnContent?: boolean;
+  /** Upload local and data: image sources before publishing and rewrite their src */
+  uploadImages?: boolean | UploadImagesOptions;
+  /** Validate content with validateNodes before sending and throw on errors */
+  strict?: boolean;
+  /** Insert a table of contents built from the h3/h4 headings */
+  toc?: boolean | TableOfContentsOptions;
 }
 
 /**
@@ -183,8 +423,8 @@ export interface CreatePageParams {
 export interface EditPageParams {
   /** Access token of the Telegraph account */
   accessToken: string;
-  /** Path to the page */
-  path: string;
+  /** Path, URL or Page object of the page */
+  path: PageReference;
   /** Page title (1-256 characters) */
   title: string;
   /** Content of the page (HTML string or Node array) */
@@ -195,14 +435,102 @@ export interface EditPageParams {
   authorUrl?: string;
   /** If true, content field will be returned */
   returnContent?: boolean;
+  /** Upload local and data: image sources before publishing and rewrite their src */
+  uploadImages?: boolean | UploadImagesOptions;
+  /** Validate content with validateNodes before sending and throw on errors */
+  strict?: boolean;
+  /** Insert a table of contents built from the h3/h4 headings */
+  toc?: boolean | TableOfContentsOptions;
+}
+
+/**
+ * Parameters for createSeries method
+ */
+export interface CreateSeriesParams {
+  /** Access token of the Telegraph account */
+  accessToken: string;
+  /** Series title; each part is titled "<title> (Part N of M)" */
+  title: string;
+  /** Content of the whole series (HTML string or Node array) */
+  content: string | Node[];
+  /** Author name (0-128 characters) */
+  authorName?: string;
+  /** Profile link (0-512 characters) */
+  authorUrl?: string;
+  /** Paths, URLs or Page objects of the parts of an existing series, in order; they are edited instead of creating new pages */
+  paths?: PageReference[];
+  /** If true, content field will be returned */
+  returnContent?: boolean;
+  /** Upload local and data: image sources before publishing and rewrite their src */
+  uploadImages?: boolean | UploadImagesOptions;
+  /** Validate each part with validateNodes before sending and throw on errors */
+  strict?: boolean;
+}
+
+/**
+ * Value of a front matter key
+ */
+export type FrontMatterValue = string | number | boolean | null | (string | number | boolean | null)[];
+
+/**
+ * YAML front matter of a Markdown file
+ */
+export interface FrontMatter {
+  /** Page title */
+  title?: FrontMatterValue;
+  /** Author name */
+  author?: FrontMatterValue;
+  /** Profile link of the author */
+  author_url?: FrontMatterValue;
+  /** Path of the published page; present once the file has been published */
+  path?: FrontMatterValue;
+  /** URL of the published page */
+  url?: FrontMatterValue;
+  [key: string]: FrontMatterValue | undefined;
+}
+
+/**
+ * Parameters for publishMarkdown method
+ */
+export interface PublishMarkdownParams {
+  /** Access token of the Telegraph account */
+  accessToken: string;
+  /** Markdown file contents, optionally starting with YAML front matter */
+  markdown: string;
+  /** Title used when the front matter has none */
+  title?: string;
+  /** Author name used when the front matter has none */
+  authorName?: string;
+  /** Profile link used when the front matter has none */
+  authorUrl?: string;
+  /** If true, content field will be returned */
+  returnContent?: boolean;
+  /** Upload local and data: image sources before publishing and rewrite their src */
+  uploadImages?: boolean | UploadImagesOptions;
+  /** Validate content with validateNodes before sending and throw on errors */
+  strict?: boolean;
+  /** Insert a table of contents built from the h3/h4 headings */
+  toc?: boolean | TableOfContentsOptions;
+}
+
+/**
+ * Result of publishMarkdown
+ */
+export interface PublishMarkdownResult<C extends ResponseCase = 'snake'> {
+  /** Created or edited page */
+  page: ResponseModels<C>['page'];
+  /** Front matter with the page's path and url filled in */
+  frontMatter: FrontMatter;
+  /** Markdown file contents with the updated front matter, ready to be written back */
+  markdown: string;
 }
 
 /**
  * Parameters for getPage method
  */
 export interface GetPageParams {
-  /** Path to the Telegraph page */
-  path: string;
+  /** Path, URL or Page object of the Telegraph page */
+  path: PageReference;
   /** If true, content field will be returned */
   returnContent?: boolean;
 }
@@ -219,12 +547,22 @@ export interface GetPageListParams {
   limit?: number;
 }
 
+/**
+ * Parameters for iteratePages method
+ */
+export interface IteratePagesParams {
+  /** Access token of the Telegraph account */
+  accessToken: string;
+  /** Number of pages requested per getPageList call (1-200, default: 200) */
+  pageSize?: number;
+}
+
 /**
  * Parameters for getViews method
  */
 export interface GetViewsParams {
-  /** Path to the Telegraph page */
-  path: string;
+  /** Path, URL or Page object of the Telegraph page */
+  path: PageReference;
   /** Required if month is passed (2000-2100) */
   year?: number;
   /** Required if day is passed (1-12) */
@@ -234,3 +572,123 @@ export interface GetViewsParams {
   /** Pass to get views for a specific hour (0-24) */
   hour?: number;
 }
+
+/**
+ * Length of each period in a views series
+ */
+export type ViewsGranularity = 'hour' | 'day' | 'month';
+
+/**
+ * Cache of view counts for completed periods, keyed by page path, granularity and period start
+ *
+ * A Map<string, number> satisfies this interface; persistent stores can be used
+ * to skip refetching past periods across runs.
+ */
+export interface ViewsCache {
+  /** Get the view count stored for a key */
+  get(key: string): number | undefined | Promise<number | undefined>;
+  /** Store the view count of a completed period */
+  set(key: string, views: number): unknown;
+}
+
+/**
+ * Parameters for getViewsSeries method
+ */
+export interface GetViewsSeriesParams {
+  /** Path, URL or Page object of the Telegraph page */
+  path: PageReference;
+  /** Start of the range; the period containing it is the first point (UTC) */
+  from: Date | string | number;
+  /** End of the range; the period containing it is the last point (UTC) */
+  to: Date | string | number;
+  /** Length of each period */
+  granularity: ViewsGranularity;
+  /** Maximum number of getViews calls in flight at once, a positive integer (default: 4) */
+  concurrency?: number;
+  /** Cache of completed periods (default: in-memory cache of the client) */
+  cache?: ViewsCache;
+}
+
+/**
+ * View count of one period
+ */
+export interface ViewsSeriesPoint {
+  /** Start of the period, as an ISO 8601 UTC timestamp */
+  timestamp: string;
+  /** Number of page views in the period */
+  views: number;
+}
+
+/**
+ * Page views over a range of periods
+ */
+export interface ViewsSeries {
+  /** Path to the page */
+  path: string;
+  /** Length of each period */
+  granularity: ViewsGranularity;
+  /** One point per period, oldest first, including periods without views */
+  points: ViewsSeriesPoint[];
+  /** Sum of the views of all points */
+  total: number;
+}
+
+/**
+ * Data accepted by uploadFile: raw bytes, a Blob, a stream of bytes, or a file path (Node.js only)
+ */
+export type UploadSource =
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | string;
+
+/**
+ * Options for uploadFile
+ */
+export interface UploadFileOptions extends RequestOptions {
+  /** MIME type of the file (default: detected from the Blob type, file contents or extension) */
+  contentType?: string;
+  /** File name sent with the upload (default: derived from the path or MIME type) */
+  filename?: string;
+  /** Maximum file size in bytes (default: 5 MB) */
+  maxSize?: number;
+}
+
+/**
+ * Result of a media upload
+ */
+export interface UploadResult {
+  /** Path of the hosted file, usable as the src of an img or video node (e.g. /file/abc.jpg) */
+  src: string;
+  /** Absolute URL of the hosted file */
+  url: string;
+  /** MIME type of the uploaded file */
+  contentType: string;
+  /** Size of the uploaded file in bytes */
+  size: number;
+}
+
+/**
+ * Cache of uploaded files, keyed by the SHA-256 hash of their contents
+ *
+ * A Map<string, string> satisfies this interface; persistent stores can be used
+ * to skip re-uploading unchanged images across runs.
+ */
+export interface UploadCache {
+  /** Get the hosted src for a content hash */
+  get(hash: string): string | undefined | Promise<string | undefined>;
+  /** Store the hosted src for a content hash */
+  set(hash: string, src: string): unknown;
+}
+
+/**
+ * Options for uploading local images referenced in page content
+ */
+export interface UploadImagesOptions {
+  /** Directory that local image paths are resolved against and must stay inside; required for local paths */
+  baseDir?: string;
+  /** Cache of previous uploads (default: in-memory cache of the client) */
+  cache?: UploadCache;
+}
@@ -0,0 +1,207 @@
+/**
+ * Media Upload Helpers
+ * Read upload sources and check them against telegra.ph's upload rules
+ */
+
+import { TelegraphError, TelegraphNotFoundError, TelegraphValidationError } from './errors.js';
+import type { UploadSource } from './types.js';
+
+/**
+ * MIME types accepted by the telegra.ph upload endpoint
+ */
+export const UPLOAD_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'video/mp4'] as const;
+
+/**
+ * Default maximum upload size (5 MB)
+ */
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+};
+
+/**
+ * File contents read from an upload source
+ */
+export interface UploadData {
+  /** File bytes */
+  bytes: Uint8Array;
+  /** MIME type reported by the source (Blob type), if any */
+  type?: string;
+  /** File name derived from the source (file path), if any */
+  name?: string;
+}
+
+/**
+ * Read an upload source into memory
+ *
+ * @param source - Upload source
+ * @param maxSize - Maximum size in bytes; reading stops as soon as it is exceeded
+ * @returns File contents
+ * @throws {TelegraphValidationError} If the file exceeds maxSize
+ * @throws {TelegraphNotFoundError} If a file path does not exist
+ * @throws {TelegraphError} If a file path cannot be read
+ */
+export async function readUploadSource(source: UploadSource, maxSize: number): Promise<UploadData> {
+  if (typeof source === 'string') {
+    const { readFile, stat } = await import('node:fs/promises');
+    let bytes: Uint8Array;
+    try {
+      checkSize((await stat(source)).size, maxSize);
+      bytes = new Uint8Array(await readFile(source));
+    } catch (error) {
+      throw fileError(source, error);
+    }
+    const name = source.split(/[\\/]/).pop();
+    return { bytes, name };
+  }
+
+  if (source instanceof Uint8Array) {
+    checkSize(source.byteLength, maxSize);
+    return { bytes: source };
+  }
+
+  if (source instanceof ArrayBuffer) {
+    checkSize(source.byteLength, maxSize);
+    return { bytes: new Uint8Array(source) };
+  }
+
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    checkSize(source.size, maxSize);
+    return { bytes: new Uint8Array(await source.arrayBuffer()), type: source.type || undefined };
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of toAsyncIterable(source as ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>)) {
+    size += chunk.byteLength;
+    checkSize(size, maxSize);
+    chunks.push(chunk);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes };
+}
+
+/**
+ * Detect the MIME type of a file from its leading bytes
+ *
+ * @param bytes - File contents
+ * @returns MIME type, or undefined if not recognized
+ */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'image/png';
+  }
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x38) {
+    return 'image/gif';
+  }
+  // ISO base media file: box size followed by 'ftyp'
+  if (bytes[4] === 0x66 && bytes[5] === 0x74 && bytes[6] === 0x79 && bytes[7] === 0x70) {
+    return 'video/mp4';
+  }
+  return undefined;
+}
+
+/**
+ * Resolve and check the MIME type and file name of an upload
+ *
+ * @param data - File contents
+ * @param contentType - Explicit MIME type, if given
+ * @param filename - Explicit file name, if given
+ * @returns MIME type and file name
+ * @throws {TelegraphValidationError} If the type cannot be determined or is not supported
+ */
+export function resolveUploadType(
+  data: UploadData,
+  contentType?: string,
+  filename?: string
+): { contentType: string; filename: string } {
+  const name = filename || data.name;
+  const extension = name?.split('.').pop()?.toLowerCase();
+  const type = contentType
+    || data.type
+    || sniffMimeType(data.bytes)
+    || (extension ? EXTENSION_MIME_TYPES[extension] : undefined);
+
+  if (!type || !(UPLOAD_MIME_TYPES as readonly string[]).includes(type)) {
+    throw new TelegraphValidationError(
+      `Unsupported file type: ${type || 'unknown'} (allowed: ${UPLOAD_MIME_TYPES.join(', ')})`,
+      { code: 'FILE_TYPE_INVALID', method: 'upload' }
+    );
+  }
+
+  return { contentType: type, filename: name || `file.${MIME_EXTENSIONS[type]}` };
+}
+
+/**
+ * Throw if a file size exceeds the limit
+ */
+function checkSize(size: number, maxSize: number): void {
+  if (size > maxSize) {
+    throw new TelegraphValidationError(`File is too big: more than ${maxSize} bytes`, {
+      code: 'FILE_TOO_BIG',
+      method: 'upload',
+    });
+  }
+}
+
+/**
+ * Wrap a file system error for a file path in a TelegraphError
+ */
+function fileError(path: string, error: unknown): TelegraphError {
+  if (error instanceof TelegraphError) {
+    return error;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === 'ENOENT' || code === 'ENOTDIR') {
+    return new TelegraphNotFoundError(`File not found: ${path}`, { code: 'FILE_NOT_FOUND', method: 'upload', cause: error });
+  }
+  return new TelegraphError(`Cannot read file ${path}: ${(error as Error)?.message ?? String(error)}`, {
+    code: 'FILE_READ_FAILED',
+    method: 'upload',
+    cause: error,
+  });
+}
+
+/**
+ * Iterate a web ReadableStream or an async iterable of byte chunks
+ */
+async function* toAsyncIterable(
+  source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+): AsyncIterable<Uint8Array> {
+  if (Symbol.asyncIterator in source) {
+    yield* source as AsyncIterable<Uint8Array>;
+    return;
+  }
+
+  const reader = (source as ReadableStream<Uint8Array>).getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Content Validation
+ * Pre-flight checks of Node arrays against Telegraph's content rules
+ */
+
+import { ALLOWED_ATTRIBUTES, ALLOWED_TAGS, MAX_CONTENT_SIZE } from './types.js';
+import type { Node, ValidationDiagnostic, ValidationResult } from './types.js';
+
+/** Tags that form blocks and may not appear inside inline elements or paragraphs */
+const BLOCK_TAGS = ['aside', 'blockquote', 'figure', 'h3', 'h4', 'hr', 'ol', 'p', 'pre', 'ul'];
+
+/** Tags that only contain text-level content */
+const INLINE_TAGS = ['a', 'b', 'code', 'em', 'i', 's', 'strong', 'u'];
+
+/** Tags that may only contain inline content */
+const TEXT_BLOCK_TAGS = ['p', 'h3', 'h4'];
+
+/** Tags that never have children */
+const VOID_TAGS = ['br', 'hr', 'img'];
+
+/** Tags each allowed attribute belongs to */
+const ATTRIBUTE_TAGS: Record<string, string[]> = {
+  href: ['a'],
+  src: ['img', 'video', 'iframe'],
+};
+
+/**
+ * Options for validateNodes
+ */
+export interface ValidateOptions {
+  /** Maximum serialized content size in bytes (default: 64 KB) */
+  maxSize?: number;
+}
+
+/**
+ * Measure the serialized size of content as sent to the API
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @returns Size of the JSON-encoded content in bytes (UTF-8)
+ */
+export function measureContent(nodes: Node[]): number {
+  return new TextEncoder().encode(JSON.stringify(nodes)).byteLength;
+}
+
+/**
+ * Validate content against Telegraph's rules before sending it
+ *
+ * Checks tags against ALLOWED_TAGS, attributes against the href/src whitelist,
+ * nesting (blocks inside inline elements, list items outside lists, etc.)
+ * and the 64 KB content size limit.
+ *
+ * @param nodes - Array of Telegraph Node objects
+ * @param options - Validation options
+ * @returns Validation result with diagnostics pointing at offending nodes
+ *
+ * @example
+ * ```typescript
+ * const result = validateNodes(htmlToNodes('<div><h1>Title</h1></div>'));
+ * for (const d of result.diagnostics) {
+ *   console.log(`${d.severity} ${d.code} at ${d.tagPath}: ${d.message}`);
+ * }
+ * ```
+ */
+export function validateNodes(nodes: Node[], options: ValidateOptions = {}): ValidationResult {
+  const diagnostics: ValidationDiagnostic[] = [];
+  const maxSize = options.maxSize ?? MAX_CONTENT_SIZE;
+
+  const report = (
+    severity: ValidationDiagnostic['severity'],
+    code: ValidationDiagnostic['code'],
+    message: string,
+    path: number[],
+    tags: string[]
+  ) => {
+    diagnostics.push({ severity, code, message, path, tagPath: tags.join(' > ') });
+  };
+
+  const visit = (list: Node[], path: number[], tags: string[]) => {
+    const parent = tags[tags.length - 1];
+
+    list.forEach((node, index) => {
+      const nodePath = [...path, index];
+
+      if (typeof node === 'string') {
+        if ((parent === 'ul' || parent === 'ol') && node.trim()) {
+          report('warning', 'INVALID_NESTING', `Text directly inside <${parent}> must be wrapped in <li>`, nodePath, tags);
+        }
+        return;
+      }
+
+      if (!node || typeof node !== 'object' || typeof node.tag !== 'string') {
+        report('error', 'INVALID_NODE', 'Node must be a string or an object with a tag', nodePath, tags);
+        return;
+      }
+
+      const tag = node.tag;
+      const nodeTags = [...tags, tag];
+
+      if (!(ALLOWED_TAGS as readonly string[]).includes(tag)) {
+        report('error', 'TAG_NOT_ALLOWED', `Tag <${tag}> is not supported by Telegraph`, nodePath, nodeTags);
+      }
+
+      for (const [name, value] of Object.entries(node.attrs || {})) {
+        if (value === undefined) continue;
+        if (!(ALLOWED_ATTRIBUTES as readonly string[]).includes(name)) {
+          report('error', 'ATTR_NOT_ALLOWED', `Attribute "${name}" is not supported (only href and src)`, nodePath, nodeTags);
+        } else if (!ATTRIBUTE_TAGS[name].includes(tag)) {
+          report('warning', 'ATTR_MISPLACED', `Attribute "${name}" has no effect on <${tag}>`, nodePath, nodeTags);
+        }
+      }
+
+      const nesting = checkNesting(tag, tags, node.children);
+      if (nesting) {
+        report('error', 'INVALID_NESTING', nesting, nodePath, nodeTags);
+      }
+
+      if (node.children) {
+        visit(node.children, nodePath, nodeTags);
+      }
+    });
+  };
+
+  visit(nodes, [], []);
+
+  const size = measureContent(nodes);
+  if (size > maxSize) {
+    report('error', 'CONTENT_TOO_BIG', `Content is ${size} bytes, more than the ${maxSize} byte limit`, [], []);
+  }
+
+  return {
+    valid: !diagnostics.some(d => d.severity === 'error'),
+    diagnostics,
+    size,
+  };
+}
+
+/**
+ * Check whether a tag may appear inside its ancestors
+ *
+ * @returns Problem description, or undefined if the nesting is valid
+ */
+function checkNesting(tag: string, ancestors: string[], children: Node[] | undefined): string | undefined {
+  const parent = ancestors[ancestors.length - 1];
+
+  if (VOID_TAGS.includes(tag) && children && children.length > 0) {
+    return `<${tag}> cannot have children`;
+  }
+  if (tag === 'li' && parent !== 'ul' && parent !== 'ol') {
+    return '<li> must be inside <ul> or <ol>';
+  }
+  if ((parent === 'ul' || parent === 'ol') && tag !== 'li') {
+    return `<${tag}> cannot be a direct child of <${parent}>`;
+  }
+  if (tag === 'figcaption' && parent !== 'figure') {
+    return '<figcaption> must be inside <figure>';
+  }
+  if (tag === 'a' && ancestors.includes('a')) {
+    return '<a> cannot be nested inside another <a>';
+  }
+  if (BLOCK_TAGS.includes(tag)) {
+    const container = [...ancestors].reverse().find(t => INLINE_TAGS.includes(t) || TEXT_BLOCK_TAGS.includes(t));
+    if (container) {
+      return `Block <${tag}> cannot be inside <${container}>`;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,170 @@
+/**
+ * View Statistics
+ * Split a time range into the UTC periods getViews can count
+ */
+
+import { TelegraphValidationError } from './errors.js';
+import type { GetViewsParams, ViewsCache, ViewsGranularity } from './types.js';
+
+/** Largest number of periods a views series may span */
+export const MAX_VIEWS_SERIES_POINTS = 10000;
+
+/** Number of view counts a client keeps in memory when no size is given */
+export const DEFAULT_VIEWS_CACHE_SIZE = 10000;
+
+/**
+ * UTC period of a views series
+ */
+export interface ViewsPeriod {
+  /** Start of the period (inclusive) */
+  start: Date;
+  /** Start of the next period (exclusive end) */
+  end: Date;
+  /** getViews parameters selecting the period */
+  params: Pick<GetViewsParams, 'year' | 'month' | 'day' | 'hour'>;
+}
+
+/**
+ * List the periods between two instants
+ *
+ * The first period is the one containing `from` and the last the one containing `to`.
+ * Periods follow UTC calendar boundaries, so months have their real lengths and there
+ * are no daylight saving shifts. Each period carries the getViews parameters selecting
+ * it: year and month for months, plus day for days, plus hour for hours.
+ *
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @param granularity - Length of each period
+ * @returns Periods, oldest first
+ * @throws {TelegraphValidationError} If the range is invalid, outside 2000-2100 or too long (VIEWS_RANGE_INVALID)
+ */
+export function viewsPeriods(
+  from: Date | string | number,
+  to: Date | string | number,
+  granularity: ViewsGranularity
+): ViewsPeriod[] {
+  const invalid = (message: string) =>
+    new TelegraphValidationError(message, { code: 'VIEWS_RANGE_INVALID', method: 'getViews' });
+
+  if (granularity !== 'hour' && granularity !== 'day' && granularity !== 'month') {
+    throw invalid(`granularity must be 'hour', 'day' or 'month', got ${String(granularity)}`);
+  }
+  const start = new Date(from);
+  const end = new Date(to);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw invalid('from and to must be valid dates');
+  }
+  if (start > end) {
+    throw invalid('from must not be after to');
+  }
+  if (start.getUTCFullYear() < 2000 || end.getUTCFullYear() > 2100) {
+    throw invalid('Views are only available for the years 2000 to 2100');
+  }
+
+  const periods: ViewsPeriod[] = [];
+  let current = periodStart(start, granularity);
+  while (current <= end) {
+    if (periods.length >= MAX_VIEWS_SERIES_POINTS) {
+      throw invalid(`The range spans more than ${MAX_VIEWS_SERIES_POINTS} ${granularity}s`);
+    }
+    const next = nextPeriod(current, granularity);
+    periods.push({ start: current, end: next, params: periodParams(current, granularity) });
+    current = next;
+  }
+  return periods;
+}
+
+/**
+ * Start of the UTC period containing an instant
+ */
+function periodStart(date: Date, granularity: ViewsGranularity): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (granularity) {
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'day':
+      return new Date(Date.UTC(year, month, date.getUTCDate()));
+    default:
+      return new Date(Date.UTC(year, month, date.getUTCDate(), date.getUTCHours()));
+  }
+}
+
+/**
+ * Start of the period after the one starting at date
+ */
+function nextPeriod(date: Date, granularity: ViewsGranularity): Date {
+  switch (granularity) {
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    case 'day':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+    default:
+      return new Date(date.getTime() + 3600 * 1000);
+  }
+}
+
+/**
+ * getViews parameters for a period; each field requires the ones before it
+ */
+function periodParams(start: Date, granularity: ViewsGranularity): ViewsPeriod['params'] {
+  const params: ViewsPeriod['params'] = { year: start.getUTCFullYear(), month: start.getUTCMonth() + 1 };
+  if (granularity !== 'month') {
+    params.day = start.getUTCDate();
+  }
+  if (granularity === 'hour') {
+    params.hour = start.getUTCHours();
+  }
+  return params;
+}
+
+/**
+ * In-memory views cache that keeps the most recently used `maxSize` entries
+ */
+export class LruViewsCache implements ViewsCache {
+  private readonly maxSize: number;
+  private readonly entries = new Map<string, number>();
+
+  /**
+   * Creates a new LruViewsCache
+   * @param maxSize - Maximum number of entries; 0 keeps nothing
+   */
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * Number of entries in the cache
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a view count, marking it as recently used
+   */
+  get(key: string): number | undefined {
+    const views = this.entries.get(key);
+    if (views !== undefined) {
+      // Maps iterate in insertion order, so reinserting moves the key to the newest end
+      this.entries.delete(key);
+      this.entries.set(key, views);
+    }
+    return views;
+  }
+
+  /**
+   * Store a view count, dropping the least recently used entry when full
+   */
+  set(key: string, views: number): this {
+    this.entries.delete(key);
+    if (this.maxSize < 1) {
+      return this;
+    }
+    this.entries.set(key, views);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return this;
+  }
+}
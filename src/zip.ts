@@ -0,0 +1,128 @@
+/**
+ * Zip Writer
+ * Minimal, dependency-free writer for uncompressed (stored) zip archives
+ */
+
+import { TelegraphError } from './errors.js';
+
+/**
+ * File to add to a zip archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with / separators */
+  name: string;
+  /** File contents; strings are written as UTF-8 */
+  data: Uint8Array | string;
+}
+
+/** Largest size or offset a zip archive without Zip64 extensions can hold */
+const MAX_ZIP_SIZE = 0xffffffff;
+
+/** CRC-32 lookup table (polynomial 0xEDB88320) */
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Build a zip archive with every file stored uncompressed
+ *
+ * Entries are written in the given order, with no extra fields, which is what the EPUB
+ * container format requires of its leading mimetype file.
+ *
+ * @param entries - Files to add
+ * @param date - Modification time recorded for every file (default: now)
+ * @returns Zip archive bytes
+ * @throws {TelegraphError} If the archive would need Zip64 extensions (ZIP_TOO_LARGE)
+ */
+export function createZip(entries: ZipEntry[], date: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    // Bit 11 marks UTF-8 names; plain ASCII names leave it unset
+    const flags = /^[\x20-\x7e]*$/.test(entry.name) ? 0 : 0x0800;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 10, true);
+    local.setUint16(6, flags, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 10, true);
+    header.setUint16(8, flags, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, day, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new TelegraphError('Archive is larger than 4 GB', { code: 'ZIP_TOO_LARGE' });
+    }
+  }
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  if (entries.length > 0xffff || offset + centralSize > MAX_ZIP_SIZE) {
+    throw new TelegraphError('Archive has too many files or is larger than 4 GB', { code: 'ZIP_TOO_LARGE' });
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+/**
+ * Compute the CRC-32 checksum of some bytes
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
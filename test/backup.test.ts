@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  Telegraph,
+  backupAccount,
+  copyAccount,
+  parseBackupNdjson,
+  restoreAccount,
+  streamAccountBackup,
+} from '../src/index.js';
+import type { AccountBackup, BackupRecord } from '../src/index.js';
+import { apiError, fakeAccount, fakePage } from './helpers.js';
+
+/** Account of `count` pages, newest first, named Page-<n> */
+function pages(count: number) {
+  return Array.from({ length: count }, (_, index) => fakePage(`Page-${count - index}`, `Page ${count - index}`));
+}
+
+describe('backupAccount', () => {
+  test('backs up every page, newest first', async () => {
+    const { fetch } = fakeAccount(pages(3));
+    const backup = await backupAccount({ accessToken: 'token', includeNodes: true, client: new Telegraph({ fetch }) });
+
+    assert.equal(backup.total_count, 3);
+    assert.equal(backup.exported_count, 3);
+    assert.deepEqual(backup.pages.map(page => page.path), ['Page-3', 'Page-2', 'Page-1']);
+    assert.equal(backup.pages[0].content.trim(), 'Page 3');
+    assert.deepEqual(backup.pages[0].nodes, ['Page 3']);
+  });
+
+  test('stops listing once limit pages are listed', async () => {
+    const { fetch } = fakeAccount(pages(450));
+    const backup = await backupAccount({ accessToken: 'token', limit: 5, client: new Telegraph({ fetch }) });
+
+    assert.equal(backup.total_count, 450);
+    assert.deepEqual(backup.pages.map(page => page.path), ['Page-450', 'Page-449', 'Page-448', 'Page-447', 'Page-446']);
+    const listCalls = fetch.calls.filter(call => call.method === 'getPageList');
+    assert.deepEqual(listCalls.map(call => call.params.limit), ['5']);
+  });
+
+  test('pages through the account 200 at a time', async () => {
+    const { fetch } = fakeAccount(pages(450));
+    const backup = await backupAccount({ accessToken: 'token', limit: 250, concurrency: 8, client: new Telegraph({ fetch }) });
+
+    assert.equal(backup.exported_count, 250);
+    const listCalls = fetch.calls.filter(call => call.method === 'getPageList');
+    assert.deepEqual(listCalls.map(call => [call.params.offset, call.params.limit]), [['0', '200'], ['200', '50']]);
+  });
+
+  test('reports pages that fail and carries on', async () => {
+    const { fetch } = fakeAccount(pages(3), { failPaths: ['Page-2'] });
+    const backup = await backupAccount({ accessToken: 'token', client: new Telegraph({ fetch }) });
+
+    assert.deepEqual(backup.pages.map(page => page.path), ['Page-3', 'Page-1']);
+    assert.deepEqual(backup.failed.map(failure => [failure.path, failure.code]), [['Page-2', 'PAGE_NOT_FOUND']]);
+  });
+
+  test('passes each record to onCheckpoint without copying the backup', async () => {
+    const { fetch } = fakeAccount(pages(3), { failPaths: ['Page-1'] });
+    const records: BackupRecord[] = [];
+    const backups = new Set<AccountBackup>();
+    const backup = await backupAccount({
+      accessToken: 'token',
+      client: new Telegraph({ fetch }),
+      onCheckpoint: (record, partial) => {
+        records.push(record);
+        backups.add(partial);
+      },
+    });
+
+    assert.deepEqual(records.map(record => record.type), ['backup', 'page', 'page', 'failure', 'end']);
+    assert.deepEqual([...backups], [backup]);
+  });
+
+  test('resumes from checkpoint records saved as NDJSON', async () => {
+    const account = fakeAccount(pages(4));
+    let saved = '';
+    let calls = 0;
+    await assert.rejects(backupAccount({
+      accessToken: 'token',
+      concurrency: 1,
+      client: new Telegraph({ fetch: account.fetch }),
+      onCheckpoint: record => {
+        saved += JSON.stringify(record) + '\n';
+        if (record.type === 'page' && ++calls === 2) throw new Error('interrupted');
+      },
+    }), /interrupted/);
+
+    const fetched = account.fetch.calls.length;
+    const backup = await backupAccount({
+      accessToken: 'token',
+      concurrency: 1,
+      client: new Telegraph({ fetch: account.fetch }),
+      resume: parseBackupNdjson(saved),
+    });
+
+    assert.deepEqual(backup.pages.map(page => page.path), ['Page-4', 'Page-3', 'Page-2', 'Page-1']);
+    const refetched = account.fetch.calls.slice(fetched).filter(call => call.method === 'getPage');
+    assert.deepEqual(refetched.map(call => call.params.path), ['Page-2', 'Page-1']);
+  });
+
+  test('refuses to resume a backup in another format', async () => {
+    const { fetch } = fakeAccount(pages(1));
+    const resume: AccountBackup = { total_count: 1, exported_count: 0, format: 'html', pages: [], failed: [] };
+    await assert.rejects(
+      backupAccount({ accessToken: 'token', format: 'markdown', resume, client: new Telegraph({ fetch }) }),
+      { code: 'BACKUP_FORMAT_MISMATCH' }
+    );
+  });
+});
+
+describe('streamAccountBackup', () => {
+  test('writes NDJSON that parses back into the same backup', async () => {
+    const { fetch } = fakeAccount(pages(3), { failPaths: ['Page-2'] });
+    const client = new Telegraph({ fetch });
+    let ndjson = '';
+    for await (const line of streamAccountBackup({ accessToken: 'token', includeNodes: true, client })) {
+      assert.ok(line.endsWith('\n'));
+      ndjson += line;
+    }
+
+    const lines = ndjson.trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(lines[0], { type: 'backup', format: 'markdown', total_count: 3 });
+    assert.deepEqual(lines[lines.length - 1], { type: 'end', exported_count: 2, failed_count: 1 });
+
+    const parsed = parseBackupNdjson(ndjson);
+    const backup = await backupAccount({ accessToken: 'token', includeNodes: true, client });
+    assert.deepEqual(parsed, JSON.parse(JSON.stringify(backup)));
+  });
+
+  test('parseBackupNdjson reports invalid lines', () => {
+    assert.throws(() => parseBackupNdjson('{"type":"backup"}\n{oops\n'), { code: 'BACKUP_INVALID', message: /line 2/ });
+  });
+});
+
+describe('restoreAccount', () => {
+  const source = () => [
+    fakePage('Second', 'Second', [{ tag: 'p', children: [{ tag: 'a', attrs: { href: 'https://telegra.ph/First' }, children: ['back'] }] }]),
+    fakePage('First', 'First', [{ tag: 'p', children: [{ tag: 'a', attrs: { href: '/Second#top' }, children: ['next'] }] }]),
+  ];
+
+  test('recreates pages oldest first and rewrites links between them', async () => {
+    const from = fakeAccount(source());
+    const backup = await backupAccount({ accessToken: 'token', includeNodes: true, client: new Telegraph({ fetch: from.fetch }) });
+
+    const to = fakeAccount([]);
+    const result = await restoreAccount(backup, 'other-token', { client: new Telegraph({ fetch: to.fetch }) });
+
+    assert.deepEqual(result.paths, { First: 'First-1', Second: 'Second-2' });
+    assert.deepEqual(to.pages.map(page => page.path), ['Second-2', 'First-1']);
+    assert.deepEqual(result.pages.map(page => [page.from, page.links]), [['Second', 1], ['First', 1]]);
+    // First linked forward to Second, so it was edited once Second existed
+    assert.deepEqual(to.pages[1].content, [{ tag: 'p', children: [{ tag: 'a', attrs: { href: '/Second-2#top' }, children: ['next'] }] }]);
+    assert.deepEqual(to.pages[0].content, [{ tag: 'p', children: [{ tag: 'a', attrs: { href: 'https://telegra.ph/First-1' }, children: ['back'] }] }]);
+  });
+
+  test('makes no requests in a dry run', async () => {
+    const from = fakeAccount(source());
+    const backup = await backupAccount({ accessToken: 'token', client: new Telegraph({ fetch: from.fetch }) });
+
+    const to = fakeAccount([]);
+    const result = await restoreAccount(backup, 'other-token', { dryRun: true, client: new Telegraph({ fetch: to.fetch }) });
+
+    assert.equal(to.fetch.calls.length, 0);
+    assert.deepEqual(result.pages.map(page => [page.from, page.status, page.links]), [['Second', 'planned', 1], ['First', 'planned', 1]]);
+    assert.deepEqual(result.paths, {});
+  });
+
+  test('keeps a page whose link edit failed in pages, not in failed', async () => {
+    const from = fakeAccount(source());
+    const backup = await backupAccount({ accessToken: 'token', includeNodes: true, client: new Telegraph({ fetch: from.fetch }) });
+
+    const to = fakeAccount([]);
+    const fetch: typeof globalThis.fetch = async (input, init) =>
+      (String(input).endsWith('/editPage') ? apiError('PAGE_SAVE_FAILED') : to.fetch(input, init));
+    const result = await restoreAccount(backup, 'other-token', { client: new Telegraph({ fetch }) });
+
+    assert.deepEqual(result.failed, []);
+    assert.deepEqual(result.paths, { First: 'First-1', Second: 'Second-2' });
+    assert.deepEqual(result.pages.map(page => [page.from, page.status, page.links]), [['Second', 'restored', 1], ['First', 'links_pending', 0]]);
+    assert.equal(result.pages[1].error?.code, 'PAGE_SAVE_FAILED');
+    assert.deepEqual(to.pages[1].content, [{ tag: 'p', children: [{ tag: 'a', attrs: { href: '/Second#top' }, children: ['next'] }] }]);
+  });
+
+  test('reports invalid pages and pages that could not be created in failed', async () => {
+    const backup: AccountBackup = {
+      format: 'markdown',
+      total_count: 3,
+      exported_count: 3,
+      pages: [
+        { ...fakePage('Rejected', 'Rejected'), content: 'Rejected', nodes: ['Rejected'] },
+        { ...fakePage('Invalid', 'Invalid'), content: '', nodes: [{ tag: 'script', children: ['alert(1)'] }] },
+        { ...fakePage('Parsed', 'Parsed'), content: '**bold** [link](https://telegra.ph/Rejected)' },
+      ],
+      failed: [],
+    };
+
+    const to = fakeAccount([]);
+    const fetch: typeof globalThis.fetch = async (input, init) =>
+      (String(init?.body).includes('title=Rejected') ? apiError('CONTENT_TOO_BIG') : to.fetch(input, init));
+    const result = await restoreAccount(backup, 'other-token', { client: new Telegraph({ fetch }) });
+
+    assert.deepEqual(result.failed.map(failure => [failure.path, failure.code]), [['Invalid', 'TAG_NOT_ALLOWED'], ['Rejected', 'CONTENT_TOO_BIG']]);
+    assert.deepEqual(result.pages.map(page => [page.from, page.status, page.links]), [['Parsed', 'restored', 0]]);
+    // Backups without nodes are parsed from their Markdown; links to pages that failed are kept
+    assert.deepEqual(to.pages[0].content, [{
+      tag: 'p',
+      children: [{ tag: 'b', children: ['bold'] }, ' ', { tag: 'a', attrs: { href: 'https://telegra.ph/Rejected' }, children: ['link'] }],
+    }]);
+  });
+});
+
+describe('copyAccount', () => {
+  test('copies every readable page and lists unreadable ones first in failed', async () => {
+    const from = fakeAccount([
+      fakePage('Third', 'Third'),
+      fakePage('Second', 'Second', [{ tag: 'a', attrs: { href: 'https://graph.org/Third' }, children: ['next'] }]),
+      fakePage('First', 'First'),
+    ], { failPaths: ['First'] });
+    const to = fakeAccount([]);
+    // Reads go to the source account, page creation and edits to the target
+    const fetch: typeof globalThis.fetch = async (input, init) =>
+      (/\/(createPage|editPage)$/.test(String(input)) ? to.fetch(input, init) : from.fetch(input, init));
+
+    const result = await copyAccount({ fromAccessToken: 'from', toAccessToken: 'to', client: new Telegraph({ fetch }) });
+
+    assert.deepEqual(result.failed.map(failure => [failure.path, failure.code]), [['First', 'PAGE_NOT_FOUND']]);
+    assert.deepEqual(result.paths, { Second: 'Second-1', Third: 'Third-2' });
+    assert.deepEqual(result.pages.map(page => [page.from, page.status, page.links]), [['Third', 'restored', 0], ['Second', 'restored', 1]]);
+    assert.deepEqual(to.pages[1].content, [{ tag: 'a', attrs: { href: 'https://graph.org/Third-2' }, children: ['next'] }]);
+  });
+});
@@ -0,0 +1,202 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { TestContext } from 'node:test';
+import { Telegraph, TelegraphNetworkError, TelegraphRateLimitError } from '../src/index.js';
+import { apiError, apiResult, mockFetch, stalledResponse } from './helpers.js';
+
+const PAGE = { path: 'Hello-01-01', url: 'https://telegra.ph/Hello-01-01', title: 'Hello', description: '', views: 3 };
+
+/** Retry policy without waiting between attempts */
+const FAST_RETRY = { retries: 2, minDelay: 1, jitter: false };
+
+/**
+ * Record the delays the client sleeps for, running each timer right away
+ */
+function recordDelays(t: TestContext): number[] {
+  const delays: number[] = [];
+  const realSetTimeout = globalThis.setTimeout;
+  t.mock.method(globalThis, 'setTimeout', (callback: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    return realSetTimeout(callback, 0);
+  });
+  return delays;
+}
+
+describe('retries', () => {
+  test('retries reads after a 5xx response', async () => {
+    let failures = 2;
+    const fetch = mockFetch(() => (failures-- > 0 ? new Response('', { status: 502 }) : apiResult(PAGE)));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    assert.deepEqual(await telegraph.getPage({ path: PAGE.path }), PAGE);
+    assert.equal(fetch.calls.length, 3);
+  });
+
+  test('gives up after the last retry', async () => {
+    const fetch = mockFetch(() => new Response('', { status: 503 }));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), { httpStatus: 503 });
+    assert.equal(fetch.calls.length, 3);
+  });
+
+  test('does not retry mutations unless asked to', async () => {
+    const fetch = mockFetch(() => new Response('', { status: 500 }));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(telegraph.createPage({ accessToken: 'token', title: 'Hello', content: 'Hi' }), { httpStatus: 500 });
+    assert.equal(fetch.calls.length, 1);
+
+    await assert.rejects(
+      telegraph.createPage({ accessToken: 'token', title: 'Hello', content: 'Hi' }, { retry: { ...FAST_RETRY, retryMutations: true } }),
+      { httpStatus: 500 }
+    );
+    assert.equal(fetch.calls.length, 4);
+  });
+
+  test('waits out FLOOD_WAIT errors, even for mutations', async () => {
+    let floods = 1;
+    const fetch = mockFetch(() => (floods-- > 0 ? apiError('FLOOD_WAIT_0') : apiResult(PAGE)));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    assert.deepEqual(await telegraph.createPage({ accessToken: 'token', title: 'Hello', content: 'Hi' }), PAGE);
+    assert.equal(fetch.calls.length, 2);
+  });
+
+  test('does not wait longer than maxFloodWait', async () => {
+    const fetch = mockFetch(() => apiError('FLOOD_WAIT_120'));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), TelegraphRateLimitError);
+    assert.equal(fetch.calls.length, 1);
+  });
+
+  test('does not retry API errors', async () => {
+    const fetch = mockFetch(() => apiError('PAGE_NOT_FOUND'));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), { code: 'PAGE_NOT_FOUND' });
+    assert.equal(fetch.calls.length, 1);
+  });
+
+  test('does not retry without a retry policy', async () => {
+    const fetch = mockFetch(() => new Response('', { status: 502 }));
+    const telegraph = new Telegraph({ fetch });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), { httpStatus: 502 });
+    assert.equal(fetch.calls.length, 1);
+
+    const retrying = new Telegraph({ fetch, retry: FAST_RETRY });
+    await assert.rejects(retrying.getPage({ path: PAGE.path }, { retry: false }), { httpStatus: 502 });
+    assert.equal(fetch.calls.length, 2);
+  });
+
+  test('backs off exponentially up to maxDelay', async t => {
+    const delays = recordDelays(t);
+    const fetch = mockFetch(() => new Response('', { status: 503 }));
+    const telegraph = new Telegraph({ fetch, retry: { retries: 4, minDelay: 100, factor: 2, maxDelay: 300, jitter: false } });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), { httpStatus: 503 });
+    assert.equal(fetch.calls.length, 5);
+    assert.deepEqual(delays, [100, 200, 300, 300]);
+  });
+
+  test('jitters each delay between zero and the exponential delay', async t => {
+    const delays = recordDelays(t);
+    t.mock.method(Math, 'random', () => 0.5);
+    const fetch = mockFetch(() => new Response('', { status: 503 }));
+    const telegraph = new Telegraph({ fetch, retry: { retries: 2, minDelay: 100 } });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), { httpStatus: 503 });
+    assert.deepEqual(delays, [50, 100]);
+  });
+
+  test('waits the number of seconds FLOOD_WAIT asks for', async t => {
+    const delays = recordDelays(t);
+    let floods = 2;
+    const fetch = mockFetch(() => (floods-- > 0 ? apiError('FLOOD_WAIT_3') : apiResult(PAGE)));
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    assert.deepEqual(await telegraph.getPage({ path: PAGE.path }), PAGE);
+    assert.deepEqual(delays, [3000, 3000]);
+
+    floods = 1;
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }, { retry: { ...FAST_RETRY, retryFloodWait: false } }), TelegraphRateLimitError);
+    assert.equal(fetch.calls.length, 4);
+  });
+
+  test('does not retry createPage or editPage after network errors', async () => {
+    const fetch = mockFetch(() => {
+      throw new TypeError('fetch failed');
+    });
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), TelegraphNetworkError);
+    assert.equal(fetch.calls.length, 3);
+
+    await assert.rejects(telegraph.createPage({ accessToken: 'token', title: 'Hello', content: 'Hi' }), TelegraphNetworkError);
+    await assert.rejects(
+      telegraph.editPage({ accessToken: 'token', path: PAGE.path, title: 'Hello', content: 'Hi' }),
+      TelegraphNetworkError
+    );
+    assert.deepEqual(fetch.calls.slice(3).map(call => call.method), ['createPage', 'editPage']);
+  });
+});
+
+describe('timeouts', () => {
+  test('times out a request that never responds', async () => {
+    const fetch = mockFetch(call => new Promise((_, reject) => {
+      call.signal?.addEventListener('abort', () => reject(call.signal?.reason));
+    }));
+    const telegraph = new Telegraph({ fetch, timeout: 20 });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), (error: unknown) => {
+      assert.ok(error instanceof TelegraphNetworkError);
+      assert.equal(error.code, 'TIMEOUT');
+      return true;
+    });
+  });
+
+  test('times out a response whose body stalls', async () => {
+    const fetch = mockFetch(() => stalledResponse());
+    const telegraph = new Telegraph({ fetch, timeout: 20 });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }), { name: 'TelegraphNetworkError', code: 'TIMEOUT' });
+  });
+
+  test('times out an upload whose response body stalls', async () => {
+    const fetch = mockFetch(() => stalledResponse());
+    const telegraph = new Telegraph({ fetch, timeout: 20 });
+
+    await assert.rejects(
+      telegraph.uploadFile(new Uint8Array([0x89, 0x50, 0x4e, 0x47]), { contentType: 'image/png' }),
+      { code: 'TIMEOUT' }
+    );
+  });
+
+  test('retries reads that timed out', async () => {
+    let stalls = 1;
+    const fetch = mockFetch(() => (stalls-- > 0 ? stalledResponse() : apiResult(PAGE)));
+    const telegraph = new Telegraph({ fetch, timeout: 20, retry: FAST_RETRY });
+
+    assert.deepEqual(await telegraph.getPage({ path: PAGE.path }), PAGE);
+    assert.equal(fetch.calls.length, 2);
+  });
+
+  test('aborts while the body is read', async () => {
+    const fetch = mockFetch(() => stalledResponse());
+    const telegraph = new Telegraph({ fetch, retry: FAST_RETRY });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }, { signal: controller.signal }), { code: 'ABORTED' });
+    assert.equal(fetch.calls.length, 1);
+  });
+
+  test('per-call timeouts override the client default', async () => {
+    const fetch = mockFetch(() => stalledResponse());
+    const telegraph = new Telegraph({ fetch, timeout: 60_000 });
+
+    await assert.rejects(telegraph.getPage({ path: PAGE.path }, { timeout: 20 }), { code: 'TIMEOUT' });
+  });
+});
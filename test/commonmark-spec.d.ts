@@ -0,0 +1,12 @@
+declare module 'commonmark-spec' {
+  /** Example of the CommonMark spec */
+  export interface SpecExample {
+    markdown: string;
+    html: string;
+    section: string;
+    number: number;
+  }
+
+  /** Every example of the spec, in order */
+  export const tests: SpecExample[];
+}
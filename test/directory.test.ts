@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { Telegraph, exportToDirectory } from '../src/index.js';
+import { fakeAccount, fakePage } from './helpers.js';
+
+/**
+ * Asset server that records requested URLs and answers with their path as the body
+ */
+function assetFetch(handler: (url: string, signal?: AbortSignal) => Response | Promise<Response> = url => new Response(new URL(url).pathname)) {
+  const urls: string[] = [];
+  const fetchImpl = async (input: RequestInfo | URL, init?: RequestInit) => {
+    urls.push(String(input));
+    return handler(String(input), init?.signal ?? undefined);
+  };
+  return Object.assign(fetchImpl, { urls }) as typeof fetch & { urls: string[] };
+}
+
+describe('exportToDirectory', () => {
+  let root: string;
+  let run = 0;
+  const nextDirectory = () => join(root, `export-${++run}`);
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'telegraph-directory-'));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test('writes a file per page with front matter, links between pages and an index', async () => {
+    const { fetch } = fakeAccount([
+      fakePage('Second-01-02', 'Second', [{ tag: 'p', children: [{ tag: 'a', attrs: { href: 'https://telegra.ph/First-01-01#top' }, children: ['back'] }] }], { views: 7 }),
+      fakePage('First-01-01', 'First', [{ tag: 'p', children: ['Hello *world*'] }]),
+    ]);
+    const directory = nextDirectory();
+    const result = await exportToDirectory({ accessToken: 'token', directory, client: new Telegraph({ fetch }) });
+
+    assert.deepEqual(result.files, ['index.md', 'Second-01-02.md', 'First-01-01.md']);
+    assert.equal(result.exported_count, 2);
+    assert.deepEqual(result.failed, []);
+    assert.deepEqual((await readdir(directory)).sort(), ['First-01-01.md', 'Second-01-02.md', 'index.md']);
+
+    const second = await readFile(join(directory, 'Second-01-02.md'), 'utf8');
+    assert.match(second, /^---\ntitle: Second\n/);
+    assert.match(second, /\nviews: 7\n/);
+    assert.match(second, /\npath: Second-01-02\n---\n/);
+    assert.match(second, /\[back\]\(\.\/First-01-01\.md#top\)/);
+    assert.match(await readFile(join(directory, 'First-01-01.md'), 'utf8'), /Hello \\\*world\\\*/);
+    assert.match(await readFile(join(directory, 'index.md'), 'utf8'), /- \[Second\]\(\.\/Second-01-02\.md\)\n- \[First\]\(\.\/First-01-01\.md\)/);
+  });
+
+  test('writes HTML and lists pages that could not be fetched', async () => {
+    const { fetch } = fakeAccount([fakePage('Good-01-01', 'Good', [{ tag: 'p', children: ['<ok>'] }]), fakePage('Bad-01-01', 'Bad')], {
+      failPaths: ['Bad-01-01'],
+    });
+    const directory = nextDirectory();
+    const result = await exportToDirectory({ accessToken: 'token', directory, format: 'html', client: new Telegraph({ fetch }) });
+
+    assert.deepEqual(result.files, ['index.html', 'Good-01-01.html']);
+    assert.deepEqual(result.failed.map(failure => failure.path), ['Bad-01-01']);
+    assert.match(await readFile(join(directory, 'Good-01-01.html'), 'utf8'), /<p>&lt;ok&gt;<\/p>/);
+  });
+
+  test('downloads each asset once and links pages to the local copy', async () => {
+    const { fetch } = fakeAccount([
+      fakePage('One-01-01', 'One', [{ tag: 'img', attrs: { src: '/file/a.png' } }, { tag: 'img', attrs: { src: 'https://telegra.ph/file/a.png' } }]),
+      fakePage('Two-01-01', 'Two', [{ tag: 'figure', children: [{ tag: 'img', attrs: { src: '/file/a.png' } }] }]),
+    ]);
+    const assets = assetFetch();
+    const directory = nextDirectory();
+    const result = await exportToDirectory({
+      accessToken: 'token',
+      directory,
+      downloadAssets: true,
+      client: new Telegraph({ fetch }),
+      fetch: assets,
+    });
+
+    assert.deepEqual(assets.urls, ['https://telegra.ph/file/a.png']);
+    assert.equal(result.asset_count, 1);
+    assert.deepEqual(result.failed_assets, []);
+    assert.equal(await readFile(join(directory, 'assets', 'a.png'), 'utf8'), '/file/a.png');
+    assert.match(await readFile(join(directory, 'One-01-01.md'), 'utf8'), /\n---\n!\[\]\(assets\/a\.png\)!\[\]\(assets\/a\.png\)\n$/);
+    assert.match(await readFile(join(directory, 'Two-01-01.md'), 'utf8'), /\]\(assets\/a\.png\)/);
+  });
+
+  test('records malformed, missing and slow assets without stopping the export', async () => {
+    const { fetch } = fakeAccount([
+      fakePage('Media-01-01', 'Media', [
+        { tag: 'img', attrs: { src: 'http://[' } },
+        { tag: 'img', attrs: { src: '/file/%E0%A4%A.png' } },
+        { tag: 'img', attrs: { src: '/file/missing.png' } },
+        { tag: 'video', attrs: { src: '/file/slow.mp4' } },
+        { tag: 'img', attrs: { src: '/file/ok.png' } },
+      ]),
+    ]);
+    const assets = assetFetch((url, signal) => {
+      if (url.endsWith('/missing.png')) return new Response('', { status: 404 });
+      if (url.endsWith('/slow.mp4')) {
+        return new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason)));
+      }
+      return new Response('ok');
+    });
+    const directory = nextDirectory();
+    const result = await exportToDirectory({
+      accessToken: 'token',
+      directory,
+      downloadAssets: true,
+      assetTimeout: 20,
+      client: new Telegraph({ fetch }),
+      fetch: assets,
+    });
+
+    assert.deepEqual(assets.urls, ['https://telegra.ph/file/missing.png', 'https://telegra.ph/file/slow.mp4', 'https://telegra.ph/file/ok.png']);
+    assert.equal(result.exported_count, 1);
+    assert.equal(result.asset_count, 1);
+    assert.deepEqual(result.failed_assets.map(failure => failure.src), ['http://[', '/file/%E0%A4%A.png', '/file/missing.png', '/file/slow.mp4']);
+    assert.match(result.failed_assets[0].message, /Invalid media URL/);
+    assert.match(result.failed_assets[1].message, /Invalid media URL/);
+    assert.match(result.failed_assets[2].message, /HTTP 404/);
+    assert.match(result.failed_assets[3].message, /Timed out after 20ms/);
+
+    const page = await readFile(join(directory, 'Media-01-01.md'), 'utf8');
+    assert.match(page, /http:\/\/\[/);
+    assert.match(page, /\/file\/missing\.png/);
+    assert.match(page, /assets\/ok\.png/);
+  });
+});
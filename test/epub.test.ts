@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { crc32 } from 'node:zlib';
+import { Telegraph, exportEpub } from '../src/index.js';
+import { createZip } from '../src/zip.js';
+import { fakeAccount, fakePage, mockFetch } from './helpers.js';
+
+/**
+ * File read back from a zip archive
+ */
+interface ZipFile {
+  name: string;
+  data: Uint8Array;
+  flags: number;
+  method: number;
+  /** Offset of the local header */
+  offset: number;
+}
+
+/**
+ * Read a stored zip archive through its central directory, checking each local header
+ */
+function readZip(zip: Uint8Array): ZipFile[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+
+  const files: ZipFile[] = [];
+  let position = view.getUint32(end + 16, true);
+  for (let index = 0; index < view.getUint16(end + 10, true); index++) {
+    assert.equal(view.getUint32(position, true), 0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const size = view.getUint32(position + 20, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    assert.equal(view.getUint32(offset, true), 0x04034b50);
+    assert.equal(view.getUint16(offset + 28, true), 0, 'no extra field');
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    const data = zip.subarray(start, start + size);
+    assert.equal(view.getUint32(position + 16, true), crc32(data), `CRC of ${name}`);
+
+    files.push({ name, data, flags: view.getUint16(position + 8, true), method: view.getUint16(position + 10, true), offset });
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return files;
+}
+
+/** Contents of a file in an archive */
+function data(files: ZipFile[], name: string): Uint8Array {
+  const file = files.find(candidate => candidate.name === name);
+  assert.ok(file, `${name} is in the archive`);
+  return file.data;
+}
+
+/** Text of a file in an archive */
+function text(files: ZipFile[], name: string): string {
+  return new TextDecoder().decode(data(files, name));
+}
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('createZip', () => {
+  test('stores files in order with their checksums', () => {
+    const files = readZip(createZip([
+      { name: 'mimetype', data: 'application/epub+zip' },
+      { name: 'data/bytes.bin', data: new Uint8Array([0, 1, 2, 255]) },
+    ]));
+
+    assert.deepEqual(files.map(file => [file.name, file.method, file.offset]), [['mimetype', 0, 0], ['data/bytes.bin', 0, 58]]);
+    assert.deepEqual([...files[1].data], [0, 1, 2, 255]);
+  });
+
+  test('marks UTF-8 names', () => {
+    const [ascii, utf8] = readZip(createZip([{ name: 'a.txt', data: '' }, { name: 'é.txt', data: 'é' }]));
+    assert.equal(ascii.flags, 0);
+    assert.equal(utf8.flags, 0x0800);
+    assert.equal(utf8.name, 'é.txt');
+    assert.deepEqual([...utf8.data], [0xc3, 0xa9]);
+  });
+
+  test('records the modification time in DOS format', () => {
+    const zip = createZip([{ name: 'a', data: 'a' }], new Date(2024, 5, 15, 13, 45, 30));
+    const view = new DataView(zip.buffer);
+    assert.equal(view.getUint16(10, true), (13 << 11) | (45 << 5) | 15);
+    assert.equal(view.getUint16(12, true), (44 << 9) | (6 << 5) | 15);
+  });
+
+  test('writes an empty archive', () => {
+    assert.deepEqual(readZip(createZip([])), []);
+  });
+});
+
+describe('exportEpub', () => {
+  /** Account with an introduction linking to a second page that has headings and an image */
+  const account = () => fakeAccount([
+    fakePage('Second-01-02', 'Second', [
+      { tag: 'h3', children: ['Setup'] },
+      { tag: 'h4', children: ['Install'] },
+      { tag: 'figure', children: [{ tag: 'img', attrs: { src: '/file/a.png' } }] },
+      { tag: 'img', attrs: { src: 'https://example.com/missing.png' } },
+    ], { author_name: 'Anna' }),
+    fakePage('First-01-01', 'First', [
+      { tag: 'p', children: [{ tag: 'a', attrs: { href: 'https://telegra.ph/Second-01-02#Install' }, children: ['next'] }] },
+      { tag: 'p', children: [{ tag: 'a', attrs: { href: '/Other-01-01' }, children: ['other'] }] },
+    ], { author_name: 'Anna' }),
+  ]);
+
+  const images = () => mockFetch(call => (call.method === 'a.png' ? new Response(PNG) : new Response('', { status: 404 })));
+
+  test('writes the mimetype first, then the container and package documents', async () => {
+    const { fetch } = account();
+    const files = readZip(await exportEpub({ accessToken: 'token', client: new Telegraph({ fetch }), fetch: images() }));
+
+    assert.deepEqual(files.slice(0, 4).map(file => file.name), [
+      'mimetype', 'META-INF/container.xml', 'OEBPS/content.opf', 'OEBPS/nav.xhtml',
+    ]);
+    assert.equal(text(files, 'mimetype'), 'application/epub+zip');
+    assert.match(text(files, 'META-INF/container.xml'), /full-path="OEBPS\/content\.opf"/);
+  });
+
+  test('orders an account oldest page first and lists the headings', async () => {
+    const { fetch } = account();
+    const files = readZip(await exportEpub({ accessToken: 'token', title: 'Book', client: new Telegraph({ fetch }), fetch: images() }));
+
+    const opf = text(files, 'OEBPS/content.opf');
+    assert.match(opf, /<dc:title>Book<\/dc:title>/);
+    assert.match(opf, /<dc:creator>Anna<\/dc:creator>/);
+    assert.match(opf, /<itemref idref="chapter-1"\/>\s*<itemref idref="chapter-2"\/>/);
+    assert.match(text(files, 'OEBPS/chapter-1.xhtml'), /<h1>First<\/h1>/);
+
+    const nav = text(files, 'OEBPS/nav.xhtml');
+    assert.match(nav, /<a href="chapter-2\.xhtml">Second<\/a><ol><li><a href="chapter-2\.xhtml#Setup">Setup<\/a><ol><li><a href="chapter-2\.xhtml#Install">Install<\/a><\/li><\/ol><\/li><\/ol>/);
+  });
+
+  test('points links between pages at their chapters and makes other links absolute', async () => {
+    const { fetch } = account();
+    const files = readZip(await exportEpub({ accessToken: 'token', client: new Telegraph({ fetch }), fetch: images() }));
+
+    const chapter = text(files, 'OEBPS/chapter-1.xhtml');
+    assert.match(chapter, /<a href="chapter-2\.xhtml#Install">next<\/a>/);
+    assert.match(chapter, /<a href="https:\/\/telegra\.ph\/Other-01-01">other<\/a>/);
+  });
+
+  test('embeds images it can download and links the others', async () => {
+    const { fetch } = account();
+    const imageFetch = images();
+    const files = readZip(await exportEpub({ accessToken: 'token', client: new Telegraph({ fetch }), fetch: imageFetch }));
+
+    const chapter = text(files, 'OEBPS/chapter-2.xhtml');
+    assert.match(chapter, /<img src="images\/image-1\.png" alt=""\/>/);
+    assert.match(chapter, /<a href="https:\/\/example\.com\/missing\.png">/);
+    assert.deepEqual([...data(files, 'OEBPS/images/image-1.png')], [...PNG]);
+    assert.match(text(files, 'OEBPS/content.opf'), /href="images\/image-1\.png" media-type="image\/png"/);
+  });
+
+  test('links images without downloading them when embedImages is false', async () => {
+    const { fetch } = account();
+    const imageFetch = images();
+    const files = readZip(await exportEpub({ pages: ['Second-01-02'], embedImages: false, client: new Telegraph({ fetch }), fetch: imageFetch }));
+
+    assert.equal(imageFetch.calls.length, 0);
+    assert.match(text(files, 'OEBPS/chapter-1.xhtml'), /<a href="https:\/\/telegra\.ph\/file\/a\.png">/);
+    assert.match(text(files, 'OEBPS/content.opf'), /<dc:title>Second<\/dc:title>/);
+  });
+
+  test('requires pages or an access token', async () => {
+    await assert.rejects(exportEpub({}), { code: 'PAGES_REQUIRED' });
+    await assert.rejects(exportEpub({ pages: [] }), { code: 'PAGES_REQUIRED' });
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, buildFeed } from '../src/index.js';
+import { fakeAccount, fakePage } from './helpers.js';
+
+/** Account of three pages, newest first; the newest links to a relative image */
+function account() {
+  return fakeAccount([
+    fakePage('Third-01-03', 'Third & last', [{ tag: 'p', children: [{ tag: 'img', attrs: { src: '/file/a.png' } }] }], { author_name: 'Anna' }),
+    fakePage('Second-01-02', 'Second', ['Second'], { description: 'Two' }),
+    fakePage('First-01-01', 'First'),
+  ]);
+}
+
+/** getPage calls made since the given number of calls */
+function fetchedPaths(fetch: ReturnType<typeof account>['fetch'], since = 0): string[] {
+  return fetch.calls.slice(since).filter(call => call.method === 'getPage').map(call => call.params.path);
+}
+
+describe('buildFeed', () => {
+  test('writes an RSS feed of the newest pages', async () => {
+    const { fetch } = account();
+    const feed = await buildFeed({ accessToken: 'token', format: 'rss', limit: 2, client: new Telegraph({ fetch }) });
+
+    assert.match(feed, /<rss version="2\.0"/);
+    assert.match(feed, /<title>Anna<\/title>\s*<link>https:\/\/example\.com\/<\/link>/);
+    assert.deepEqual([...feed.matchAll(/<guid isPermaLink="true">(.*?)<\/guid>/g)].map(match => match[1]), [
+      'https://telegra.ph/Third-01-03', 'https://telegra.ph/Second-01-02',
+    ]);
+    assert.match(feed, /<title>Third &amp; last<\/title>/);
+    assert.match(feed, /<dc:creator>Anna<\/dc:creator>/);
+    assert.match(feed, /&lt;img src="https:\/\/telegra\.ph\/file\/a\.png"\/&gt;/);
+    assert.deepEqual(fetchedPaths(fetch), ['Third-01-03', 'Second-01-02']);
+  });
+
+  test('writes Atom and JSON feeds', async () => {
+    const { fetch } = account();
+    const client = new Telegraph({ fetch });
+    const atom = await buildFeed({ accessToken: 'token', format: 'atom', feedUrl: 'https://example.com/feed.xml', client });
+    assert.match(atom, /<feed xmlns="http:\/\/www\.w3\.org\/2005\/Atom">\s*<id>https:\/\/example\.com\/feed\.xml<\/id>/);
+    assert.match(atom, /<link rel="self" type="application\/atom\+xml" href="https:\/\/example\.com\/feed\.xml"\/>/);
+    assert.equal(atom.match(/<entry>/g)?.length, 3);
+
+    const json = JSON.parse(await buildFeed({ accessToken: 'token', format: 'json', title: 'Notes', client }));
+    assert.equal(json.version, 'https://jsonfeed.org/version/1.1');
+    assert.equal(json.title, 'Notes');
+    assert.equal(json.description, 'Pages by Notes on Telegraph');
+    assert.deepEqual(json.items.map((item: { id: string }) => item.id), [
+      'https://telegra.ph/Third-01-03', 'https://telegra.ph/Second-01-02', 'https://telegra.ph/First-01-01',
+    ]);
+    assert.equal(json.items[1].summary, 'Two');
+  });
+
+  for (const format of ['rss', 'atom', 'json'] as const) {
+    test(`reuses unchanged entries and their dates from a previous ${format} feed`, async t => {
+      t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2024-06-01T12:00:00Z') });
+      const { fetch, pages } = account();
+      const client = new Telegraph({ fetch });
+      const previous = await buildFeed({ accessToken: 'token', format, client });
+      t.mock.timers.tick(3600 * 1000);
+
+      pages[1].description = 'Two, edited';
+      pages.unshift(fakePage('Fourth-01-04', 'Fourth'));
+      const calls = fetch.calls.length;
+      const feed = await buildFeed({ accessToken: 'token', format, previous, client });
+
+      assert.deepEqual(fetchedPaths(fetch, calls), ['Fourth-01-04', 'Second-01-02']);
+      const reparsed = await buildFeed({ accessToken: 'token', format: 'json', previous: feed, client });
+      const items: { id: string; date_published: string; content_html: string }[] = JSON.parse(reparsed).items;
+      const date = (path: string) => items.find(item => item.id === `https://telegra.ph/${path}`)?.date_published;
+      assert.equal(date('Third-01-03'), '2024-06-01T12:00:00.000Z');
+      assert.equal(date('First-01-01'), '2024-06-01T12:00:00.000Z');
+      assert.equal(date('Fourth-01-04'), '2024-06-01T13:00:00.000Z');
+      assert.match(items[1].content_html, /<img src="https:\/\/telegra\.ph\/file\/a\.png"/);
+    });
+  }
+
+  test('rejects an invalid limit and a previous document that is not a feed', async () => {
+    const { fetch } = account();
+    const client = new Telegraph({ fetch });
+    await assert.rejects(buildFeed({ accessToken: 'token', format: 'rss', limit: 0, client }), { code: 'FEED_LIMIT_INVALID' });
+    await assert.rejects(buildFeed({ accessToken: 'token', format: 'rss', previous: '<html></html>', client }), { code: 'FEED_INVALID' });
+    await assert.rejects(buildFeed({ accessToken: 'token', format: 'rss', previous: '{oops', client }), { code: 'FEED_INVALID' });
+    assert.equal(fetch.calls.length, 0);
+  });
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphValidationError, parseFrontMatter, updateFrontMatter } from '../src/index.js';
+import { fakeAccount, fakePage } from './helpers.js';
+
+const POST = `---
+title: "Hello: World"
+tags: [news, 'it''s', 3]
+draft: false
+# a comment
+authors:
+  - Anna
+  - Ben # second
+views: 1.5e3
+empty:
+---
+# Body
+
+Text.
+`;
+
+describe('parseFrontMatter', () => {
+  test('parses scalars, sequences and comments and returns the body as written', () => {
+    const { data, body } = parseFrontMatter(POST);
+
+    assert.deepEqual(data, {
+      title: 'Hello: World',
+      tags: ['news', "it's", 3],
+      draft: false,
+      authors: ['Anna', 'Ben'],
+      views: 1500,
+      empty: null,
+    });
+    assert.equal(body, '# Body\n\nText.\n');
+  });
+
+  test('returns the whole text as body when there is no front matter', () => {
+    assert.deepEqual(parseFrontMatter('# Title\n---\n'), { data: {}, body: '# Title\n---\n' });
+  });
+
+  test('accepts a byte order mark, CRLF line breaks and a ... terminator', () => {
+    assert.deepEqual(parseFrontMatter('﻿---\r\ntitle: Hi\r\n...\r\nBody\r\n'), { data: { title: 'Hi' }, body: 'Body\r\n' });
+  });
+
+  test('keeps nested mappings and block scalars as text', () => {
+    const { data } = parseFrontMatter('---\nseo:\n  title: x\nsummary: |\n  line\n---\n');
+    assert.equal(data.seo, 'title: x');
+    assert.equal(data.summary, '|\n  line');
+  });
+
+  test('rejects unclosed and malformed front matter', () => {
+    for (const markdown of ['---\ntitle: Hi\n', '---\nnot a key value\n---\n']) {
+      assert.throws(() => parseFrontMatter(markdown), (error: unknown) => {
+        assert.ok(error instanceof TelegraphValidationError);
+        assert.equal(error.code, 'FRONT_MATTER_INVALID');
+        return true;
+      });
+    }
+  });
+});
+
+describe('updateFrontMatter', () => {
+  test('replaces, adds and removes keys, keeping everything else byte for byte', () => {
+    const updated = updateFrontMatter(POST, { draft: true, path: 'Hello-01-01', views: undefined });
+
+    assert.equal(updated, POST
+      .replace('draft: false', 'draft: true')
+      .replace('views: 1.5e3\n', '')
+      .replace('empty:\n---', 'empty:\npath: Hello-01-01\n---'));
+  });
+
+  test('adds a block to text without one, using its line breaks', () => {
+    assert.equal(updateFrontMatter('Body\r\n', { title: 'Hi' }), '---\r\ntitle: Hi\r\n---\r\nBody\r\n');
+  });
+
+  test('quotes values that would not read back as the same string', () => {
+    const values = { a: 'true', b: '12', c: 'x: y', d: '- item', e: '', f: ' padded', g: 'line\nbreak', h: ['x', 'y, z'], 'odd key': 'plain' };
+    const updated = updateFrontMatter('', values);
+
+    assert.equal(
+      updated,
+      '---\na: "true"\nb: "12"\nc: "x: y"\nd: "- item"\ne: ""\nf: " padded"\ng: "line\\nbreak"\nh: [x, "y, z"]\nodd key: plain\n---\n'
+    );
+    assert.deepEqual(parseFrontMatter(updated).data, values);
+  });
+});
+
+describe('publishMarkdown', () => {
+  const markdown = '---\ntitle: Front Title\nauthor: Anna\n---\nHello **world**\n';
+
+  test('creates a page from front matter and records its path and URL', async () => {
+    const account = fakeAccount([]);
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const result = await telegraph.publishMarkdown({ accessToken: 'token', markdown, title: 'Ignored' });
+
+    assert.equal(result.page.path, 'Front-Title-1');
+    assert.deepEqual(account.pages[0].content, [{ tag: 'p', children: ['Hello ', { tag: 'b', children: ['world'] }] }]);
+    assert.equal(account.fetch.calls[0].params.author_name, 'Anna');
+    assert.deepEqual(result.frontMatter, { title: 'Front Title', author: 'Anna', path: 'Front-Title-1', url: 'https://telegra.ph/Front-Title-1' });
+    assert.equal(
+      result.markdown,
+      '---\ntitle: Front Title\nauthor: Anna\npath: Front-Title-1\nurl: https://telegra.ph/Front-Title-1\n---\nHello **world**\n'
+    );
+  });
+
+  test('edits the page named by path instead of creating a new one', async () => {
+    const account = fakeAccount([fakePage('Old-01-01', 'Old')]);
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const first = await telegraph.publishMarkdown({ accessToken: 'token', markdown: updateFrontMatter(markdown, { path: 'Old-01-01' }) });
+
+    assert.deepEqual(account.fetch.calls.map(call => call.method), ['editPage']);
+    assert.equal(account.pages.length, 1);
+    assert.equal(account.pages[0].title, 'Front Title');
+    assert.equal(first.markdown, updateFrontMatter(markdown, { path: 'Old-01-01', url: 'https://telegra.ph/Old-01-01' }));
+  });
+
+  test('falls back to the title parameter and requires a title', async () => {
+    const account = fakeAccount([]);
+    const telegraph = new Telegraph({ fetch: account.fetch });
+
+    const result = await telegraph.publishMarkdown({ accessToken: 'token', markdown: 'No front matter', title: 'Given' });
+    assert.equal(result.page.title, 'Given');
+    await assert.rejects(telegraph.publishMarkdown({ accessToken: 'token', markdown: '---\ntitle: ""\n---\nx' }), { code: 'TITLE_REQUIRED' });
+  });
+});
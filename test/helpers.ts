@@ -0,0 +1,143 @@
+/**
+ * Test helpers
+ * A fetch stand-in for the Telegraph API that records calls, and an in-memory account
+ */
+
+import type { Account, Node, Page } from '../src/index.js';
+
+/**
+ * API call received by a mock fetch
+ */
+export interface ApiCall {
+  /** API method, the last segment of the URL */
+  method: string;
+  /** Form parameters of the request */
+  params: Record<string, string>;
+  /** Signal passed to fetch */
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch stand-in with the calls it received
+ */
+export type MockFetch = typeof fetch & { calls: ApiCall[] };
+
+/**
+ * JSON response in the API's envelope
+ */
+export function apiResult(result: unknown): Response {
+  return Response.json({ ok: true, result });
+}
+
+/**
+ * API error response
+ */
+export function apiError(error: string): Response {
+  return Response.json({ ok: false, error });
+}
+
+/**
+ * Create a fetch stand-in that answers each call with the handler's response
+ *
+ * @param handler - Builds the response for a call; thrown errors reject the fetch
+ */
+export function mockFetch(handler: (call: ApiCall) => Response | Promise<Response>): MockFetch {
+  const calls: ApiCall[] = [];
+  const fetchImpl = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    const params = typeof init?.body === 'string' ? Object.fromEntries(new URLSearchParams(init.body)) : {};
+    const call: ApiCall = { method: url.slice(url.lastIndexOf('/') + 1), params, signal: init?.signal ?? undefined };
+    calls.push(call);
+    return handler(call);
+  };
+  return Object.assign(fetchImpl, { calls }) as MockFetch;
+}
+
+/**
+ * Response whose body sends a first chunk and then never ends
+ */
+export function stalledResponse(): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('{"ok":'));
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Page of an in-memory account
+ */
+export interface FakePage extends Page {
+  content: Node[];
+}
+
+/**
+ * In-memory Telegraph account served through a mock fetch
+ */
+export interface FakeAccount {
+  fetch: MockFetch;
+  /** Pages of the account, newest first */
+  pages: FakePage[];
+  account: Account;
+}
+
+/**
+ * Create a page for an in-memory account
+ */
+export function fakePage(path: string, title: string, content: Node[] = [title], extra: Partial<Page> = {}): FakePage {
+  return { path, url: `https://telegra.ph/${path}`, title, description: '', views: 0, content, ...extra };
+}
+
+/**
+ * Serve an in-memory account: getAccountInfo, getPageList, getPage, getViews, createPage and editPage
+ *
+ * @param pages - Pages of the account, newest first
+ * @param options - Paths whose getPage calls fail, and views per getViews call
+ */
+export function fakeAccount(
+  pages: FakePage[],
+  options: { failPaths?: string[]; views?: (params: Record<string, string>) => number } = {}
+): FakeAccount {
+  const account: Account = { short_name: 'Sandbox', author_name: 'Anna', author_url: 'https://example.com/' };
+  const state: FakeAccount = { fetch: mockFetch(handle), pages, account };
+  let created = 0;
+
+  function handle(call: ApiCall): Response {
+    const { params } = call;
+    switch (call.method) {
+      case 'getAccountInfo':
+        return apiResult({ ...account, page_count: state.pages.length });
+      case 'getPageList': {
+        const offset = Number(params.offset ?? 0);
+        const limit = Number(params.limit ?? 50);
+        const listed = state.pages.slice(offset, offset + limit).map(({ content, ...page }) => page);
+        return apiResult({ total_count: state.pages.length, pages: listed });
+      }
+      case 'getPage': {
+        const page = state.pages.find(candidate => candidate.path === params.path);
+        if (!page || options.failPaths?.includes(page.path)) return apiError('PAGE_NOT_FOUND');
+        const { content, ...rest } = page;
+        return apiResult(params.return_content === 'true' ? page : rest);
+      }
+      case 'getViews':
+        return apiResult({ views: options.views?.(params) ?? 0 });
+      case 'createPage': {
+        const path = `${params.title.replace(/\W+/g, '-')}-${++created}`;
+        const page = fakePage(path, params.title, JSON.parse(params.content));
+        state.pages.unshift(page);
+        return apiResult(page);
+      }
+      case 'editPage': {
+        const page = state.pages.find(candidate => candidate.path === params.path);
+        if (!page) return apiError('PAGE_NOT_FOUND');
+        Object.assign(page, { title: params.title, content: JSON.parse(params.content) });
+        return apiResult(page);
+      }
+      default:
+        return apiError('METHOD_NOT_FOUND');
+    }
+  }
+
+  return state;
+}
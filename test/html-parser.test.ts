@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { decodeHtmlEntities } from '../src/html-parser.js';
+import { htmlToNodes, nodesToHtml } from '../src/index.js';
+import type { Node } from '../src/index.js';
+
+/** Parse HTML and serialize the tree again */
+function reparse(html: string): string {
+  return nodesToHtml(htmlToNodes(html));
+}
+
+describe('htmlToNodes', () => {
+  test('builds nodes with attributes and drops comments', () => {
+    assert.deepEqual(htmlToNodes('<p>Hi <a href=/x>there</a><!-- note --></p>'), [
+      { tag: 'p', children: ['Hi ', { tag: 'a', attrs: { href: '/x' }, children: ['there'] }] },
+    ]);
+  });
+
+  test('closes paragraphs and list items implicitly', () => {
+    assert.equal(reparse('<p>a<p>b<ul><li>c<li>d</ul>'), '<p>a</p><p>b</p><ul><li>c</li><li>d</li></ul>');
+  });
+
+  test('ignores unmatched end tags', () => {
+    assert.equal(reparse('<i>x</b>y</i>'), '<i>xy</i>');
+  });
+
+  for (const [name, html, expected] of [
+    ['reopens formatting elements closed by a misnested end tag', '<b>x<i>y</b>z</i>', '<b>x<i>y</i></b><i>z</i>'],
+    ['reopens nested formatting elements outermost first', '<b>a<i>b<u>c</b>d</i>e', '<b>a<i>b<u>c</u></i></b><i><u>d</u></i><u>e</u>'],
+    ['reopens formatting elements closed by a block end tag', '<div><b>x</div>y', '<div><b>x</b></div><b>y</b>'],
+    ['moves a block out of a misnested formatting element', '<b>1<p>2</b>3</p>', '<b>1</b><p><b>2</b>3</p>'],
+    ['keeps link attributes on reopened copies', '<a href="/u">1<div>2</a>3</div>', '<a href="/u">1</a><div><a href="/u">2</a>3</div>'],
+    ['closes an open link at a new link', '<a href="/1">x<a href="/2">y</a>', '<a href="/1">x</a><a href="/2">y</a>'],
+    ['does not reopen formatting elements outside a table cell', '<table><tr><td><b>x</td><td>y</td></tr></table>', '<table><tr><td><b>x</b></td><td>y</td></tr></table>'],
+  ]) {
+    test(name, () => {
+      assert.equal(reparse(html), expected);
+    });
+  }
+});
+
+describe('htmlToNodes nesting limits', () => {
+  /** Depth of the deepest element */
+  const depth = (nodes: Node[]): number =>
+    Math.max(0, ...nodes.map(node => (typeof node === 'string' ? 0 : 1 + depth(node.children || []))));
+
+  test('reopens at most three identical formatting elements', () => {
+    const nodes = htmlToNodes('<p><b>x</p>'.repeat(300));
+    assert.equal(nodes.length, 300);
+    assert.ok(depth(nodes) <= 5, `depth ${depth(nodes)}`);
+    assert.equal(reparse('<p><b>1<b>2<b>3<b>4</p>5'), '<p><b>1<b>2<b>3<b>4</b></b></b></b></p><b><b><b>5</b></b></b>');
+  });
+
+  test('counts formatting elements with different attributes separately', () => {
+    const html = '<p><a href="/1"><a href="/2"></p>x';
+    assert.equal(reparse(html), '<p><a href="/1"></a><a href="/2"></a></p><a href="/2">x</a>');
+  });
+
+  for (const tag of ['div', 'b']) {
+    test(`caps the depth of ${tag} elements nested 10000 deep`, () => {
+      const nodes = htmlToNodes(`<${tag}>`.repeat(10000) + 'x');
+      assert.equal(depth(nodes), 513);
+      assert.ok(nodesToHtml(nodes).includes(`<${tag}></${tag}><${tag}>x</${tag}></${tag}>`));
+    });
+  }
+});
+
+describe('decodeHtmlEntities', () => {
+  test('decodes named, numeric and legacy references', () => {
+    assert.equal(decodeHtmlEntities('&amp;&#233;&#x41;&copy2024&#128;'), '&éA©2024€');
+  });
+
+  test('leaves legacy references followed by = or alphanumerics in attributes', () => {
+    assert.equal(decodeHtmlEntities('?a=1&copy=2', true), '?a=1&copy=2');
+  });
+});
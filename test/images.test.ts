@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { TelegraphError, TelegraphNotFoundError, TelegraphValidationError, uploadLocalImages } from '../src/index.js';
+import type { FileUploader, UploadFileOptions, UploadSource } from '../src/index.js';
+
+/**
+ * Uploader that records what it was given and hosts files under /file/<n>
+ */
+function recordingUploader(): FileUploader & { uploads: { bytes: Uint8Array; options?: UploadFileOptions }[] } {
+  const uploads: { bytes: Uint8Array; options?: UploadFileOptions }[] = [];
+  return {
+    uploads,
+    async uploadFile(source: UploadSource, options?: UploadFileOptions) {
+      const bytes = source as Uint8Array;
+      uploads.push({ bytes, options });
+      const src = `/file/${uploads.length}.png`;
+      return { src, url: `https://telegra.ph${src}`, contentType: options?.contentType || 'image/png', size: bytes.length };
+    },
+  };
+}
+
+/**
+ * Upload a single image source and return the bytes the uploader received
+ */
+async function uploadedBytes(src: string): Promise<number[]> {
+  const uploader = recordingUploader();
+  await uploadLocalImages([{ tag: 'img', attrs: { src } }], uploader);
+  return [...uploader.uploads[0].bytes];
+}
+
+describe('data: URI images', () => {
+  test('decode base64 payloads', async () => {
+    assert.deepEqual(await uploadedBytes('data:image/png;base64,iVBO Rw=='), [0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  test('decode percent escapes to single bytes', async () => {
+    assert.deepEqual(await uploadedBytes('data:image/png,%89PNG%0D%0A%1A%0A%FF%00'), [
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00,
+    ]);
+  });
+
+  test('encode unescaped characters as UTF-8', async () => {
+    assert.deepEqual(await uploadedBytes('data:image/svg+xml,<t>é</t>'), [...new TextEncoder().encode('<t>é</t>')]);
+  });
+
+  test('pass the MIME type to the uploader', async () => {
+    const uploader = recordingUploader();
+    const [node] = await uploadLocalImages([{ tag: 'img', attrs: { src: 'data:image/gif;base64,R0lGODlh' } }], uploader);
+    assert.equal(uploader.uploads[0].options?.contentType, 'image/gif');
+    assert.deepEqual(node, { tag: 'img', attrs: { src: '/file/1.png' } });
+  });
+
+  for (const [name, src] of [
+    ['a bad percent escape', 'data:image/png,%8G'],
+    ['a truncated percent escape', 'data:image/png,abc%8'],
+    ['invalid base64', 'data:image/png;base64,$$$$'],
+    ['a missing comma', 'data:image/png;base64'],
+  ]) {
+    test(`reject ${name} with SRC_INVALID`, async () => {
+      await assert.rejects(uploadLocalImages([{ tag: 'img', attrs: { src } }], recordingUploader()), (error: unknown) => {
+        assert.ok(error instanceof TelegraphValidationError);
+        assert.equal(error.code, 'SRC_INVALID');
+        return true;
+      });
+    });
+  }
+});
+
+describe('local file images', () => {
+  const PNG = [0x89, 0x50, 0x4e, 0x47];
+  let root: string;
+  let baseDir: string;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'telegraph-images-'));
+    baseDir = join(root, 'posts');
+    await mkdir(join(baseDir, 'img'), { recursive: true });
+    await writeFile(join(baseDir, 'img', 'a b.png'), new Uint8Array(PNG));
+    await writeFile(join(baseDir, '..dots.png'), new Uint8Array(PNG));
+    await writeFile(join(root, 'secret.png'), new Uint8Array(PNG));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const upload = (src: string) => uploadLocalImages([{ tag: 'img', attrs: { src } }], recordingUploader(), { baseDir });
+
+  const rejectsWith = (promise: Promise<unknown>, code: string, type: typeof TelegraphError = TelegraphValidationError) =>
+    assert.rejects(promise, (error: unknown) => {
+      assert.ok(error instanceof type);
+      assert.equal((error as TelegraphError).code, code);
+      return true;
+    });
+
+  test('read paths relative to baseDir, percent-decoded', async () => {
+    assert.deepEqual(await upload('./img/a%20b.png?v=1'), [{ tag: 'img', attrs: { src: '/file/1.png' } }]);
+    assert.deepEqual(await upload('..dots.png'), [{ tag: 'img', attrs: { src: '/file/1.png' } }]);
+  });
+
+  test('read absolute paths and file: URLs inside baseDir', async () => {
+    const path = join(baseDir, 'img', 'a b.png');
+    assert.deepEqual(await upload(path), [{ tag: 'img', attrs: { src: '/file/1.png' } }]);
+    assert.deepEqual(await upload(pathToFileURL(path).href), [{ tag: 'img', attrs: { src: '/file/1.png' } }]);
+  });
+
+  for (const [name, src] of [
+    ['a parent path', '../secret.png'],
+    ['a parent path that goes back in', '../posts/../secret.png'],
+    ['an absolute path', () => join(root, 'secret.png')],
+    ['a file: URL', () => pathToFileURL(join(root, 'secret.png')).href],
+  ] as const) {
+    test(`reject ${name} outside baseDir with SRC_OUTSIDE_BASE_DIR`, async () => {
+      await rejectsWith(upload(typeof src === 'function' ? src() : src), 'SRC_OUTSIDE_BASE_DIR');
+    });
+  }
+
+  test('refuse local paths without a baseDir', async () => {
+    await rejectsWith(uploadLocalImages([{ tag: 'img', attrs: { src: 'img/a%20b.png' } }], recordingUploader()), 'BASE_DIR_REQUIRED');
+  });
+
+  test('report a missing file as FILE_NOT_FOUND', async () => {
+    await rejectsWith(upload('img/missing.png'), 'FILE_NOT_FOUND', TelegraphNotFoundError);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphValidationError, collectAll } from '../src/index.js';
+import { apiResult, fakeAccount, fakePage, mockFetch } from './helpers.js';
+
+/** Pages Page-1 to Page-n, newest first */
+const pagesOf = (count: number) => Array.from({ length: count }, (_, i) => fakePage(`Page-${count - i}`, `Page ${count - i}`));
+
+describe('iteratePages', () => {
+  test('lists every page, pageSize at a time', async () => {
+    const account = fakeAccount(pagesOf(5));
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const pages = await collectAll(telegraph.iteratePages({ accessToken: 'token', pageSize: 2 }));
+
+    assert.deepEqual(pages.map(page => page.path), ['Page-5', 'Page-4', 'Page-3', 'Page-2', 'Page-1']);
+    assert.deepEqual(account.fetch.calls.map(call => [call.method, call.params.offset, call.params.limit]), [
+      ['getPageList', '0', '2'],
+      ['getPageList', '2', '2'],
+      ['getPageList', '4', '2'],
+    ]);
+  });
+
+  test('asks for 200 pages at a time by default and stops on an empty list', async () => {
+    const fetch = mockFetch(() => apiResult({ total_count: 10, pages: [] }));
+    const pages = await collectAll(new Telegraph({ fetch }).iteratePages({ accessToken: 'token' }));
+
+    assert.deepEqual(pages, []);
+    assert.equal(fetch.calls.length, 1);
+    assert.equal(fetch.calls[0].params.limit, '200');
+  });
+
+  test('yields each page once when pages are created during the walk', async () => {
+    const account = fakeAccount(pagesOf(4));
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const paths: string[] = [];
+
+    for await (const page of telegraph.iteratePages({ accessToken: 'token', pageSize: 2 })) {
+      paths.push(page.path);
+      if (paths.length === 1) {
+        // The new page shifts every listed page one place down
+        account.pages.unshift(fakePage('New', 'New'));
+      }
+    }
+
+    assert.deepEqual(paths, ['Page-4', 'Page-3', 'Page-2', 'Page-1']);
+  });
+
+  test('maps pages to the configured response case', async () => {
+    const account = fakeAccount([fakePage('Page-1', 'Page 1', [], { author_name: 'Anna' })]);
+    const telegraph = new Telegraph({ fetch: account.fetch, responseCase: 'camel' });
+    const [page] = await collectAll(telegraph.iteratePages({ accessToken: 'token' }));
+
+    assert.equal(page.authorName, 'Anna');
+  });
+
+  test('rejects a pageSize outside 1-200 before listing', async () => {
+    const fetch = mockFetch(() => apiResult({ total_count: 0, pages: [] }));
+    const telegraph = new Telegraph({ fetch });
+
+    for (const pageSize of [0, 201, 1.5, NaN]) {
+      await assert.rejects(collectAll(telegraph.iteratePages({ accessToken: 'token', pageSize })), (error: unknown) => {
+        assert.ok(error instanceof TelegraphValidationError);
+        assert.equal(error.code, 'PAGE_SIZE_INVALID');
+        assert.equal(error.method, 'getPageList');
+        return true;
+      });
+    }
+    assert.equal(fetch.calls.length, 0);
+  });
+});
+
+describe('collectAll', () => {
+  test('collects any async iterable in order', async () => {
+    async function* numbers() {
+      yield 1;
+      yield 2;
+      yield 3;
+    }
+    assert.deepEqual(await collectAll(numbers()), [1, 2, 3]);
+  });
+
+  test('rejects with the error the iterable throws', async () => {
+    async function* failing() {
+      yield 1;
+      throw new Error('boom');
+    }
+    await assert.rejects(collectAll(failing()), /boom/);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Markdown conformance
+ * Runs the CommonMark spec examples and the GFM strikethrough and autolink examples
+ * through parseMarkdown, comparing with the spec's HTML mapped onto Telegraph's tags.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { tests } from 'commonmark-spec';
+import { parseMarkdown } from '../src/markdown-parser.js';
+import { htmlToNodes, nodesToHtml } from '../src/utils.js';
+import type { Node, NodeElement } from '../src/types.js';
+
+/** Tags the spec's HTML uses for what parseMarkdown builds as Telegraph tags */
+const TELEGRAPH_TAGS: Record<string, string> = {
+  h1: 'h3', h2: 'h4', h3: 'h4', h4: 'h4', h5: 'h4', h6: 'h4', em: 'i', strong: 'b',
+};
+
+/** Block tags whose surrounding whitespace is insignificant */
+const BLOCK_TAGS = 'p|h3|h4|hr|blockquote|ul|ol|li|figure|figcaption|div|table|tr|td|th|thead|tbody';
+
+/**
+ * Examples where parseMarkdown deliberately differs from the spec, with the reason
+ */
+const KNOWN_DIFFERENCES: Record<number, string> = {
+  25: 'Only a common subset of named character references is decoded',
+  148: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  152: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  155: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  167: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  169: 'Raw <pre><code> is kept as written, unlike code blocks',
+  184: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  188: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  190: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  191: 'HTML blocks are parsed into a tree one at a time, not as one document',
+  608: 'Bare URLs are linked (GFM autolinks)',
+  611: 'Bare URLs are linked (GFM autolinks)',
+  612: 'Bare email addresses are linked (GFM autolinks)',
+  614: 'Self-closing syntax closes inline HTML elements',
+  615: 'Self-closing syntax closes inline HTML elements',
+};
+
+/**
+ * Examples of the GFM spec (0.29-gfm) for the extensions parseMarkdown supports
+ *
+ * Tables, task list items and the disallowed raw HTML filter are left out, since
+ * Telegraph pages have no tables or checkboxes and content is sanitized on upload.
+ */
+const GFM_EXAMPLES = [
+  {
+    number: 491,
+    section: 'Strikethrough (extension)',
+    markdown: '~~Hi~~ Hello, ~there~ world!\n',
+    html: '<p><del>Hi</del> Hello, <del>there</del> world!</p>\n',
+  },
+  {
+    number: 492,
+    section: 'Strikethrough (extension)',
+    markdown: 'This ~~has a\n\nnew paragraph~~.\n',
+    html: '<p>This ~~has a</p>\n<p>new paragraph~~.</p>\n',
+  },
+  {
+    number: 493,
+    section: 'Strikethrough (extension)',
+    markdown: 'This will ~~~not~~~ strike.\n',
+    html: '<p>This will ~~~not~~~ strike.</p>\n',
+  },
+  {
+    number: 621,
+    section: 'Autolinks (extension)',
+    markdown: 'www.commonmark.org\n',
+    html: '<p><a href="http://www.commonmark.org">www.commonmark.org</a></p>\n',
+  },
+  {
+    number: 622,
+    section: 'Autolinks (extension)',
+    markdown: 'Visit www.commonmark.org/help for more information.\n',
+    html: '<p>Visit <a href="http://www.commonmark.org/help">www.commonmark.org/help</a> for more information.</p>\n',
+  },
+  {
+    number: 623,
+    section: 'Autolinks (extension)',
+    markdown: 'Visit www.commonmark.org.\n\nVisit www.commonmark.org/a.b.\n',
+    html: '<p>Visit <a href="http://www.commonmark.org">www.commonmark.org</a>.</p>\n'
+      + '<p>Visit <a href="http://www.commonmark.org/a.b">www.commonmark.org/a.b</a>.</p>\n',
+  },
+  {
+    number: 624,
+    section: 'Autolinks (extension)',
+    markdown: 'www.google.com/search?q=Markup+(business)\n\n'
+      + 'www.google.com/search?q=Markup+(business)))\n\n'
+      + '(www.google.com/search?q=Markup+(business))\n\n'
+      + '(www.google.com/search?q=Markup+(business)\n',
+    html: '<p><a href="http://www.google.com/search?q=Markup+(business)">www.google.com/search?q=Markup+(business)</a></p>\n'
+      + '<p><a href="http://www.google.com/search?q=Markup+(business)">www.google.com/search?q=Markup+(business)</a>))</p>\n'
+      + '<p>(<a href="http://www.google.com/search?q=Markup+(business)">www.google.com/search?q=Markup+(business)</a>)</p>\n'
+      + '<p>(<a href="http://www.google.com/search?q=Markup+(business)">www.google.com/search?q=Markup+(business)</a></p>\n',
+  },
+  {
+    number: 625,
+    section: 'Autolinks (extension)',
+    markdown: 'www.google.com/search?q=(business))+ok\n',
+    html: '<p><a href="http://www.google.com/search?q=(business))+ok">www.google.com/search?q=(business))+ok</a></p>\n',
+  },
+  {
+    number: 626,
+    section: 'Autolinks (extension)',
+    markdown: 'www.google.com/search?q=commonmark&hl=en\n\nwww.google.com/search?q=commonmark&hl;\n',
+    html: '<p><a href="http://www.google.com/search?q=commonmark&amp;hl=en">www.google.com/search?q=commonmark&amp;hl=en</a></p>\n'
+      + '<p><a href="http://www.google.com/search?q=commonmark">www.google.com/search?q=commonmark</a>&amp;hl;</p>\n',
+  },
+  {
+    number: 627,
+    section: 'Autolinks (extension)',
+    markdown: 'www.commonmark.org/he<lp\n',
+    html: '<p><a href="http://www.commonmark.org/he">www.commonmark.org/he</a>&lt;lp</p>\n',
+  },
+  {
+    number: 628,
+    section: 'Autolinks (extension)',
+    markdown: 'http://commonmark.org\n\n(Visit https://encrypted.google.com/search?q=Markup+(business))\n',
+    html: '<p><a href="http://commonmark.org">http://commonmark.org</a></p>\n'
+      + '<p>(Visit <a href="https://encrypted.google.com/search?q=Markup+(business)">https://encrypted.google.com/search?q=Markup+(business)</a>)</p>\n',
+  },
+  {
+    number: 629,
+    section: 'Autolinks (extension)',
+    markdown: 'foo@bar.baz\n',
+    html: '<p><a href="mailto:foo@bar.baz">foo@bar.baz</a></p>\n',
+  },
+  {
+    number: 630,
+    section: 'Autolinks (extension)',
+    markdown: "hello@mail+xyz.example isn't valid, but hello+xyz@mail.example is.\n",
+    html: "<p>hello@mail+xyz.example isn't valid, but <a href=\"mailto:hello+xyz@mail.example\">hello+xyz@mail.example</a> is.</p>\n",
+  },
+  {
+    number: 631,
+    section: 'Autolinks (extension)',
+    markdown: 'a.b-c_d@a.b\n\na.b-c_d@a.b.\n\na.b-c_d@a.b-\n\na.b-c_d@a.b_\n',
+    html: '<p><a href="mailto:a.b-c_d@a.b">a.b-c_d@a.b</a></p>\n'
+      + '<p><a href="mailto:a.b-c_d@a.b">a.b-c_d@a.b</a>.</p>\n'
+      + '<p>a.b-c_d@a.b-</p>\n<p>a.b-c_d@a.b_</p>\n',
+  },
+];
+
+/**
+ * Map the spec's HTML onto the Telegraph nodes parseMarkdown documents building
+ *
+ * Headings become h3/h4, em and strong become i and b, GFM del becomes s, code blocks
+ * lose their inner code element and final newline, a paragraph holding only an image
+ * becomes a figure captioned with the alt text, and a blockquote holding one paragraph
+ * is unwrapped.
+ */
+function telegraphNodes(nodes: Node[], gfm: boolean): Node[] {
+  return nodes.map(node => {
+    if (typeof node === 'string') return node;
+
+    const tag = TELEGRAPH_TAGS[node.tag] || (gfm && node.tag === 'del' ? 's' : node.tag);
+    let children = telegraphNodes(node.children || [], gfm);
+    const significant = children.filter(child => typeof child !== 'string' || child.trim() !== '');
+    const [only] = significant;
+    const onlyElement = significant.length === 1 && typeof only !== 'string' ? only : undefined;
+
+    if (tag === 'pre' && onlyElement?.tag === 'code') {
+      // Code blocks also lose their final newline
+      children = (onlyElement.children || []).map((child, index, list) =>
+        index === list.length - 1 && typeof child === 'string' ? child.replace(/\n$/, '') : child
+      );
+    }
+    if (tag === 'blockquote' && onlyElement?.tag === 'p') {
+      children = onlyElement.children || [];
+    }
+    if (tag === 'p' && children.length === 1 && onlyElement?.tag === 'img') {
+      const alt = onlyElement.attrs?.alt;
+      return {
+        tag: 'figure',
+        children: [{ tag: 'img', attrs: { src: onlyElement.attrs?.src || '' } }, ...(alt ? [{ tag: 'figcaption', children: [alt] }] : [])],
+      };
+    }
+
+    const element: NodeElement = { tag };
+    // Ordered list start numbers and code block languages are not kept
+    if (node.attrs && tag !== 'ol' && tag !== 'code') element.attrs = node.attrs;
+    if (children.length > 0) element.children = children;
+    return element;
+  });
+}
+
+/**
+ * Serialize nodes for comparison, leaving out what parseMarkdown does not keep
+ *
+ * Link and image titles and inline image alt text are dropped, and so is whitespace
+ * around block tags and the newline after a hard break.
+ */
+function comparableHtml(nodes: Node[]): string {
+  const strip = (list: Node[]): Node[] => list.map(node => {
+    if (typeof node === 'string') return node;
+    const attrs = { ...node.attrs };
+    delete attrs.title;
+    if (node.tag === 'img') delete attrs.alt;
+    return { ...node, attrs, children: node.children && strip(node.children) };
+  });
+
+  return nodesToHtml(strip(nodes))
+    .trim()
+    .replace(/\n+((?:<\/[a-z0-9]+>)*)$/, '$1')
+    .replace(/<br\/>\n/g, '<br/>')
+    .replace(new RegExp(`\\s*(</?(?:${BLOCK_TAGS})\\b[^>]*>)\\s*`, 'g'), '$1')
+    .replace(/\s*<pre>/g, '<pre>')
+    .replace(/<\/pre>\s*/g, '</pre>');
+}
+
+/**
+ * Compare parseMarkdown's output for an example with the example's HTML
+ */
+function checkExample(markdown: string, html: string, gfm: boolean): { actual: string; expected: string } {
+  // The spec writes tabs as → so they are visible
+  const actual = comparableHtml(parseMarkdown(markdown.replace(/→/g, '\t')));
+  // The final newline ends the example, not the content: parsed as HTML it would reopen
+  // formatting elements the example leaves open
+  const expected = comparableHtml(telegraphNodes(htmlToNodes(html.replace(/→/g, '\t').replace(/\n$/, '')), gfm));
+  return { actual, expected };
+}
+
+describe('CommonMark spec', () => {
+  for (const example of tests) {
+    const reason = KNOWN_DIFFERENCES[example.number];
+    test(`example ${example.number} (${example.section})`, () => {
+      const { actual, expected } = checkExample(example.markdown, example.html, false);
+      if (reason) {
+        // Keep the list honest: an example that starts passing must leave it
+        assert.notEqual(actual, expected, `example ${example.number} now conforms; remove it from KNOWN_DIFFERENCES`);
+      } else {
+        assert.equal(actual, expected, example.markdown);
+      }
+    });
+  }
+});
+
+describe('GFM spec extensions', () => {
+  for (const example of GFM_EXAMPLES) {
+    test(`example ${example.number} (${example.section})`, () => {
+      const { actual, expected } = checkExample(example.markdown, example.html, true);
+      assert.equal(actual, expected, example.markdown);
+    });
+  }
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { nodesToHtml } from '../src/index.js';
+import type { Node } from '../src/index.js';
+import { parseMarkdown } from '../src/markdown-parser.js';
+
+/** Depth of the deepest element */
+function depth(nodes: Node[]): number {
+  return nodes.reduce<number>((deepest, node) => (typeof node === 'string' ? deepest : Math.max(deepest, 1 + depth(node.children || []))), 0);
+}
+
+describe('parseMarkdown nesting limits', () => {
+  test('keeps blockquote markers past 100 levels as text', () => {
+    const nodes = parseMarkdown('>'.repeat(10000) + ' x');
+    assert.equal(depth(nodes), 100);
+    assert.ok(nodesToHtml(nodes).includes('<blockquote>' + '&gt;'.repeat(9900) + ' x</blockquote>'));
+  });
+
+  test('keeps list markers past 100 levels as text', () => {
+    const markdown = Array.from({ length: 2000 }, (_, level) => `${' '.repeat(level * 2)}- item ${level}`).join('\n');
+    const nodes = parseMarkdown(markdown);
+    // Each level is a list and an item
+    assert.ok(depth(nodes) <= 101, `depth ${depth(nodes)}`);
+    assert.match(nodesToHtml(nodes), /item 49\n\s*- item 50/);
+  });
+
+  test('keeps emphasis past 100 levels as text', () => {
+    const nodes = parseMarkdown('*a '.repeat(5000) + 'b' + ' c*'.repeat(5000));
+    assert.equal(depth(nodes), 101);
+  });
+
+  test('keeps links and images past 100 levels as text', () => {
+    assert.equal(depth(parseMarkdown('!['.repeat(5000) + 'x' + '](u)'.repeat(5000))), 2);
+    assert.ok(depth(parseMarkdown('*['.repeat(3000) + 'x' + '](u)*'.repeat(3000))) <= 102);
+  });
+
+  test('keeps inline HTML past 100 levels flat', () => {
+    // A paragraph, 100 nested elements, and the empty ones past the limit
+    const nodes = parseMarkdown('x ' + '<b>'.repeat(10000) + 'y');
+    assert.equal(depth(nodes), 102);
+  });
+
+  test('still nests within the limit', () => {
+    assert.equal(nodesToHtml(parseMarkdown('> > *a **b***')), '<blockquote><blockquote><i>a <b>b</b></i></blockquote></blockquote>');
+  });
+});
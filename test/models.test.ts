@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  Telegraph,
+  exportPage,
+  toCamelAccount,
+  toCamelPage,
+  toCamelPageList,
+  toSnakeAccount,
+  toSnakePage,
+  toSnakePageList,
+} from '../src/index.js';
+import type { Account, Page } from '../src/index.js';
+import { apiResult, mockFetch } from './helpers.js';
+
+const ACCOUNT: Account = {
+  short_name: 'Sandbox',
+  author_name: 'Anonymous',
+  author_url: 'https://example.com/',
+  access_token: 'token',
+  auth_url: 'https://edit.telegra.ph/auth/abc',
+  page_count: 2,
+};
+
+const PAGE: Page = {
+  path: 'Hello-01-01',
+  url: 'https://telegra.ph/Hello-01-01',
+  title: 'Hello',
+  description: 'First page',
+  author_name: 'Anonymous',
+  author_url: 'https://example.com/',
+  image_url: 'https://telegra.ph/file/abc.png',
+  content: [{ tag: 'p', children: ['Hi'] }],
+  views: 3,
+  can_edit: true,
+};
+
+describe('camelCase mappers', () => {
+  test('map every account field both ways', () => {
+    const camel = toCamelAccount(ACCOUNT);
+    assert.deepEqual(camel, {
+      shortName: 'Sandbox',
+      authorName: 'Anonymous',
+      authorUrl: 'https://example.com/',
+      accessToken: 'token',
+      authUrl: 'https://edit.telegra.ph/auth/abc',
+      pageCount: 2,
+    });
+    assert.deepEqual(toSnakeAccount(camel), ACCOUNT);
+  });
+
+  test('map every page field both ways', () => {
+    const camel = toCamelPage(PAGE);
+    assert.deepEqual(camel, {
+      path: 'Hello-01-01',
+      url: 'https://telegra.ph/Hello-01-01',
+      title: 'Hello',
+      description: 'First page',
+      authorName: 'Anonymous',
+      authorUrl: 'https://example.com/',
+      imageUrl: 'https://telegra.ph/file/abc.png',
+      content: [{ tag: 'p', children: ['Hi'] }],
+      views: 3,
+      canEdit: true,
+    });
+    assert.deepEqual(toSnakePage(camel), PAGE);
+  });
+
+  test('leave out fields the API did not return', () => {
+    assert.deepEqual(toCamelAccount({ short_name: 'Sandbox' }), { shortName: 'Sandbox' });
+    assert.deepEqual(toSnakePage({ path: 'a', url: 'b', title: 'c', description: '', views: 0 }), {
+      path: 'a', url: 'b', title: 'c', description: '', views: 0,
+    });
+  });
+
+  test('map page lists both ways', () => {
+    const camel = toCamelPageList({ total_count: 1, pages: [PAGE] });
+    assert.equal(camel.totalCount, 1);
+    assert.equal(camel.pages[0].imageUrl, PAGE.image_url);
+    assert.deepEqual(toSnakePageList(camel), { total_count: 1, pages: [PAGE] });
+  });
+});
+
+describe('response case', () => {
+  test('camel clients return camelCase models', async () => {
+    const fetch = mockFetch(call => {
+      switch (call.method) {
+        case 'getAccountInfo':
+          return apiResult(ACCOUNT);
+        case 'getPageList':
+          return apiResult({ total_count: 1, pages: [PAGE] });
+        default:
+          return apiResult(PAGE);
+      }
+    });
+    const telegraph = new Telegraph({ responseCase: 'camel', fetch });
+
+    assert.equal((await telegraph.getAccountInfo({ accessToken: 'token' })).authorUrl, ACCOUNT.author_url);
+    assert.equal((await telegraph.getPage({ path: PAGE.path })).imageUrl, PAGE.image_url);
+    const list = await telegraph.getPageList({ accessToken: 'token' });
+    assert.equal(list.totalCount, 1);
+    assert.equal(list.pages[0].authorName, PAGE.author_name);
+  });
+
+  test('snake clients return the API models unchanged', async () => {
+    const telegraph = new Telegraph({ fetch: mockFetch(() => apiResult(PAGE)) });
+    assert.deepEqual(await telegraph.getPage({ path: PAGE.path }), PAGE);
+  });
+
+  test('helpers that read snake_case models reject camel clients at compile time', async () => {
+    const camel = new Telegraph({ responseCase: 'camel', fetch: mockFetch(() => apiResult(PAGE)) });
+    // @ts-expect-error A camel client is not a Telegraph<'snake'>
+    const client: Telegraph = camel;
+    assert.ok(client);
+
+    const snake = new Telegraph({ fetch: mockFetch(() => apiResult(PAGE)) });
+    const exported = await exportPage({ path: PAGE.path, format: 'markdown', client: snake });
+    assert.equal(exported.content.trim(), 'Hi');
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphValidationError, resolvePagePath } from '../src/index.js';
+import type { PageReference } from '../src/index.js';
+import { parsePageLink } from '../src/page-reference.js';
+import { apiResult, fakePage, mockFetch } from './helpers.js';
+
+/** Assert that a reference is rejected, returning the error message */
+function rejected(reference: PageReference): string {
+  let message = '';
+  assert.throws(() => resolvePagePath(reference, 'getPage'), (error: unknown) => {
+    assert.ok(error instanceof TelegraphValidationError);
+    assert.equal(error.code, 'PAGE_REFERENCE_INVALID');
+    assert.equal(error.method, 'getPage');
+    message = error.message;
+    return true;
+  });
+  return message;
+}
+
+describe('resolvePagePath', () => {
+  test('accepts bare paths, Page objects and telegra.ph or graph.org URLs', () => {
+    const references: PageReference[] = [
+      'Sample-Page-12-15',
+      ' /Sample-Page-12-15/ ',
+      fakePage('Sample-Page-12-15', 'Sample'),
+      'https://telegra.ph/Sample-Page-12-15',
+      'http://www.telegra.ph/Sample-Page-12-15/',
+      'HTTPS://Graph.org/Sample-Page-12-15?foo=1#Intro',
+      '//telegra.ph/Sample-Page-12-15',
+      'telegra.ph/Sample-Page-12-15#Intro',
+    ];
+    for (const reference of references) {
+      assert.equal(resolvePagePath(reference), 'Sample-Page-12-15', String(reference));
+    }
+  });
+
+  test('decodes paths in URLs and keeps bare paths as written', () => {
+    assert.equal(resolvePagePath('https://telegra.ph/%D0%9F%D1%80%D0%B8%D0%B2%D0%B5%D1%82-01-01'), 'Привет-01-01');
+    assert.equal(resolvePagePath('Привет-01-01'), 'Привет-01-01');
+    assert.equal(resolvePagePath('100%25-01-01'), '100%25-01-01');
+  });
+
+  test('rejects references that do not point at a page', () => {
+    assert.match(rejected(''), /path is empty/);
+    assert.match(rejected({ path: '  ' } as PageReference), /path is empty/);
+    assert.match(rejected({} as PageReference), /expected a page path/);
+    assert.match(rejected(null as unknown as PageReference), /expected a page path/);
+    assert.match(rejected('https://example.com/Sample-Page-12-15'), /only telegra\.ph and graph\.org URLs/);
+    assert.match(rejected('//example.com/Sample'), /only telegra\.ph and graph\.org URLs/);
+    assert.match(rejected('https://telegra.ph.example.com/Sample'), /only telegra\.ph and graph\.org URLs/);
+    assert.match(rejected('https://telegra.ph/'), /does not point at a page/);
+    assert.match(rejected('https://telegra.ph/file/abc.png'), /does not point at a page/);
+    assert.match(rejected('a/b'), /single path segment/);
+    assert.match(rejected('https://telegra.ph/%E0%A4%A'), /malformed escape/);
+    assert.match(rejected('https://telegra.ph/a%20b'), /whitespace or control characters/);
+    assert.match(rejected('a\tb'), /whitespace or control characters/);
+  });
+
+  test('is applied by the methods that take a page', async () => {
+    const fetch = mockFetch(call => apiResult(call.method === 'getViews' ? { views: 1 } : fakePage('Sample-Page-12-15', 'Sample')));
+    const telegraph = new Telegraph({ fetch });
+    const url = 'https://graph.org/Sample-Page-12-15#Intro';
+
+    await telegraph.getPage({ path: url });
+    await telegraph.editPage({ accessToken: 'token', path: url, title: 'Sample', content: 'Hi' });
+    await telegraph.getViews({ path: url });
+    assert.deepEqual(fetch.calls.map(call => [call.method, call.params.path]), [
+      ['getPage', 'Sample-Page-12-15'],
+      ['editPage', 'Sample-Page-12-15'],
+      ['getViews', 'Sample-Page-12-15'],
+    ]);
+
+    await assert.rejects(telegraph.getPage({ path: 'https://example.com/x' }), { code: 'PAGE_REFERENCE_INVALID', method: 'getPage' });
+    assert.equal(fetch.calls.length, 3);
+  });
+});
+
+describe('parsePageLink', () => {
+  test('splits page links into origin, decoded path and suffix', () => {
+    assert.deepEqual(parsePageLink('https://telegra.ph/Caf%C3%A9-01-01#Menu'), { origin: 'https://telegra.ph', path: 'Café-01-01', suffix: '#Menu' });
+    assert.deepEqual(parsePageLink('/Other-01-01?x'), { origin: '', path: 'Other-01-01', suffix: '?x' });
+    assert.deepEqual(parsePageLink('//graph.org/Bad-%E0'), { origin: '//graph.org', path: 'Bad-%E0', suffix: '' });
+  });
+
+  test('returns undefined for anything else', () => {
+    for (const href of ['https://example.com/Page', '/file/abc.png', '#Section', 'mailto:a@b.co', 'Page-01-01']) {
+      assert.equal(parsePageLink(href), undefined, href);
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphError } from '../src/index.js';
+import { RateLimiter } from '../src/rate-limiter.js';
+
+/**
+ * A task that records when it started and finishes when release() is called
+ */
+function controlledTask(log: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  return {
+    run: async () => {
+      log.push(`${name}@${Date.now()}`);
+      await done;
+      return name;
+    },
+    release: () => release(),
+  };
+}
+
+/** Let settled promises run their callbacks */
+const flush = () => new Promise<void>(resolve => setImmediate(resolve));
+
+describe('RateLimiter', () => {
+  test('spaces starts by the request budget', async t => {
+    t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+    const limiter = new RateLimiter({ requests: 2, interval: 1000 });
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map(name => controlledTask(log, name));
+    const results = tasks.map(task => limiter.schedule(task.run));
+    tasks.forEach(task => task.release());
+
+    assert.deepEqual(log, ['a@0', 'b@0']);
+    assert.deepEqual(limiter.stats(), { queued: 3, active: 2 });
+    await flush();
+    t.mock.timers.tick(999);
+    assert.deepEqual(log, ['a@0', 'b@0']);
+    t.mock.timers.tick(1);
+    assert.deepEqual(log, ['a@0', 'b@0', 'c@1000', 'd@1000']);
+    t.mock.timers.tick(1000);
+    assert.deepEqual(log, ['a@0', 'b@0', 'c@1000', 'd@1000', 'e@2000']);
+    assert.deepEqual(await Promise.all(results), ['a', 'b', 'c', 'd', 'e']);
+  });
+
+  test('runs queued tasks in FIFO order under the concurrency cap', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd'].map(name => controlledTask(log, name));
+    const results = tasks.map(task => limiter.schedule(task.run));
+
+    assert.equal(log.length, 2);
+    assert.deepEqual(limiter.stats(), { queued: 2, active: 2 });
+    tasks[1].release();
+    await flush();
+    assert.deepEqual(log.map(entry => entry.split('@')[0]), ['a', 'b', 'c']);
+    tasks[0].release();
+    await flush();
+    assert.deepEqual(log.map(entry => entry.split('@')[0]), ['a', 'b', 'c', 'd']);
+    tasks[2].release();
+    tasks[3].release();
+    assert.deepEqual(await Promise.all(results), ['a', 'b', 'c', 'd']);
+    assert.deepEqual(limiter.stats(), { queued: 0, active: 0 });
+  });
+
+  test('removes an aborted task from the queue without disturbing the order', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const log: string[] = [];
+    const [a, b, c] = ['a', 'b', 'c'].map(name => controlledTask(log, name));
+    const controller = new AbortController();
+    const first = limiter.schedule(a.run);
+    const aborted = limiter.schedule(b.run, controller.signal);
+    const last = limiter.schedule(c.run);
+
+    controller.abort();
+    await assert.rejects(aborted, (error: unknown) => error instanceof TelegraphError && error.code === 'ABORTED');
+    assert.deepEqual(limiter.stats(), { queued: 1, active: 1 });
+    a.release();
+    c.release();
+    assert.deepEqual([await first, await last], ['a', 'c']);
+    assert.deepEqual(log.map(entry => entry.split('@')[0]), ['a', 'c']);
+  });
+
+  for (const budget of [
+    { requests: 0 },
+    { requests: -1 },
+    { requests: 1.5 },
+    { requests: NaN },
+    { interval: 0 },
+    { interval: Infinity },
+    { interval: NaN },
+    { maxConcurrency: 0 },
+  ]) {
+    test(`rejects ${JSON.stringify(budget, (_key, value) => (typeof value === 'number' ? String(value) : value))}`, () => {
+      const invalid = (error: unknown) => error instanceof TelegraphError && error.code === 'RATE_LIMIT_INVALID';
+      assert.throws(() => new RateLimiter(budget), invalid);
+      assert.throws(() => new Telegraph({ rateLimit: { write: budget } }), invalid);
+    });
+  }
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, accountReportToCsv, accountReportToMarkdown, buildAccountReport } from '../src/index.js';
+import type { AccountReport } from '../src/index.js';
+import { fakeAccount, fakePage } from './helpers.js';
+
+const RANGE = { from: '2024-06-01', to: '2024-06-03' };
+
+/** Account of three pages; Popular has 2 views a day, Quiet has one view on June 2nd */
+function account() {
+  return fakeAccount(
+    [
+      fakePage('Popular', 'Popular', ['Popular'], { views: 40 }),
+      fakePage('Quiet', 'Quiet', ['Quiet'], { views: 5 }),
+      fakePage('Empty', 'Empty', ['Empty'], { views: 1 }),
+    ],
+    {
+      views: params => {
+        if (params.path === 'Popular') return 2;
+        return params.path === 'Quiet' && params.day === '2' ? 1 : 0;
+      },
+    }
+  );
+}
+
+/** Report of a single page with the given title */
+function reportOf(title: string): AccountReport {
+  const page = { path: 'Page', url: 'https://telegra.ph/Page', title, views: 1, range_views: 1, series: [{ timestamp: '2024-06-01T00:00:00.000Z', views: 1 }] };
+  return {
+    account: 'Anna',
+    generated_at: '2024-07-01T00:00:00.000Z',
+    range: { from: page.series[0].timestamp, to: page.series[0].timestamp, granularity: 'day' },
+    page_count: 1,
+    total_views: 1,
+    range_views: 1,
+    series: page.series,
+    top_pages: [page],
+    zero_view_pages: [],
+    pages: [page],
+  };
+}
+
+describe('buildAccountReport', () => {
+  test('sums views, ranks the top pages and lists pages without views', async () => {
+    const { fetch } = account();
+    const { report } = await buildAccountReport({ accessToken: 'token', range: RANGE, client: new Telegraph({ fetch }) });
+
+    assert.equal(report.account, 'Anna');
+    assert.equal(report.page_count, 3);
+    assert.equal(report.total_views, 46);
+    assert.equal(report.range_views, 7);
+    assert.deepEqual(report.series.map(point => point.views), [2, 3, 2]);
+    assert.deepEqual(report.top_pages.map(page => [page.path, page.range_views]), [['Popular', 6], ['Quiet', 1]]);
+    assert.deepEqual(report.zero_view_pages.map(page => page.path), ['Empty']);
+  });
+
+  test('limits the top list', async () => {
+    const { fetch } = account();
+    const { report } = await buildAccountReport({ accessToken: 'token', range: RANGE, top: 1, client: new Telegraph({ fetch }) });
+    assert.deepEqual(report.top_pages.map(page => page.path), ['Popular']);
+  });
+
+  test('rejects an invalid top count before making requests', async () => {
+    const { fetch } = account();
+    await assert.rejects(
+      buildAccountReport({ accessToken: 'token', range: RANGE, top: 0, client: new Telegraph({ fetch }) }),
+      { code: 'REPORT_TOP_INVALID' }
+    );
+    assert.equal(fetch.calls.length, 0);
+  });
+});
+
+describe('accountReportToCsv', () => {
+  test('writes one row per page and one column per period', async () => {
+    const { fetch } = account();
+    const { csv } = await buildAccountReport({ accessToken: 'token', range: RANGE, client: new Telegraph({ fetch }) });
+    const rows = csv.split('\r\n');
+
+    assert.equal(rows[0], 'path,title,url,views,range_views,2024-06-01T00:00:00.000Z,2024-06-02T00:00:00.000Z,2024-06-03T00:00:00.000Z');
+    assert.equal(rows[1], 'Popular,Popular,https://telegra.ph/Popular,40,6,2,2,2');
+    assert.equal(rows.length, 5);
+    assert.equal(rows[4], '');
+  });
+
+  test('quotes fields with delimiters, quotes and line breaks', () => {
+    const [, row] = accountReportToCsv(reportOf('Say "hi",\nthen go')).split('\r\n');
+    assert.equal(row, 'Page,"Say ""hi"",\nthen go",https://telegra.ph/Page,1,1,1');
+  });
+
+  for (const title of ['=1+1', '+1', '-1', '@SUM(A1)', '\t=1', '\r=1']) {
+    test(`neutralizes a title starting with ${JSON.stringify(title[0])}`, () => {
+      const [, row] = accountReportToCsv(reportOf(title)).split('\r\n');
+      const field = row.split(',')[1];
+      assert.ok(field.startsWith("'") || field.startsWith(`"'`), field);
+    });
+  }
+
+  test('quotes a neutralized field that needs quoting', () => {
+    const [, row] = accountReportToCsv(reportOf('=HYPERLINK("x","y")')).split('\r\n');
+    assert.equal(row, `Page,"'=HYPERLINK(""x"",""y"")",https://telegra.ph/Page,1,1,1`);
+  });
+});
+
+describe('accountReportToMarkdown', () => {
+  test('escapes titles in the top list', () => {
+    const markdown = accountReportToMarkdown(reportOf('A | *B*'));
+    assert.match(markdown, /^# Traffic report: Anna$/m);
+    assert.match(markdown, /^\| 1 \| \[A \\\| \\\*B\\\*\]\(https:\/\/telegra\.ph\/Page\) \| 1 \| 1 \|$/m);
+    assert.match(markdown, /^Every page has views in this range\.$/m);
+  });
+});
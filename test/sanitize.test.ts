@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { htmlToNodes, normalizeNodes, sanitizeHtml, validateNodes } from '../src/index.js';
+
+describe('sanitizeHtml', () => {
+  test('maps headings and containers onto Telegraph tags', () => {
+    assert.equal(sanitizeHtml('<h1 style="color:red">Title</h1><div onclick="x()">Text</div>'), '<h3>Title</h3><p>Text</p>');
+    assert.equal(sanitizeHtml('<h2>A</h2><h5>B</h5><h6>C</h6>'), '<h3>A</h3><h4>B</h4><h4>C</h4>');
+    assert.equal(sanitizeHtml('<section><article><p>Kept</p></article></section>'), '<p>Kept</p>');
+    assert.equal(sanitizeHtml('<div><p>One</p><p>Two</p></div>'), '<p>One</p><p>Two</p>');
+    assert.equal(sanitizeHtml('<del>a</del><ins>b</ins><kbd>c</kbd><cite>d</cite><span>e</span>'), '<s>a</s><u>b</u><code>c</code><i>d</i>e');
+  });
+
+  test('turns tables and definition lists into paragraphs', () => {
+    assert.equal(
+      sanitizeHtml('<table><tr><th>Name</th><th>Qty</th></tr><tr><td>Apple</td><td>3</td></tr></table>'),
+      '<p><b>Name</b> | <b>Qty</b></p><p>Apple | 3</p>'
+    );
+    assert.equal(sanitizeHtml('<dl><dt>Term</dt><dd>Definition</dd></dl>'), '<p><b>Term</b></p><p>Definition</p>');
+  });
+
+  test('removes scripts, styles, forms controls and other unsafe elements with their content', () => {
+    assert.equal(
+      sanitizeHtml('<p>a<script>alert(1)</script><style>p{}</style><svg><text>x</text></svg><button>b</button>c</p><form><p>d</p></form>'),
+      '<p>ac</p><p>d</p>'
+    );
+  });
+
+  test('keeps only safe href and src attributes', () => {
+    assert.equal(
+      sanitizeHtml('<a href="https://example.com/" title="t" class="c">ok</a><a href="javascript:alert(1)">js</a><a href="java\nscript:x">split</a>'),
+      '<a href="https://example.com/">ok</a>jssplit'
+    );
+    assert.equal(sanitizeHtml('<a href="/relative">r</a> <a href="tg://resolve?domain=x">tg</a>'), '<a href="/relative">r</a> <a href="tg://resolve?domain=x">tg</a>');
+    assert.equal(
+      sanitizeHtml('<img src="data:image/png;base64,AA=="><img src="data:text/html,x"><img><video src="vbscript:x"></video>'),
+      '<img src="data:image/png;base64,AA=="/>'
+    );
+  });
+
+  test('fixes nesting Telegraph rejects', () => {
+    assert.equal(sanitizeHtml('<li>orphan</li>'), '<p>orphan</p>');
+    assert.equal(sanitizeHtml('<ul>loose<p>para</p><li>item</li></ul>'), '<ul><li>loose</li><li><p>para</p></li><li>item</li></ul>');
+    assert.equal(sanitizeHtml('<a href="/a"><b>bold</b><a href="/b">inner</a></a>'), '<a href="/a">bold</a><a href="/b">inner</a>');
+    assert.equal(sanitizeHtml('<figcaption>stray</figcaption><p></p>'), 'stray');
+  });
+
+  test('produces content validateNodes accepts', () => {
+    const html = '<div><h1>T</h1><table><tr><td><ul><li><div>x</div></li></ul></td></tr></table><p><a href="/x"><h2>deep</h2></a></p></div>';
+    const result = validateNodes(htmlToNodes(sanitizeHtml(html)));
+    assert.deepEqual(result.diagnostics.filter(d => d.severity === 'error'), []);
+  });
+});
+
+describe('normalizeNodes', () => {
+  test('applies custom rules before the defaults', () => {
+    const nodes = htmlToNodes('<aside>note</aside><mark>hi</mark><div>keep</div><h1>gone</h1>');
+    const normalized = normalizeNodes(nodes, {
+      rules: {
+        aside: 'blockquote',
+        mark: 'b',
+        div: div => ({ tag: 'pre', children: div.children }),
+        h1: 'remove',
+      },
+    });
+    assert.deepEqual(normalized, [
+      { tag: 'blockquote', children: ['note'] },
+      { tag: 'b', children: ['hi'] },
+      { tag: 'pre', children: ['keep'] },
+    ]);
+  });
+
+  test('passes function rules a lowercase tag and normalizes what they return', () => {
+    const seen: string[] = [];
+    const normalized = normalizeNodes([{ tag: 'X-Card', children: [{ tag: 'H1', children: ['t'] }] }], {
+      rules: {
+        'x-card': card => {
+          seen.push(card.tag);
+          return [{ tag: 'section', children: card.children }, card];
+        },
+      },
+    });
+    assert.deepEqual(seen, ['x-card']);
+    // The section is unwrapped and the element itself is unwrapped rather than re-ruled
+    assert.deepEqual(normalized, [{ tag: 'h3', children: ['t'] }, { tag: 'h3', children: ['t'] }]);
+  });
+
+  test('honours allowedProtocols', () => {
+    const nodes = [{ tag: 'a', attrs: { href: 'ftp://example.com/file' }, children: ['ftp'] }, { tag: 'a', attrs: { href: 'mailto:a@b.co' }, children: ['mail'] }];
+    assert.deepEqual(normalizeNodes(nodes, { allowedProtocols: ['ftp'] }), [{ tag: 'a', attrs: { href: 'ftp://example.com/file' }, children: ['ftp'] }, 'mail']);
+  });
+});
@@ -0,0 +1,215 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { htmlToNodes, nodesToHtml, nodesToMarkdown, parseContent, validateNodes } from '../src/index.js';
+import type { Node, NodeElement } from '../src/index.js';
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32), so failures can be replayed by seed
+ */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Text fragments chosen to hit Markdown and HTML metacharacters */
+const TEXT = [
+  'word', ' ', 'two words', '*', '_', '**', '~~', '`', '<', '>', '&', '&amp;', '"', "'", '[', ']', '(', ')', '!',
+  '#', '# ', '- ', '+ ', '1. ', '2) ', '\\', '|', '=', '---', '    ', '\t', 'é', 'http://example.com', 'a@b.co', '<b>',
+];
+
+/** URLs in the form CommonMark would write them */
+const URLS = ['https://example.com/', '/Page-01-01', 'https://example.com/a%20b?x=1&y=2#top', '/file/a.png', 'mailto:a@b.co'];
+
+/**
+ * Generator of random Telegraph-valid trees
+ */
+function generator(seed: number) {
+  const next = random(seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+  const count = (max: number) => 1 + Math.floor(next() * max);
+
+  const text = (): string => Array.from({ length: count(3) }, () => pick(TEXT)).join('');
+
+  const inline = (depth: number): Node[] => Array.from({ length: count(4) }, (): Node => {
+    const choice = depth > 2 ? 0 : Math.floor(next() * 10);
+    switch (choice) {
+      case 1: case 2: case 3: case 4: case 5:
+        return { tag: pick(['b', 'i', 'strong', 'em', 'u', 's'] as const), children: inline(depth + 1) };
+      case 6:
+        return { tag: 'code', children: [text()] };
+      case 7:
+        return { tag: 'a', attrs: { href: pick(URLS) }, children: inline(depth + 1) };
+      case 8:
+        return { tag: 'br' };
+      default:
+        return text();
+    }
+  });
+
+  const listItems = (depth: number): NodeElement[] => Array.from({ length: count(3) }, () => {
+    const children = inline(1);
+    if (depth < 2 && next() < 0.3) children.push(list(depth + 1));
+    return { tag: 'li', children };
+  });
+  const list = (depth: number): NodeElement => ({ tag: pick(['ul', 'ol'] as const), children: listItems(depth) });
+
+  const block = (depth: number): NodeElement => {
+    switch (Math.floor(next() * 11)) {
+      case 0: return { tag: 'h3', children: inline(1) };
+      case 1: return { tag: 'h4', children: inline(1) };
+      case 2: return { tag: 'pre', children: [Array.from({ length: count(3) }, text).join('\n')] };
+      case 3: return depth > 1 ? { tag: 'p', children: inline(0) } : { tag: 'blockquote', children: inline(0) };
+      case 4: return list(0);
+      case 5: return { tag: 'hr' };
+      case 6:
+        return {
+          tag: 'figure',
+          children: [{ tag: 'img', attrs: { src: pick(URLS) } }, ...(next() < 0.5 ? [{ tag: 'figcaption', children: [text()] }] : [])],
+        };
+      case 7: return { tag: 'aside', children: inline(0) };
+      case 8: return { tag: pick(['iframe', 'video'] as const), attrs: { src: 'https://telegra.ph/embed/youtube?url=x' } };
+      default: return { tag: 'p', children: inline(0) };
+    }
+  };
+
+  return () => Array.from({ length: count(4) }, () => block(0));
+}
+
+/**
+ * Merge adjacent text, drop empty text and empty attrs or children, as the parsers do
+ */
+function canonical(nodes: Node[], rename: Record<string, string> = {}): Node[] {
+  const result: Node[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      if (node === '') continue;
+      const last = result[result.length - 1];
+      if (typeof last === 'string') result[result.length - 1] = last + node;
+      else result.push(node);
+      continue;
+    }
+    const element: NodeElement = { tag: rename[node.tag] || node.tag };
+    if (node.attrs && Object.keys(node.attrs).length > 0) element.attrs = node.attrs;
+    const children = canonical(node.children || [], rename);
+    if (children.length > 0) element.children = children;
+    result.push(element);
+  }
+  return result;
+}
+
+const BLOCK_TAGS = new Set(['p', 'h3', 'h4', 'pre', 'blockquote', 'aside', 'ul', 'ol', 'li', 'hr', 'figure', 'iframe', 'video']);
+
+const isBlockNode = (node: Node): boolean => typeof node !== 'string' && BLOCK_TAGS.has(node.tag);
+
+/**
+ * What the Markdown round trip is documented to give back: strong and em read back as b and i,
+ * whitespace-only text dropped from the top level, blockquotes and list items, and top-level inline content in a paragraph
+ */
+function markdownCanonical(nodes: Node[], root = true): Node[] {
+  const result: Node[] = [];
+  let run: Node[] = [];
+  const flush = () => {
+    if (run.some(node => typeof node !== 'string' || node.trim() !== '')) {
+      result.push(...(root ? [{ tag: 'p', children: run }] : run));
+    }
+    run = [];
+  };
+
+  for (const node of canonical(nodes, { strong: 'b', em: 'i' })) {
+    if (!isBlockNode(node)) {
+      run.push(node);
+      continue;
+    }
+    flush();
+    const element = node as NodeElement;
+    if (element.children && ['blockquote', 'li', 'ul', 'ol'].includes(element.tag)) {
+      const children = markdownCanonical(element.children, false);
+      result.push(children.length > 0 ? { ...element, children } : { tag: element.tag });
+    } else {
+      result.push(element);
+    }
+  }
+  flush();
+  return result;
+}
+
+describe('round trips', () => {
+  for (let seed = 1; seed <= 300; seed++) {
+    const content = generator(seed)();
+    if (!validateNodes(content).valid) continue;
+
+    test(`seed ${seed}`, () => {
+      const html = nodesToHtml(content);
+      assert.deepEqual(htmlToNodes(html), canonical(content), html);
+      const markdown = nodesToMarkdown(content);
+      assert.deepEqual(markdownCanonical(parseContent(markdown, 'markdown')), markdownCanonical(content), markdown);
+    });
+  }
+});
+
+describe('round trip fixtures', () => {
+  const markdownRoundTrip = (nodes: Node[]) => parseContent(nodesToMarkdown(nodes), 'markdown');
+
+  test('keeps Markdown metacharacters in text as text', () => {
+    const content: Node[] = [
+      { tag: 'p', children: ['*not emphasis* [x](y) <b> &amp; `code` ~~s~~ \\ http://example.com'] },
+      { tag: 'p', children: ['# not a heading'] },
+      { tag: 'p', children: ['1. not a list\n- nor this\n> nor a quote\n==='] },
+      { tag: 'p', children: ['  leading and trailing  '] },
+    ];
+    assert.deepEqual(markdownRoundTrip(content), content);
+    assert.deepEqual(htmlToNodes(nodesToHtml(content)), content);
+  });
+
+  test('keeps empty list items, including nested ones after text', () => {
+    const content: Node[] = [{
+      tag: 'ol',
+      children: [
+        { tag: 'li', children: ['text', { tag: 'ul', children: [{ tag: 'li' }, { tag: 'li', children: ['b'] }] }] },
+        { tag: 'li', children: ['[', { tag: 'ol', children: [{ tag: 'li' }] }] },
+        { tag: 'li' },
+      ],
+    }];
+    assert.deepEqual(markdownRoundTrip(content), content);
+  });
+
+  test('reads strong and em back as b and i', () => {
+    const content: Node[] = [{ tag: 'p', children: [{ tag: 'strong', children: ['bold'] }, ' ', { tag: 'em', children: ['italic'] }] }];
+    assert.deepEqual(markdownRoundTrip(content), [
+      { tag: 'p', children: [{ tag: 'b', children: ['bold'] }, ' ', { tag: 'i', children: ['italic'] }] },
+    ]);
+    assert.deepEqual(htmlToNodes(nodesToHtml(content)), content);
+  });
+
+  test('percent-encodes URLs in Markdown and keeps them as written in HTML', () => {
+    const content: Node[] = [{
+      tag: 'p',
+      children: [
+        { tag: 'a', attrs: { href: '/a b' }, children: ['space'] },
+        { tag: 'a', attrs: { href: 'https://example.com/a%20b' }, children: ['encoded'] },
+      ],
+    }];
+    assert.deepEqual(markdownRoundTrip(content), [{
+      tag: 'p',
+      children: [
+        { tag: 'a', attrs: { href: '/a%20b' }, children: ['space'] },
+        { tag: 'a', attrs: { href: 'https://example.com/a%20b' }, children: ['encoded'] },
+      ],
+    }]);
+    assert.deepEqual(htmlToNodes(nodesToHtml(content)), content);
+  });
+
+  test('drops whitespace-only text between blocks and wraps top-level inline content', () => {
+    const content: Node[] = ['loose ', { tag: 'u', children: ['text'] }, { tag: 'hr' }, '\n  ', { tag: 'p', children: ['x'] }];
+    assert.deepEqual(markdownRoundTrip(content), [
+      { tag: 'p', children: ['loose ', { tag: 'u', children: ['text'] }] },
+      { tag: 'hr' },
+      { tag: 'p', children: ['x'] },
+    ]);
+  });
+});
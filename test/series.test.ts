@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { MAX_CONTENT_SIZE, Telegraph, TelegraphContentError, TelegraphValidationError, measureContent, splitContent } from '../src/index.js';
+import type { Node } from '../src/index.js';
+import { fakeAccount, fakePage } from './helpers.js';
+
+const p = (text: string): Node => ({ tag: 'p', children: [text] });
+
+/** Content needing two pages: eight 10 KB paragraphs */
+const LONG = Array.from({ length: 8 }, (_, i) => p(String(i).repeat(10_000)));
+
+describe('splitContent', () => {
+  test('returns content that fits as a single part', () => {
+    assert.deepEqual(splitContent(LONG.slice(0, 2)), [LONG.slice(0, 2)]);
+    assert.deepEqual(splitContent([]), [[]]);
+  });
+
+  test('splits at block boundaries, keeping every part within maxSize', () => {
+    const parts = splitContent(LONG);
+
+    assert.equal(parts.length, 2);
+    assert.deepEqual(parts.flat(), LONG);
+    assert.ok(parts.every(part => measureContent(part) <= MAX_CONTENT_SIZE));
+  });
+
+  test('starts a part at a heading when the part before stays half full', () => {
+    const nodes = [p('a'.repeat(30)), { tag: 'h3', children: ['Two'] }, p('b'.repeat(30)), p('c'.repeat(30))];
+
+    assert.deepEqual(splitContent(nodes, { maxSize: 110 }), [nodes.slice(0, 1), nodes.slice(1, 3), nodes.slice(3)]);
+  });
+
+  test('splits oversized blocks into copies and long text at whitespace', () => {
+    const list: Node = { tag: 'ul', children: ['aaaa', 'bbbb', 'cccc'].map(text => ({ tag: 'li', children: [text] })) };
+
+    assert.deepEqual(splitContent([list], { maxSize: 60 }), [
+      [{ tag: 'ul', children: [{ tag: 'li', children: ['aaaa'] }] }],
+      [{ tag: 'ul', children: [{ tag: 'li', children: ['bbbb'] }] }],
+      [{ tag: 'ul', children: [{ tag: 'li', children: ['cccc'] }] }],
+    ]);
+    assert.deepEqual(splitContent([p('one two three four five six')], { maxSize: 50 }), [[p('one two three four ')], [p('five six')]]);
+    // Words that don't fit are split between code points, never inside a UTF-8 sequence
+    assert.deepEqual(splitContent([p('é'.repeat(11))], { maxSize: 40 }), [[p('é'.repeat(5))], [p('é'.repeat(5))], [p('é')]]);
+  });
+});
+
+describe('createSeries', () => {
+  test('creates linked parts titled with their position', async () => {
+    const account = fakeAccount([]);
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const pages = await telegraph.createSeries({ accessToken: 'token', title: 'Report', content: LONG });
+
+    assert.deepEqual(pages.map(page => page.title), ['Report (Part 1 of 2)', 'Report (Part 2 of 2)']);
+    // The first part only links forward once the second one exists
+    assert.deepEqual(account.fetch.calls.map(call => call.method), ['createPage', 'createPage', 'editPage']);
+
+    const [first, second] = pages.map(page => account.pages.find(candidate => candidate.path === page.path)!.content);
+    assert.deepEqual(first[0], { tag: 'p', children: [{ tag: 'i', children: ['Part 1 of 2'] }] });
+    assert.deepEqual(first[first.length - 1], {
+      tag: 'p',
+      children: ['Part 1 of 2: ', { tag: 'a', attrs: { href: `https://telegra.ph/${pages[1].path}` }, children: ['Part 2 →'] }],
+    });
+    assert.deepEqual(second[second.length - 1], {
+      tag: 'p',
+      children: ['Part 2 of 2: ', { tag: 'a', attrs: { href: `https://telegra.ph/${pages[0].path}` }, children: ['← Part 1'] }],
+    });
+    assert.deepEqual([...first.slice(1, -2), ...second.slice(1, -2)], LONG);
+  });
+
+  test('publishes content that fits as one page without navigation', async () => {
+    const account = fakeAccount([]);
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const pages = await telegraph.createSeries({ accessToken: 'token', title: 'Short', content: '<p>Hi</p>' });
+
+    assert.equal(pages.length, 1);
+    assert.equal(pages[0].title, 'Short');
+    assert.deepEqual(account.pages[0].content, [p('Hi')]);
+    assert.deepEqual(account.fetch.calls.map(call => call.method), ['createPage']);
+  });
+
+  test('updates an existing series in place and retires parts no longer needed', async () => {
+    const account = fakeAccount(['Old-3', 'Old-2', 'Old-1'].map(path => fakePage(path, path)));
+    const telegraph = new Telegraph({ fetch: account.fetch });
+    const pages = await telegraph.createSeries({
+      accessToken: 'token',
+      title: 'Report',
+      content: LONG,
+      paths: ['Old-1', 'https://telegra.ph/Old-2', fakePage('Old-3', 'Old-3')],
+    });
+
+    assert.deepEqual(pages.map(page => page.path), ['Old-1', 'Old-2']);
+    assert.deepEqual(account.fetch.calls.map(call => [call.method, call.params.path]), [
+      ['editPage', 'Old-1'],
+      ['editPage', 'Old-2'],
+      ['editPage', 'Old-3'],
+    ]);
+    assert.deepEqual(account.pages[0].content, [{ tag: 'p', children: [
+      'This part is no longer in use. Continue reading at ',
+      { tag: 'a', attrs: { href: 'https://telegra.ph/Old-1' }, children: ['Report'] },
+      '.',
+    ] }]);
+  });
+
+  test('rejects invalid paths and, in strict mode, invalid parts before publishing', async () => {
+    const account = fakeAccount([]);
+    const telegraph = new Telegraph({ fetch: account.fetch });
+
+    await assert.rejects(
+      telegraph.createSeries({ accessToken: 'token', title: 'Report', content: LONG, paths: ['https://example.com/Old-1'] }),
+      TelegraphValidationError
+    );
+    await assert.rejects(
+      telegraph.createSeries({ accessToken: 'token', title: 'Report', content: [{ tag: 'div', children: ['x'] }], strict: true }),
+      TelegraphContentError
+    );
+    assert.equal(account.fetch.calls.length, 0);
+  });
+});
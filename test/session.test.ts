@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphError } from '../src/index.js';
+import { apiResult, fakePage, mockFetch } from './helpers.js';
+
+const ACCOUNT = { short_name: 'Sandbox', author_name: 'Anna', author_url: 'https://example.com/' };
+const PAGE = fakePage('Hello-01-01', 'Hello');
+
+/**
+ * Client that answers every method, handing out token-2, token-3, ... on revokeAccessToken
+ */
+function sessionClient(revoked: (n: number) => Record<string, unknown> = n => ({ ...ACCOUNT, access_token: `token-${n}` })) {
+  let revocations = 1;
+  const fetch = mockFetch(call => {
+    switch (call.method) {
+      case 'revokeAccessToken':
+        return apiResult(revoked(++revocations));
+      case 'getAccountInfo':
+      case 'editAccountInfo':
+        return apiResult(ACCOUNT);
+      case 'getPageList':
+        return apiResult({ total_count: 1, pages: [PAGE] });
+      default:
+        return apiResult(PAGE);
+    }
+  });
+  return { fetch, telegraph: new Telegraph({ fetch }) };
+}
+
+describe('AccountSession', () => {
+  test('passes its token to every account-bound call', async () => {
+    const { fetch, telegraph } = sessionClient();
+    const session = telegraph.account('token-1');
+
+    await session.createPage({ title: 'Hello', content: 'Hi' });
+    await session.editPage({ path: PAGE.path, title: 'Hello', content: 'Hi again' });
+    await session.getPageList({ limit: 5 });
+    await session.getInfo({ fields: ['short_name'] });
+    await session.edit({ shortName: 'Renamed' });
+    for await (const page of session.iteratePages()) {
+      assert.equal(page.path, PAGE.path);
+    }
+
+    assert.deepEqual(fetch.calls.map(call => [call.method, call.params.access_token]), [
+      ['createPage', 'token-1'],
+      ['editPage', 'token-1'],
+      ['getPageList', 'token-1'],
+      ['getAccountInfo', 'token-1'],
+      ['editAccountInfo', 'token-1'],
+      ['getPageList', 'token-1'],
+    ]);
+    assert.equal(fetch.calls[2].params.limit, '5');
+    assert.equal(fetch.calls[4].params.short_name, 'Renamed');
+  });
+
+  test('switches to the new token after revoking and reports it', async () => {
+    const { fetch, telegraph } = sessionClient();
+    const changes: [string, unknown][] = [];
+    const session = telegraph.account('token-1', {
+      onTokenChange: async (accessToken, account) => {
+        changes.push([accessToken, account.short_name]);
+      },
+    });
+
+    const account = await session.revoke();
+    assert.equal(account.access_token, 'token-2');
+    assert.equal(session.accessToken, 'token-2');
+    await session.revoke();
+    await session.getInfo();
+
+    assert.deepEqual(changes, [['token-2', 'Sandbox'], ['token-3', 'Sandbox']]);
+    assert.deepEqual(fetch.calls.map(call => [call.method, call.params.access_token]), [
+      ['revokeAccessToken', 'token-1'],
+      ['revokeAccessToken', 'token-2'],
+      ['getAccountInfo', 'token-3'],
+    ]);
+  });
+
+  test('reads the new token from camelCase accounts', async () => {
+    const fetch = mockFetch(() => apiResult({ ...ACCOUNT, access_token: 'token-2' }));
+    const session = new Telegraph({ fetch, responseCase: 'camel' }).account('token-1');
+
+    const account = await session.revoke();
+    assert.equal(account.accessToken, 'token-2');
+    assert.equal(session.accessToken, 'token-2');
+  });
+
+  test('keeps the old token when revoking returns none', async () => {
+    const { telegraph } = sessionClient(() => ACCOUNT);
+    let changed = false;
+    const session = telegraph.account('token-1', { onTokenChange: () => { changed = true; } });
+
+    await assert.rejects(session.revoke(), (error: unknown) => {
+      assert.ok(error instanceof TelegraphError);
+      assert.equal(error.code, 'ACCESS_TOKEN_NOT_RETURNED');
+      assert.equal(error.method, 'revokeAccessToken');
+      return true;
+    });
+    assert.equal(session.accessToken, 'token-1');
+    assert.equal(changed, false);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, buildTableOfContents, headingAnchor, insertTableOfContents } from '../src/index.js';
+import type { Node } from '../src/index.js';
+import { apiResult, mockFetch } from './helpers.js';
+
+/** List item linking to a heading, with optional nested items */
+const item = (text: string, nested?: Node[]): Node => ({
+  tag: 'li',
+  children: [{ tag: 'a', attrs: { href: `#${headingAnchor(text)}` }, children: [text] }, ...(nested ? [{ tag: 'ul', children: nested }] : [])],
+});
+
+const CONTENT: Node[] = [
+  { tag: 'h3', children: [' Getting started '] },
+  { tag: 'p', children: ['Intro'] },
+  { tag: 'h4', children: ['Install'] },
+  { tag: 'h4', children: [{ tag: 'b', children: ['Configure'] }, { tag: 'br' }, 'it'] },
+  { tag: 'blockquote', children: [{ tag: 'h3', children: ['Quoted'] }] },
+  { tag: 'h3', children: [' '] },
+  { tag: 'h3', children: ['API'] },
+];
+
+describe('headingAnchor', () => {
+  test('replaces runs of whitespace with dashes, keeping everything else', () => {
+    assert.equal(headingAnchor('Getting started'), 'Getting-started');
+    assert.equal(headingAnchor('  A \t b\nc  '), 'A-b-c');
+    assert.equal(headingAnchor('Q&A: 1.0?'), 'Q&A:-1.0?');
+  });
+});
+
+describe('buildTableOfContents', () => {
+  test('lists top-level h3 headings with the h4 headings after them nested', () => {
+    assert.deepEqual(buildTableOfContents(CONTENT), {
+      tag: 'ul',
+      children: [item('Getting started', [item('Install'), item('Configure it')]), item('API')],
+    });
+  });
+
+  test('lists an h4 with no h3 before it at the top level', () => {
+    assert.deepEqual(buildTableOfContents([{ tag: 'h4', children: ['Note'] }, { tag: 'h3', children: ['Next'] }]), {
+      tag: 'ul',
+      children: [item('Note'), item('Next')],
+    });
+  });
+
+  test('returns undefined for content without headings', () => {
+    assert.equal(buildTableOfContents(['text', { tag: 'p', children: ['x'] }]), undefined);
+  });
+});
+
+describe('insertTableOfContents', () => {
+  const toc = buildTableOfContents(CONTENT) as Node;
+
+  test('replaces the placeholder paragraph, or adds the list at the top', () => {
+    assert.deepEqual(insertTableOfContents([{ tag: 'p', children: [' [TOC] '] }, ...CONTENT]), [toc, ...CONTENT]);
+    assert.deepEqual(insertTableOfContents([...CONTENT.slice(0, 2), '[TOC]', ...CONTENT.slice(2)]), [...CONTENT.slice(0, 2), toc, ...CONTENT.slice(2)]);
+    assert.deepEqual(insertTableOfContents(CONTENT), [toc, ...CONTENT]);
+  });
+
+  test('honours a custom placeholder and leaves content without headings alone', () => {
+    assert.deepEqual(insertTableOfContents([{ tag: 'p', children: ['{{toc}}'] }, ...CONTENT], { placeholder: '{{toc}}' }), [toc, ...CONTENT]);
+    assert.deepEqual(insertTableOfContents([{ tag: 'p', children: ['[TOC]'] }, 'x']), ['x']);
+    assert.deepEqual(insertTableOfContents(['x']), ['x']);
+  });
+
+  test('is applied by createPage when toc is set', async () => {
+    const fetch = mockFetch(() => apiResult({}));
+    const telegraph = new Telegraph({ fetch });
+    await telegraph.createPage({ accessToken: 'token', title: 'Docs', content: '<p>[TOC]</p><h3>Intro</h3><p>Text</p>', toc: true });
+
+    assert.deepEqual(JSON.parse(fetch.calls[0].params.content), [
+      { tag: 'ul', children: [item('Intro')] },
+      { tag: 'h3', children: ['Intro'] },
+      { tag: 'p', children: ['Text'] },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphError, TelegraphNotFoundError, TelegraphValidationError } from '../src/index.js';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MP4 = new Uint8Array([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70]);
+
+/**
+ * Upload endpoint that records the posted files and answers with the given response
+ */
+function uploadEndpoint(respond: () => Response = () => Response.json([{ src: '/file/abc.png' }])) {
+  const uploads: { url: string; file: File }[] = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    uploads.push({ url: String(input), file: (init?.body as FormData).get('file') as File });
+    return respond();
+  };
+  return { uploads, telegraph: new Telegraph({ fetch, uploadBaseUrl: 'https://upload.example/' }) };
+}
+
+/** Assert that a promise rejects with a TelegraphError of the given class and code */
+const rejectsWith = (promise: Promise<unknown>, type: typeof TelegraphError, code: string) =>
+  assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof type);
+    assert.equal((error as TelegraphError).code, code);
+    return true;
+  });
+
+describe('uploadFile', () => {
+  test('posts bytes with the sniffed type and returns the hosted file', async () => {
+    const { uploads, telegraph } = uploadEndpoint();
+    const result = await telegraph.uploadFile(PNG);
+
+    assert.deepEqual(result, { src: '/file/abc.png', url: 'https://upload.example/file/abc.png', contentType: 'image/png', size: 8 });
+    assert.equal(uploads[0].url, 'https://upload.example/upload');
+    assert.equal(uploads[0].file.name, 'file.png');
+    assert.equal(uploads[0].file.type, 'image/png');
+    assert.deepEqual(new Uint8Array(await uploads[0].file.arrayBuffer()), PNG);
+  });
+
+  test('reads Blobs, ArrayBuffers, streams and file paths', async () => {
+    const { uploads, telegraph } = uploadEndpoint();
+    const directory = await mkdtemp(join(tmpdir(), 'telegraph-upload-'));
+    try {
+      await writeFile(join(directory, 'clip.mp4'), MP4);
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(PNG.slice(0, 3));
+          controller.enqueue(PNG.slice(3));
+          controller.close();
+        },
+      });
+
+      await telegraph.uploadFile(new Blob([PNG], { type: 'image/gif' }));
+      await telegraph.uploadFile(PNG.buffer.slice(0));
+      await telegraph.uploadFile(stream, { filename: 'photo.png' });
+      await telegraph.uploadFile(join(directory, 'clip.mp4'));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+
+    // The Blob's own type wins over sniffing
+    assert.deepEqual(uploads.map(({ file }) => [file.name, file.type, file.size]), [
+      ['file.gif', 'image/gif', 8],
+      ['file.png', 'image/png', 8],
+      ['photo.png', 'image/png', 8],
+      ['clip.mp4', 'video/mp4', 8],
+    ]);
+  });
+
+  test('falls back to the file extension, and lets an explicit type win', async () => {
+    const { uploads, telegraph } = uploadEndpoint();
+    await telegraph.uploadFile(new Uint8Array([1, 2, 3]), { filename: 'scan.JPG' });
+    await telegraph.uploadFile(PNG, { contentType: 'image/gif' });
+
+    assert.deepEqual(uploads.map(({ file }) => [file.name, file.type]), [['scan.JPG', 'image/jpeg'], ['file.gif', 'image/gif']]);
+  });
+
+  test('rejects unsupported types and oversized files before sending', async () => {
+    const { uploads, telegraph } = uploadEndpoint();
+    await rejectsWith(telegraph.uploadFile(new TextEncoder().encode('<svg/>')), TelegraphValidationError, 'FILE_TYPE_INVALID');
+    await rejectsWith(telegraph.uploadFile(PNG, { contentType: 'image/webp' }), TelegraphValidationError, 'FILE_TYPE_INVALID');
+    await rejectsWith(telegraph.uploadFile(PNG, { maxSize: 4 }), TelegraphValidationError, 'FILE_TOO_BIG');
+
+    // Streams stop being read as soon as they exceed the limit
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(PNG);
+      },
+    });
+    await rejectsWith(telegraph.uploadFile(endless, { maxSize: 20 }), TelegraphValidationError, 'FILE_TOO_BIG');
+    assert.ok(pulls <= 4);
+    assert.equal(uploads.length, 0);
+  });
+
+  test('reports a missing file path as FILE_NOT_FOUND', async () => {
+    const { uploads, telegraph } = uploadEndpoint();
+    await rejectsWith(telegraph.uploadFile(join(tmpdir(), 'telegraph-missing', 'a.png')), TelegraphNotFoundError, 'FILE_NOT_FOUND');
+    assert.equal(uploads.length, 0);
+  });
+
+  test('turns upload endpoint errors into TelegraphErrors', async () => {
+    const rejected = uploadEndpoint(() => Response.json({ error: 'File type invalid' }));
+    await assert.rejects(rejected.telegraph.uploadFile(PNG), { code: 'UPLOAD_FAILED', message: 'File type invalid', method: 'upload' });
+
+    const broken = uploadEndpoint(() => new Response('<html>', { status: 200 }));
+    await assert.rejects(broken.telegraph.uploadFile(PNG), { code: 'INVALID_RESPONSE' });
+
+    const failing = uploadEndpoint(() => new Response('', { status: 500 }));
+    await assert.rejects(failing.telegraph.uploadFile(PNG), { httpStatus: 500, method: 'upload' });
+  });
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { MAX_CONTENT_SIZE, Telegraph, TelegraphContentError, htmlToNodes, measureContent, validateNodes } from '../src/index.js';
+import type { Node } from '../src/index.js';
+import { apiResult, mockFetch } from './helpers.js';
+
+/** Diagnostics reduced to severity, code and tag path */
+function problems(nodes: Node[]) {
+  return validateNodes(nodes).diagnostics.map(d => [d.severity, d.code, d.tagPath]);
+}
+
+describe('measureContent', () => {
+  test('counts the UTF-8 bytes of the JSON-encoded content', () => {
+    assert.equal(measureContent([]), 2);
+    assert.equal(measureContent(['é']), 6);
+    assert.equal(measureContent([{ tag: 'p', children: ['Hi'] }]), JSON.stringify([{ tag: 'p', children: ['Hi'] }]).length);
+  });
+});
+
+describe('validateNodes', () => {
+  test('accepts content using only Telegraph tags and attributes', () => {
+    const result = validateNodes(htmlToNodes(
+      '<h3>Title</h3><p><a href="/x"><b>bold</b></a><br></p><ul><li>one<ol><li>two</li></ol></li></ul>'
+      + '<figure><img src="/file/a.png"><figcaption>Caption</figcaption></figure><blockquote>Quote</blockquote>'
+    ));
+    assert.deepEqual(result.diagnostics, []);
+    assert.equal(result.valid, true);
+  });
+
+  test('reports unsupported tags and attributes with their paths', () => {
+    const result = validateNodes([{ tag: 'div', children: [{ tag: 'p', attrs: { class: 'lead' }, children: ['x'] }] }]);
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.diagnostics.map(d => [d.code, d.path, d.tagPath]), [
+      ['TAG_NOT_ALLOWED', [0], 'div'],
+      ['ATTR_NOT_ALLOWED', [0, 0], 'div > p'],
+    ]);
+  });
+
+  test('warns about misplaced attributes and loose text in lists without failing', () => {
+    const result = validateNodes([{ tag: 'p', attrs: { href: '/x' }, children: ['x'] }, { tag: 'ul', children: ['loose', { tag: 'li' }] }]);
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.diagnostics.map(d => [d.severity, d.code, d.path]), [
+      ['warning', 'ATTR_MISPLACED', [0]],
+      ['warning', 'INVALID_NESTING', [1, 0]],
+    ]);
+  });
+
+  test('reports invalid nesting', () => {
+    assert.deepEqual(problems([{ tag: 'li', children: ['x'] }]), [['error', 'INVALID_NESTING', 'li']]);
+    assert.deepEqual(problems([{ tag: 'ul', children: [{ tag: 'p' }] }]), [['error', 'INVALID_NESTING', 'ul > p']]);
+    assert.deepEqual(problems([{ tag: 'p', children: [{ tag: 'blockquote' }] }]), [['error', 'INVALID_NESTING', 'p > blockquote']]);
+    assert.deepEqual(problems([{ tag: 'b', children: [{ tag: 'ul' }] }]), [['error', 'INVALID_NESTING', 'b > ul']]);
+    assert.deepEqual(problems([{ tag: 'a', children: [{ tag: 'a' }] }]), [['error', 'INVALID_NESTING', 'a > a']]);
+    assert.deepEqual(problems([{ tag: 'figcaption' }]), [['error', 'INVALID_NESTING', 'figcaption']]);
+    assert.deepEqual(problems([{ tag: 'br', children: ['x'] }]), [['error', 'INVALID_NESTING', 'br']]);
+  });
+
+  test('reports nodes that are neither text nor elements', () => {
+    assert.deepEqual(problems([null as unknown as Node, { children: [] } as unknown as Node]), [
+      ['error', 'INVALID_NODE', ''],
+      ['error', 'INVALID_NODE', ''],
+    ]);
+  });
+
+  test('checks the size limit', () => {
+    const content: Node[] = [{ tag: 'p', children: ['x'.repeat(100)] }];
+    const size = measureContent(content);
+
+    assert.equal(validateNodes(content, { maxSize: size }).valid, true);
+    const result = validateNodes(content, { maxSize: size - 1 });
+    assert.equal(result.size, size);
+    assert.deepEqual(result.diagnostics.map(d => [d.code, d.path]), [['CONTENT_TOO_BIG', []]]);
+    assert.equal(validateNodes(['x'.repeat(MAX_CONTENT_SIZE)]).valid, false);
+  });
+});
+
+describe('strict createPage', () => {
+  test('throws TelegraphContentError with the diagnostics instead of sending invalid content', async () => {
+    const fetch = mockFetch(() => apiResult({}));
+    const telegraph = new Telegraph({ fetch });
+
+    await assert.rejects(
+      telegraph.createPage({ accessToken: 'token', title: 'T', content: [{ tag: 'div' }, { tag: 'span' }], strict: true }),
+      (error: unknown) => {
+        assert.ok(error instanceof TelegraphContentError);
+        assert.equal(error.code, 'TAG_NOT_ALLOWED');
+        assert.match(error.message, /\(and 1 more\)$/);
+        assert.equal(error.diagnostics.length, 2);
+        return true;
+      }
+    );
+    assert.equal(fetch.calls.length, 0);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Telegraph, TelegraphValidationError } from '../src/index.js';
+import { LruViewsCache, viewsPeriods } from '../src/views.js';
+import { apiResult, mockFetch } from './helpers.js';
+
+/** Client answering getViews with the requested day of the month */
+function dayViewsClient(options: { viewsCacheSize?: number } = {}) {
+  const fetch = mockFetch(call => apiResult({ views: Number(call.params.day ?? 0) }));
+  return { fetch, telegraph: new Telegraph({ fetch, ...options }) };
+}
+
+const JUNE = { path: 'Hello-01-01', from: '2024-06-01', to: '2024-06-05T12:00:00Z', granularity: 'day' as const };
+
+describe('viewsPeriods', () => {
+  test('splits a range into UTC days with their getViews parameters', () => {
+    const periods = viewsPeriods('2024-02-28T23:00:00Z', '2024-03-01T01:00:00Z', 'day');
+    assert.deepEqual(periods.map(period => period.params), [
+      { year: 2024, month: 2, day: 28 },
+      { year: 2024, month: 2, day: 29 },
+      { year: 2024, month: 3, day: 1 },
+    ]);
+    assert.equal(periods[2].end.toISOString(), '2024-03-02T00:00:00.000Z');
+  });
+
+  test('rejects reversed and oversized ranges', () => {
+    assert.throws(() => viewsPeriods('2024-02-01', '2024-01-01', 'day'), { code: 'VIEWS_RANGE_INVALID' });
+    assert.throws(() => viewsPeriods('2001-01-01', '2099-01-01', 'hour'), { code: 'VIEWS_RANGE_INVALID' });
+  });
+});
+
+describe('LruViewsCache', () => {
+  test('drops the least recently used entry when full', () => {
+    const cache = new LruViewsCache(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    assert.equal(cache.get('a'), 1);
+    cache.set('c', 3);
+
+    assert.equal(cache.size, 2);
+    assert.equal(cache.get('b'), undefined);
+    assert.equal(cache.get('a'), 1);
+    assert.equal(cache.get('c'), 3);
+  });
+
+  test('keeps nothing with a size of 0', () => {
+    const cache = new LruViewsCache(0);
+    cache.set('a', 1);
+    assert.equal(cache.size, 0);
+    assert.equal(cache.get('a'), undefined);
+  });
+});
+
+describe('getViewsSeries', () => {
+  test('returns one point per period and their total', async () => {
+    const { telegraph } = dayViewsClient();
+    const series = await telegraph.getViewsSeries(JUNE);
+
+    assert.deepEqual(series.points.map(point => point.views), [1, 2, 3, 4, 5]);
+    assert.equal(series.points[0].timestamp, '2024-06-01T00:00:00.000Z');
+    assert.equal(series.total, 15);
+  });
+
+  test('caches past periods in the client', async () => {
+    const { fetch, telegraph } = dayViewsClient();
+    await telegraph.getViewsSeries(JUNE);
+    await telegraph.getViewsSeries(JUNE);
+
+    assert.equal(fetch.calls.length, 5);
+  });
+
+  test('bounds the client cache with viewsCacheSize', async () => {
+    const { fetch, telegraph } = dayViewsClient({ viewsCacheSize: 3 });
+    await telegraph.getViewsSeries({ ...JUNE, concurrency: 1 });
+    assert.equal(fetch.calls.length, 5);
+
+    // Only the last three days are kept, and reading the range in order evicts each
+    // of them just before it is needed
+    await telegraph.getViewsSeries({ ...JUNE, concurrency: 1 });
+    assert.equal(fetch.calls.length, 10);
+    await telegraph.getViewsSeries({ ...JUNE, from: '2024-06-03', concurrency: 1 });
+    assert.equal(fetch.calls.length, 10);
+  });
+
+  test('does not cache with a viewsCacheSize of 0', async () => {
+    const { fetch, telegraph } = dayViewsClient({ viewsCacheSize: 0 });
+    await telegraph.getViewsSeries({ ...JUNE, to: '2024-06-02' });
+    await telegraph.getViewsSeries({ ...JUNE, to: '2024-06-02' });
+
+    assert.equal(fetch.calls.length, 4);
+  });
+
+  test('uses a cache passed with the call', async () => {
+    const { fetch, telegraph } = dayViewsClient();
+    const cache = new Map<string, number>();
+    await telegraph.getViewsSeries({ ...JUNE, cache });
+
+    assert.equal(cache.size, 5);
+    await new Telegraph({ fetch }).getViewsSeries({ ...JUNE, cache });
+    assert.equal(fetch.calls.length, 5);
+  });
+
+  test('counts future periods as 0 without a request', async () => {
+    const { fetch, telegraph } = dayViewsClient();
+    const tomorrow = new Date(Date.now() + 24 * 3600 * 1000);
+    const series = await telegraph.getViewsSeries({ path: JUNE.path, from: tomorrow, to: tomorrow, granularity: 'day' });
+
+    assert.deepEqual(series.points.map(point => point.views), [0]);
+    assert.equal(fetch.calls.length, 0);
+  });
+
+  for (const concurrency of [0, -1, 1.5, NaN, Infinity]) {
+    test(`rejects a concurrency of ${concurrency} with VIEWS_CONCURRENCY_INVALID`, async () => {
+      const { fetch, telegraph } = dayViewsClient();
+      await assert.rejects(telegraph.getViewsSeries({ ...JUNE, concurrency }), (error: unknown) => {
+        assert.ok(error instanceof TelegraphValidationError);
+        assert.equal(error.code, 'VIEWS_CONCURRENCY_INVALID');
+        return true;
+      });
+      assert.equal(fetch.calls.length, 0);
+    });
+  }
+});